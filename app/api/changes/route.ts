@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShowtimeChanges } from '@/lib/showtimeStore';
+import { THEATERS } from '@/scrapers';
+import { ShowtimeChangeType } from '@/types/change';
+
+const CHANGE_TYPES: ShowtimeChangeType[] = ['new_film', 'new_screening', 'time_changed', 'removed', 'run_extended'];
+
+/** How far back changes are returned when `since` isn't given. */
+const DEFAULT_DAYS = 7;
+
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/changes
+ *
+ * Returns what changed between scrapes, newest first: new films and
+ * screenings, moved and removed screenings, and extended runs (see
+ * lib/changes.ts).
+ *
+ * Query params (all optional):
+ * - since: ISO timestamp; defaults to a week ago
+ * - theater: theater id, repeatable or comma-separated
+ * - type: change type, repeatable or comma-separated
+ * - limit: at most this many changes (default and maximum 500)
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const list = (name: string) => params.getAll(name).flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+
+  const sinceParam = params.get('since');
+  const since = sinceParam ? new Date(sinceParam) : new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+  if (Number.isNaN(since.getTime())) {
+    return NextResponse.json({ error: `Invalid since: ${sinceParam}` }, { status: 400 });
+  }
+
+  const theaterIds = list('theater');
+  const unknownTheater = theaterIds.find(id => !THEATERS.some(t => t.id === id));
+  if (unknownTheater) {
+    return NextResponse.json({ error: `Unknown theater: ${unknownTheater}` }, { status: 400 });
+  }
+
+  const types = list('type');
+  const unknownType = types.find(type => !CHANGE_TYPES.includes(type as ShowtimeChangeType));
+  if (unknownType) {
+    return NextResponse.json({ error: `Invalid change type: ${unknownType}` }, { status: 400 });
+  }
+
+  const limit = Number(params.get('limit') ?? MAX_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+
+  try {
+    const changes = await getShowtimeChanges({
+      since,
+      theaterIds,
+      types: types as ShowtimeChangeType[],
+      limit: Math.min(limit, MAX_LIMIT),
+    });
+
+    return NextResponse.json(
+      { changes, count: changes.length, since: since.toISOString() },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=600, stale-while-revalidate=1200',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching changes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
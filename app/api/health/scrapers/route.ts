@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getTheaterInfo } from '@/scrapers';
+import { getScraperHealth } from '@/lib/scrapeHealth';
+
+/**
+ * GET /api/health/scrapers
+ *
+ * Returns per-theater scraper health: the latest ScrapeRun (status, counts,
+ * error, anomaly), when the theater last scraped successfully, and its
+ * trailing average showtime count.
+ */
+export async function GET() {
+  try {
+    const theaters = await getScraperHealth(getTheaterInfo());
+
+    return NextResponse.json(
+      {
+        theaters,
+        healthy: theaters.every(t => t.healthy),
+        timestamp: new Date().toISOString(),
+      },
+      { headers: { 'Cache-Control': 'no-cache' } }
+    );
+  } catch (error) {
+    console.error('Error fetching scraper health:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
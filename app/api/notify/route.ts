@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getAllShowtimes } from '@/scrapers';
-import { notifySingleSubscriber } from '@/lib/notify';
+import { getShowtimeChanges, getSnapshotTimes, getStoredShowtimes } from '@/lib/showtimeStore';
+import { correctSingleSubscriber, notifySingleSubscriber } from '@/lib/notify';
+
+/** How far back moved and cancelled screenings are checked for corrections. */
+const CORRECTION_WINDOW_DAYS = 14;
 
 /**
  * POST /api/notify
  *
  * Cron-triggered endpoint that:
- * 1. Scrapes all theater showtimes
- * 2. For each active subscriber, matches showtimes against preferences
- * 3. Filters out already-notified showtimes
- * 4. Sends email notifications for new matches
- * 5. Logs sent notifications to prevent duplicates
+ * 1. Loads the stored showtime snapshot (refreshed by POST /api/scrape)
+ *    and the screenings recently moved or dropped
+ * 2. For each active subscriber, sends a correction for any screening they
+ *    were notified about that has since moved or been cancelled
+ * 3. Matches showtimes against preferences
+ * 4. Filters out already-notified showtimes
+ * 5. Sends email notifications for new matches
+ * 6. Logs sent notifications and corrections to prevent duplicates
  *
  * Protected by CRON_SECRET header to prevent unauthorized triggers.
  */
@@ -28,11 +34,18 @@ export async function POST(request: NextRequest) {
   try {
     console.log('Notification job started');
 
-    // Step 1: Scrape all showtimes once (shared across all subscribers)
-    const showtimes = await getAllShowtimes();
-    console.log(`Scraped ${showtimes.length} total showtimes`);
+    // Step 1: Load stored showtimes and recent changes once (shared across all subscribers)
+    const [showtimes, changes, savedAt] = await Promise.all([
+      getStoredShowtimes(),
+      getShowtimeChanges({
+        since: new Date(Date.now() - CORRECTION_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+        types: ['time_changed', 'removed'],
+      }),
+      getSnapshotTimes(),
+    ]);
+    console.log(`Loaded ${showtimes.length} stored showtimes, ${changes.length} moved or removed`);
 
-    if (showtimes.length === 0) {
+    if (showtimes.length === 0 && changes.length === 0) {
       return NextResponse.json({ message: 'No showtimes found', notified: 0 });
     }
 
@@ -45,9 +58,16 @@ export async function POST(request: NextRequest) {
 
     let totalNotified = 0;
     let totalMatches = 0;
+    let totalCorrections = 0;
 
-    // Step 3: Notify each subscriber using the shared helper
+    // Step 3: Correct, then notify, each subscriber using the shared helpers
     for (const subscriber of subscribers) {
+      try {
+        totalCorrections += await correctSingleSubscriber(subscriber.id, changes, { showtimes, savedAt });
+      } catch (error) {
+        console.error(`Failed to send corrections to subscriber ${subscriber.id}:`, error);
+      }
+      if (showtimes.length === 0) continue;
       try {
         const result = await notifySingleSubscriber(subscriber.id, showtimes);
         if (result && result.matchesSent > 0) {
@@ -59,12 +79,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    console.log(`Notification job complete: ${totalNotified} subscribers, ${totalMatches} matches`);
+    console.log(`Notification job complete: ${totalNotified} subscribers, ${totalMatches} matches, ${totalCorrections} corrections`);
 
     return NextResponse.json({
       message: 'Notification job complete',
       subscribersNotified: totalNotified,
       totalMatchesSent: totalMatches,
+      totalCorrectionsSent: totalCorrections,
       totalShowtimes: showtimes.length,
       totalSubscribers: subscribers.length,
     });
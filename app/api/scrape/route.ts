@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runScrapeJob } from '@/lib/scrapeJob';
+
+/**
+ * POST /api/scrape
+ *
+ * Cron-triggered endpoint that scrapes every theater and refreshes the
+ * stored showtime snapshot that /api/showtimes and /api/notify read from.
+ *
+ * Protected by CRON_SECRET header to prevent unauthorized triggers.
+ */
+export async function POST(request: NextRequest) {
+  // Verify cron secret (skip in development)
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret) {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  try {
+    console.log('Scrape job started');
+    const theaters = await runScrapeJob();
+    const totalShowtimes = theaters.reduce((sum, t) => sum + t.showtimes, 0);
+    console.log(`Scrape job complete: ${totalShowtimes} showtimes`);
+
+    return NextResponse.json({
+      message: 'Scrape job complete',
+      totalShowtimes,
+      theaters,
+    });
+  } catch (error) {
+    console.error('Scrape job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
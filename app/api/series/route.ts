@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getCurrentSeries } from '@/lib/showtimeStore';
+
+/**
+ * GET /api/series
+ *
+ * Returns the series and retrospectives running now across all theaters:
+ * every series with a screening from today on, with its theater, date
+ * range, description, link and number of upcoming screenings.
+ */
+export async function GET() {
+  try {
+    const series = await getCurrentSeries();
+
+    return NextResponse.json(
+      { series, count: series.length },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,26 +1,58 @@
-import { NextResponse } from 'next/server';
-import { getAllShowtimes } from '@/scrapers';
+import { NextRequest, NextResponse } from 'next/server';
+import { getTheaterInfo } from '@/scrapers';
+import { getLastScrapedAt, getShowtimeFacetRows, getStoredShowtimes } from '@/lib/showtimeStore';
+import { findShowtimes, parseShowtimeQuery } from '@/lib/showtimeQuery';
 
 /**
  * GET /api/showtimes
  * 
- * Returns aggregated showtimes from all NYC theaters.
+ * Returns showtimes from all NYC theaters, along with the registered
+ * theaters' display metadata.
  * 
+ * Query params (all optional; see lib/showtimeQuery.ts):
+ * - from, to: first and last date, YYYY-MM-DD
+ * - theater: theater id or name; venue: location name; tag: e.g. "qa" or
+ *   "35mm" — each repeatable or comma-separated, matching any
+ * - q: free text; every word must appear in the titles, credits, series
+ *   or festival
+ * - after, before: time-of-day window on the start, e.g. after=17:00
+ * - match: a notification preference, e.g. match=director:Agnès Varda;
+ *   repeatable, matching any
+ * - sort: time (default), film or popularity
+ * - limit (default 500, at most 2000) and cursor (a previous nextCursor)
+ *
  * Features:
- * - Runs all scrapers concurrently
- * - Returns partial results if some scrapers fail
+ * - Reads the snapshot stored by the scrape job (POST /api/scrape) instead
+ *   of scraping live, so the response is fast and theater sites aren't hit;
+ *   the date, theater, venue, tag and cursor filters run in the database
+ * - `timestamp` is when the snapshot was last refreshed
+ * - `facets` counts films per theater, venue, date and tag, each ignoring
+ *   its own filter, to drive the theater tabs, day strip and tag filters
+ * - `total` counts every match; `nextCursor` is null on the last page
  * - Includes cache control headers (1 hour cache)
  * - Handles errors gracefully
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const parsed = parseShowtimeQuery(request.nextUrl.searchParams, getTheaterInfo());
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
   try {
-    const showtimes = await getAllShowtimes();
+    const [{ showtimes, total, nextCursor, facets }, scrapedAt] = await Promise.all([
+      findShowtimes(parsed.query, { showtimes: getStoredShowtimes, facetRows: getShowtimeFacetRows }),
+      getLastScrapedAt(),
+    ]);
 
     return NextResponse.json(
       { 
         showtimes,
-        timestamp: new Date().toISOString(),
-        count: showtimes.length
+        theaters: getTheaterInfo(),
+        timestamp: (scrapedAt ?? new Date()).toISOString(),
+        count: showtimes.length,
+        total,
+        nextCursor,
+        facets,
       },
       {
         headers: {
@@ -35,6 +67,7 @@ export async function GET() {
       { 
         error: 'Failed to fetch showtimes',
         showtimes: [],
+        theaters: getTheaterInfo(),
         timestamp: new Date().toISOString(),
         count: 0
       },
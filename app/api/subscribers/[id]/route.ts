@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { PreferenceType } from '@/app/generated/prisma/client';
 import { notifySingleSubscriber } from '@/lib/notify';
+import { parseTag } from '@/lib/tags';
 
 /**
  * GET /api/subscribers/[id]
@@ -36,7 +37,7 @@ export async function GET(
  * Body: {
  *   name?: string,
  *   active?: boolean,
- *   preferences?: { type: "director" | "film" | "actor", value: string }[]
+ *   preferences?: { type: "director" | "film" | "actor" | "tag" | "series", value: string }[]
  * }
  */
 export async function PUT(
@@ -53,11 +54,14 @@ export async function PUT(
     if (active !== undefined) updateData.active = active;
 
     if (preferences && Array.isArray(preferences)) {
-      const validTypes: PreferenceType[] = ['director', 'film', 'actor'];
+      const validTypes: PreferenceType[] = ['director', 'film', 'actor', 'tag', 'series'];
       for (const pref of preferences) {
         if (!validTypes.includes(pref.type)) {
           return NextResponse.json({ error: `Invalid preference type: ${pref.type}` }, { status: 400 });
         }
+        if (pref.type === 'tag' && !parseTag(String(pref.value))) {
+          return NextResponse.json({ error: `Unknown tag: ${pref.value}` }, { status: 400 });
+        }
       }
       updateData.preferences = {
         deleteMany: {},
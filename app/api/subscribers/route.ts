@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { PreferenceType } from '@/app/generated/prisma/client';
 import { notifySingleSubscriber } from '@/lib/notify';
+import { parseTag } from '@/lib/tags';
 
 /**
  * POST /api/subscribers
@@ -10,7 +11,7 @@ import { notifySingleSubscriber } from '@/lib/notify';
  * Body: {
  *   email: string,
  *   name?: string,
- *   preferences: { type: "director" | "film" | "actor", value: string }[]
+ *   preferences: { type: "director" | "film" | "actor" | "tag" | "series", value: string }[]
  * }
  */
 export async function POST(request: NextRequest) {
@@ -27,7 +28,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate preference types
-    const validTypes: PreferenceType[] = ['director', 'film', 'actor'];
+    const validTypes: PreferenceType[] = ['director', 'film', 'actor', 'tag', 'series'];
     for (const pref of preferences) {
       if (!validTypes.includes(pref.type)) {
         return NextResponse.json({ error: `Invalid preference type: ${pref.type}` }, { status: 400 });
@@ -35,6 +36,9 @@ export async function POST(request: NextRequest) {
       if (!pref.value || typeof pref.value !== 'string') {
         return NextResponse.json({ error: 'Preference value is required' }, { status: 400 });
       }
+      if (pref.type === 'tag' && !parseTag(pref.value)) {
+        return NextResponse.json({ error: `Unknown tag: ${pref.value}` }, { status: 400 });
+      }
     }
 
     const subscriber = await prisma.subscriber.upsert({
@@ -1,10 +1,17 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { matchShowtime } from '@/lib/matcher';
+import { SHOWTIME_TAGS, TAG_LABELS, parseTag } from '@/lib/tags';
+import { formatLocalDate } from '@/lib/datetime';
+import { fetchAllShowtimes } from '@/lib/showtimeQuery';
+import { Showtime } from '@/types/showtime';
+
+type PreferenceType = 'director' | 'film' | 'actor' | 'tag' | 'series';
 
 interface Preference {
   id?: string;
-  type: 'director' | 'film' | 'actor';
+  type: PreferenceType;
   value: string;
 }
 
@@ -16,78 +23,50 @@ interface Subscriber {
   preferences: Preference[];
 }
 
-interface ShowtimeResult {
-  id: string;
-  film: string;
-  theater: string;
-  date: string;
-  time: string;
-  ticketUrl: string;
-  description?: string;
-  allTimes?: string[];
-}
-
 interface MatchedFilm {
   film: string;
   matchedBy: string; // e.g. "director: Sean Baker"
-  showtimes: ShowtimeResult[];
+  showtimes: Showtime[];
 }
 
 const PREF_TYPES = [
   { value: 'director' as const, label: 'Director', placeholder: 'e.g., Martin Scorsese' },
   { value: 'film' as const, label: 'Film Title', placeholder: 'e.g., Taxi Driver' },
   { value: 'actor' as const, label: 'Actor', placeholder: 'e.g., Robert De Niro' },
+  { value: 'tag' as const, label: 'Special Event', placeholder: 'e.g., Q&A, 35mm, Premiere' },
+  { value: 'series' as const, label: 'Series', placeholder: 'e.g., Italian Neorealism' },
 ];
 
 const PREF_COLORS: Record<string, string> = {
   director: 'bg-purple-50 text-purple-700 border-purple-200',
   film: 'bg-blue-50 text-blue-700 border-blue-200',
   actor: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  tag: 'bg-amber-50 text-amber-700 border-amber-200',
+  series: 'bg-rose-50 text-rose-700 border-rose-200',
 };
 
-/** Client-side matching — same logic as lib/matcher.ts */
-function findClientMatches(showtimes: ShowtimeResult[], preferences: Preference[]): MatchedFilm[] {
-  // Map: film name → { matchedBy set, showtimes[] }
-  const filmMap = new Map<string, { matchedBy: Set<string>; showtimes: ShowtimeResult[] }>();
+/** Client-side matching — uses the same rules as the notification job (lib/matcher.ts) */
+function findClientMatches(showtimes: Showtime[], preferences: Preference[]): MatchedFilm[] {
+  // Map: film key → { title, matchedBy set, showtimes[] }
+  const filmMap = new Map<string, { title: string; matchedBy: Set<string>; showtimes: Showtime[] }>();
 
   for (const st of showtimes) {
-    const filmLower = st.film.toLowerCase();
-    const descLower = (st.description || '').toLowerCase();
-    const combined = `${filmLower} ${descLower}`;
-
-    for (const pref of preferences) {
-      const valueLower = pref.value.toLowerCase();
-      let matched = false;
-
-      switch (pref.type) {
-        case 'film':
-          matched = filmLower.includes(valueLower);
-          break;
-        case 'director':
-          matched = combined.includes(valueLower);
-          break;
-        case 'actor':
-          matched = descLower.includes(valueLower);
-          break;
+    for (const pref of matchShowtime(st, preferences)) {
+      const key = st.filmKey ?? st.film;
+      if (!filmMap.has(key)) {
+        filmMap.set(key, { title: st.filmTitle ?? st.film, matchedBy: new Set(), showtimes: [] });
       }
-
-      if (matched) {
-        const key = st.film;
-        if (!filmMap.has(key)) {
-          filmMap.set(key, { matchedBy: new Set(), showtimes: [] });
-        }
-        const entry = filmMap.get(key)!;
-        entry.matchedBy.add(`${pref.type}: ${pref.value}`);
-        // Avoid duplicate showtime entries (same id)
-        if (!entry.showtimes.some(s => s.id === st.id)) {
-          entry.showtimes.push(st);
-        }
+      const entry = filmMap.get(key)!;
+      entry.matchedBy.add(`${pref.type}: ${pref.value}`);
+      // Avoid duplicate showtime entries (same id)
+      if (!entry.showtimes.some(s => s.id === st.id)) {
+        entry.showtimes.push(st);
       }
     }
   }
 
-  return Array.from(filmMap.entries()).map(([film, data]) => ({
-    film,
+  return Array.from(filmMap.values()).map((data) => ({
+    film: data.title,
     matchedBy: Array.from(data.matchedBy).join(', '),
     showtimes: data.showtimes.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time)),
   }));
@@ -103,7 +82,7 @@ export default function NotificationsPage() {
   const [email, setEmail] = useState('');
   const [name, setName] = useState('');
   const [preferences, setPreferences] = useState<Preference[]>([]);
-  const [newPrefType, setNewPrefType] = useState<'director' | 'film' | 'actor'>('director');
+  const [newPrefType, setNewPrefType] = useState<PreferenceType>('director');
   const [newPrefValue, setNewPrefValue] = useState('');
 
   // UI state
@@ -114,7 +93,7 @@ export default function NotificationsPage() {
   const [matches, setMatches] = useState<MatchedFilm[]>([]);
   const [matchesLoading, setMatchesLoading] = useState(false);
 
-  // Fetch showtimes and run matching against current preferences
+  // Fetch only the showtimes matching current preferences, then group them by film
   const fetchMatches = useCallback(async (prefs: Preference[]) => {
     if (prefs.length === 0) {
       setMatches([]);
@@ -122,12 +101,10 @@ export default function NotificationsPage() {
     }
     setMatchesLoading(true);
     try {
-      const res = await fetch('/api/showtimes');
-      if (res.ok) {
-        const data = await res.json();
-        const found = findClientMatches(data.showtimes, prefs);
-        setMatches(found);
-      }
+      const params = new URLSearchParams();
+      for (const pref of prefs) params.append('match', `${pref.type}:${pref.value}`);
+      const data = await fetchAllShowtimes(params);
+      setMatches(findClientMatches(data.showtimes, prefs));
     } catch {
       console.error('Failed to fetch showtimes for matching');
     } finally {
@@ -135,13 +112,19 @@ export default function NotificationsPage() {
     }
   }, []);
 
-  // Check URL for email param (from notification email links)
+  // Check URL for email param (from notification email links) and a
+  // series to follow (from the series page)
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const emailParam = params.get('email');
     if (emailParam) {
       setLookupEmail(emailParam);
     }
+    const seriesParam = params.get('series');
+    if (seriesParam) {
+      setNewPrefType('series');
+      setNewPrefValue(seriesParam);
+    }
   }, []);
 
   // Auto-lookup when email param is present
@@ -187,6 +170,13 @@ export default function NotificationsPage() {
 
   const addPreference = () => {
     if (!newPrefValue.trim()) return;
+    if (newPrefType === 'tag' && !parseTag(newPrefValue)) {
+      setMessage({
+        type: 'error',
+        text: `Unknown tag. Try one of: ${SHOWTIME_TAGS.map(tag => TAG_LABELS[tag]).join(', ')}`,
+      });
+      return;
+    }
     // Don't add duplicates
     if (preferences.some(p => p.type === newPrefType && p.value.toLowerCase() === newPrefValue.trim().toLowerCase())) {
       setMessage({ type: 'error', text: 'This preference already exists' });
@@ -371,7 +361,7 @@ export default function NotificationsPage() {
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
               <h2 className="text-lg font-semibold text-gray-900 mb-1">Preferences</h2>
               <p className="text-sm text-gray-500 mb-4">
-                Add directors, film titles, or actors you want to be notified about.
+                Add directors, film titles, actors, series, or special events (Q&As, 35mm prints…) you want to be notified about.
               </p>
 
               {/* Current preferences */}
@@ -400,7 +390,7 @@ export default function NotificationsPage() {
               <div className="flex gap-2">
                 <select
                   value={newPrefType}
-                  onChange={(e) => setNewPrefType(e.target.value as 'director' | 'film' | 'actor')}
+                  onChange={(e) => setNewPrefType(e.target.value as PreferenceType)}
                   className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   {PREF_TYPES.map(t => (
@@ -413,8 +403,14 @@ export default function NotificationsPage() {
                   onChange={(e) => setNewPrefValue(e.target.value)}
                   onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addPreference(); }}}
                   placeholder={PREF_TYPES.find(t => t.value === newPrefType)?.placeholder}
+                  list={newPrefType === 'tag' ? 'showtime-tags' : undefined}
                   className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
+                <datalist id="showtime-tags">
+                  {SHOWTIME_TAGS.map(tag => (
+                    <option key={tag} value={TAG_LABELS[tag]} />
+                  ))}
+                </datalist>
                 <button
                   type="button"
                   onClick={addPreference}
@@ -492,7 +488,7 @@ export default function NotificationsPage() {
                         <div key={st.id} className="px-4 py-2.5 flex items-center justify-between text-sm hover:bg-gray-50 transition-colors">
                           <div className="flex items-center gap-3">
                             <span className="text-gray-900 font-medium w-24">
-                              {new Date(st.date + 'T12:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                              {formatLocalDate(st.date, { weekday: 'short', month: 'short', day: 'numeric' })}
                             </span>
                             <span className="text-gray-600">{st.allTimes ? st.allTimes.join(', ') : st.time}</span>
                           </div>
@@ -1,121 +1,146 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { Showtime, TheaterName, THEATERS } from '@/types/showtime';
+import { Showtime, ShowtimeTag } from '@/types/showtime';
+import { TheaterInfo } from '@/types/theater';
 import DayStrip from '@/components/DayStrip';
 import TheaterTabs from '@/components/TheaterTabs';
 import EventCard from '@/components/EventCard';
-
-function formatDateISO(date: Date): string {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
-}
+import TagFilters from '@/components/TagFilters';
+import { addDays, formatLocalDate, localDate } from '@/lib/datetime';
+import { SHOWTIME_TAGS } from '@/lib/tags';
+import { MAX_LIMIT, ShowtimeFacets, fetchShowtimePage } from '@/lib/showtimeQuery';
 
 function formatDayHeader(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00');
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todayStr = formatDateISO(today);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const tomorrowStr = formatDateISO(tomorrow);
+  const todayStr = localDate();
+  const tomorrowStr = addDays(todayStr, 1);
 
   if (dateStr === todayStr) {
-    return 'Today · ' + date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+    return 'Today · ' + formatLocalDate(dateStr, { weekday: 'long', month: 'long', day: 'numeric' });
   }
   if (dateStr === tomorrowStr) {
-    return 'Tomorrow · ' + date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+    return 'Tomorrow · ' + formatLocalDate(dateStr, { weekday: 'long', month: 'long', day: 'numeric' });
   }
-  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  return formatLocalDate(dateStr, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
 }
 
 export default function Home() {
   const [showtimes, setShowtimes] = useState<Showtime[]>([]);
+  const [theaters, setTheaters] = useState<TheaterInfo[]>([]);
+  const [facets, setFacets] = useState<ShowtimeFacets>({ theaters: {}, venues: {}, dates: {}, tags: {} });
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedDate, setSelectedDate] = useState(() => formatDateISO(new Date()));
+  const [selectedDate, setSelectedDate] = useState(() => localDate());
   const [selectedTheater, setSelectedTheater] = useState<string>('all');
+  const [selectedVenue, setSelectedVenue] = useState<string>('all');
+  const [selectedTags, setSelectedTags] = useState<ShowtimeTag[]>([]);
+  const [refreshCount, setRefreshCount] = useState(0);
 
+  // Ask the API for one page of just the selected day, theater, location
+  // and tags; the facets it returns drive the day strip, tabs and tag
+  // filters, so other days are never downloaded
   useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ from: selectedDate, to: selectedDate, limit: String(MAX_LIMIT) });
+    if (selectedTheater !== 'all') params.set('theater', selectedTheater);
+    if (selectedVenue !== 'all') params.set('venue', selectedVenue);
+    if (selectedTags.length > 0) params.set('tag', selectedTags.join(','));
+
+    const fetchShowtimes = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchShowtimePage(params);
+        if (cancelled) return;
+        setShowtimes(data.showtimes);
+        setTheaters(data.theaters);
+        setFacets(data.facets);
+        setTotal(data.total);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
     fetchShowtimes();
-  }, []);
+    return () => { cancelled = true; };
+  }, [selectedDate, selectedTheater, selectedVenue, selectedTags, refreshCount]);
 
-  const fetchShowtimes = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await fetch('/api/showtimes');
-      if (!response.ok) throw new Error('Failed to fetch showtimes');
-      const data = await response.json();
-      setShowtimes(data.showtimes || []);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const refresh = () => setRefreshCount(n => n + 1);
 
-  // All dates that have events
-  const daysWithEvents = useMemo(() => {
-    const days = new Set<string>();
-    for (const s of showtimes) {
-      days.add(s.date);
-    }
-    return days;
-  }, [showtimes]);
+  const theatersByName = useMemo(
+    () => new Map(theaters.map(t => [t.name, t])),
+    [theaters]
+  );
 
-  // Group showtimes by film+theater+date so a single card shows all times
-  const groupedShowtimes = useMemo(() => {
-    const dateFiltered = showtimes.filter(s => s.date === selectedDate);
-    const theaterFiltered = selectedTheater === 'all'
-      ? dateFiltered
-      : dateFiltered.filter(s => s.theater === selectedTheater);
+  // Dates that have screenings for the other filters
+  const daysWithEvents = useMemo(() => new Set(Object.keys(facets.dates)), [facets]);
 
-    // Group by film + theater
+  // Group showtimes by film+theater so a single card shows all times
+  const groupedShowtimes = useMemo(() => {
     const map = new Map<string, Showtime>();
-    for (const s of theaterFiltered) {
-      const key = `${s.film}|||${s.theater}`;
+    for (const s of showtimes) {
+      const key = `${s.filmKey ?? s.film}|||${s.theater}|||${s.venue ?? ''}`;
+      const soldOut = s.availability === 'sold_out';
       if (!map.has(key)) {
-        map.set(key, { ...s, allTimes: [s.time] });
+        map.set(key, {
+          ...s,
+          allTimes: [s.time],
+          soldOutTimes: soldOut ? [s.time] : [],
+          guessedTimes: s.timeGuessed ? [s.time] : [],
+        });
       } else {
         const existing = map.get(key)!;
         if (!existing.allTimes) existing.allTimes = [existing.time];
         if (!existing.allTimes.includes(s.time)) {
           existing.allTimes.push(s.time);
+          if (soldOut) existing.soldOutTimes?.push(s.time);
+          if (s.timeGuessed) existing.guessedTimes?.push(s.time);
+        }
+        // The group is only sold out if every screening is
+        if (!soldOut && existing.availability === 'sold_out') {
+          existing.availability = s.availability;
         }
         // Keep higher popularity
         if (s.popularity !== undefined) {
           existing.popularity = Math.max(existing.popularity || 0, s.popularity);
         }
+        // A tag on any of the screenings belongs on the card
+        if (s.tags) {
+          const tags = new Set([...(existing.tags ?? []), ...s.tags]);
+          existing.tags = SHOWTIME_TAGS.filter(tag => tags.has(tag));
+        }
       }
     }
 
-    // Sort: popularity (desc), then alphabetical
+    // Sort films by their best popularity (desc), then alphabetically,
+    // keeping one film's cards from different theaters together
     const results = Array.from(map.values());
+    const filmPopularity = new Map<string, number>();
+    for (const s of results) {
+      const key = s.filmKey ?? s.film;
+      filmPopularity.set(key, Math.max(filmPopularity.get(key) ?? -1, s.popularity ?? -1));
+    }
     results.sort((a, b) => {
-      const pa = a.popularity ?? -1;
-      const pb = b.popularity ?? -1;
+      const pa = filmPopularity.get(a.filmKey ?? a.film)!;
+      const pb = filmPopularity.get(b.filmKey ?? b.film)!;
       if (pb !== pa) return pb - pa;
-      return a.film.localeCompare(b.film);
+      return (a.filmTitle ?? a.film).localeCompare(b.filmTitle ?? b.film)
+        || a.theater.localeCompare(b.theater);
     });
 
     return results;
-  }, [showtimes, selectedDate, selectedTheater]);
+  }, [showtimes]);
 
-  // Theater counts for selected date
-  const theaterCounts = useMemo(() => {
-    const counts: Record<string, number> = {};
-    const dateFiltered = showtimes.filter(s => s.date === selectedDate);
+  const toggleTag = (tag: ShowtimeTag) => {
+    setSelectedTags(tags => tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]);
+  };
 
-    // Count unique films per theater
-    for (const theater of THEATERS) {
-      const films = new Set(dateFiltered.filter(s => s.theater === theater).map(s => s.film));
-      counts[theater] = films.size;
-    }
-    return counts;
-  }, [showtimes, selectedDate]);
+  const handleTheaterChange = (theater: string) => {
+    setSelectedTheater(theater);
+    setSelectedVenue('all');
+  };
 
   return (
     <div className="min-h-screen bg-[#f5f0e8] text-gray-900">
@@ -134,6 +159,13 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <a
+                href="/series"
+                className="flex items-center gap-1.5 px-3.5 py-2 text-[13px] font-medium rounded-lg bg-white hover:bg-gray-100 border border-gray-200 text-gray-700 transition-all"
+                title="Series and retrospectives"
+              >
+                Series
+              </a>
               <a
                 href="/notifications"
                 className="flex items-center gap-1.5 px-3.5 py-2 text-[13px] font-medium rounded-lg bg-white hover:bg-gray-100 border border-gray-200 text-gray-700 transition-all"
@@ -142,7 +174,7 @@ export default function Home() {
                 🔔 Alerts
               </a>
               <button
-                onClick={fetchShowtimes}
+                onClick={refresh}
                 disabled={loading}
                 className="flex items-center gap-2 px-3.5 py-2 text-[13px] font-medium rounded-lg bg-white hover:bg-gray-100 border border-gray-200 text-gray-700 transition-all disabled:opacity-50"
               >
@@ -173,9 +205,18 @@ export default function Home() {
             {formatDayHeader(selectedDate)}
           </h2>
           <TheaterTabs
+            theaters={theaters}
             selectedTheater={selectedTheater}
-            onTabChange={setSelectedTheater}
-            theaterCounts={theaterCounts}
+            onTabChange={handleTheaterChange}
+            theaterCounts={facets.theaters}
+            selectedVenue={selectedVenue}
+            onVenueChange={setSelectedVenue}
+            venueCounts={facets.venues}
+          />
+          <TagFilters
+            selectedTags={selectedTags}
+            onToggle={toggleTag}
+            tagCounts={facets.tags}
           />
         </div>
 
@@ -197,7 +238,7 @@ export default function Home() {
             </div>
             <p className="text-sm font-medium text-gray-700 mb-2">{error}</p>
             <button
-              onClick={fetchShowtimes}
+              onClick={refresh}
               className="text-sm text-red-600 hover:text-red-500 transition-colors"
             >
               Try again
@@ -215,8 +256,12 @@ export default function Home() {
                     <path strokeLinecap="round" strokeLinejoin="round" d="M3.375 19.5h17.25m-17.25 0a1.125 1.125 0 01-1.125-1.125M3.375 19.5h1.5C5.496 19.5 6 18.996 6 18.375m-2.625 0V5.625m0 0A1.125 1.125 0 014.5 4.5h15a1.125 1.125 0 011.125 1.125v12.75M3.375 19.5h17.25m0 0a1.125 1.125 0 001.125-1.125M20.625 19.5h-1.5A1.875 1.875 0 0117.25 17.625V5.625m3.375 0v12.75" />
                   </svg>
                 </div>
-                <p className="text-sm text-gray-500">No screenings on this date</p>
-                <p className="text-xs text-gray-400 mt-1">Try selecting another day</p>
+                <p className="text-sm text-gray-500">
+                  {selectedTags.length > 0 ? 'No matching screenings on this date' : 'No screenings on this date'}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {selectedTags.length > 0 ? 'Try another day or clear the tag filters' : 'Try selecting another day'}
+                </p>
               </div>
             ) : (
               <div className="space-y-3">
@@ -236,6 +281,7 @@ export default function Home() {
                   <EventCard
                     key={showtime.id}
                     showtime={showtime}
+                    theater={theatersByName.get(showtime.theater)}
                     rank={i + 1}
                   />
                 ))}
@@ -252,7 +298,9 @@ export default function Home() {
             NYC Screenings — Independent cinema showtimes
           </p>
           <p className="text-[10px] text-gray-400">
-            {showtimes.length} total showtime{showtimes.length !== 1 ? 's' : ''} from {THEATERS.length} theaters
+            {total} showtime{total !== 1 ? 's' : ''} this day from {theaters.length} theaters
+            {' · '}
+            <a href="/status" className="hover:text-gray-600 transition-colors">Status</a>
           </p>
         </div>
       </footer>
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Series } from '@/types/series';
+import { formatLocalDate } from '@/lib/datetime';
+
+/** "Feb 18 – Mar 6", or a single day when the series starts and ends on it. */
+function formatRange(series: Series): string {
+  const start = formatLocalDate(series.startDate, { month: 'short', day: 'numeric' });
+  if (series.startDate === series.endDate) return start;
+  return `${start} – ${formatLocalDate(series.endDate, { month: 'short', day: 'numeric' })}`;
+}
+
+export default function SeriesPage() {
+  const [series, setSeries] = useState<Series[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      try {
+        const res = await fetch('/api/series');
+        if (!res.ok) throw new Error('Failed to fetch series');
+        const data = await res.json();
+        setSeries(data.series || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSeries();
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-2xl mx-auto px-4 py-6">
+          <a href="/" className="text-sm text-gray-400 hover:text-gray-600 transition-colors">← Back to showtimes</a>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1">Series &amp; Retrospectives</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            What each theater is running now, soonest-ending first.
+          </p>
+        </div>
+      </header>
+
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        {loading && (
+          <div className="py-8 text-center">
+            <div className="inline-block h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-900" />
+          </div>
+        )}
+
+        {error && !loading && (
+          <div className="px-4 py-3 rounded-lg text-sm font-medium bg-red-50 text-red-700 border border-red-200">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && series.length === 0 && (
+          <p className="py-8 text-center text-sm text-gray-500">No series running right now.</p>
+        )}
+
+        {!loading && !error && series.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+            {series.map((s) => (
+              <div key={s.id} className="px-5 py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="font-semibold text-gray-900">{s.name}</h2>
+                    <p className="text-sm text-gray-600 mt-0.5">
+                      {s.theater} · {formatRange(s)} · {s.showtimeCount} screening{s.showtimeCount !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <a
+                    href={`/notifications?series=${encodeURIComponent(s.name)}`}
+                    className="shrink-0 px-3 py-1.5 text-xs font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                  >
+                    🔔 Follow
+                  </a>
+                </div>
+                {s.description && (
+                  <p className="mt-2 text-sm text-gray-500 leading-snug">{s.description}</p>
+                )}
+                {s.url && (
+                  <a
+                    href={s.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-2 inline-block text-xs text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    Series page ↗
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
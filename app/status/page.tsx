@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface ScrapeRunSummary {
+  status: 'running' | 'success' | 'empty' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  showtimeCount: number;
+  filmCount: number;
+  error: string | null;
+  anomaly: 'drop_to_zero' | 'sharp_decline' | null;
+}
+
+interface TheaterHealth {
+  id: string;
+  name: string;
+  healthy: boolean;
+  lastRun: ScrapeRunSummary | null;
+  lastSuccessAt: string | null;
+  trailingAverage: number | null;
+}
+
+const STATUS_COLORS: Record<ScrapeRunSummary['status'], string> = {
+  success: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  empty: 'bg-amber-50 text-amber-700 border-amber-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  running: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+const ANOMALY_LABELS: Record<NonNullable<ScrapeRunSummary['anomaly']>, string> = {
+  drop_to_zero: 'Dropped to zero',
+  sharp_decline: 'Down >50% vs. average',
+};
+
+function formatTimestamp(iso: string | null): string {
+  if (!iso) return 'Never';
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function StatusPage() {
+  const [theaters, setTheaters] = useState<TheaterHealth[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHealth = async () => {
+      try {
+        const res = await fetch('/api/health/scrapers');
+        if (!res.ok) throw new Error('Failed to fetch scraper health');
+        const data = await res.json();
+        setTheaters(data.theaters || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHealth();
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-2xl mx-auto px-4 py-6">
+          <a href="/" className="text-sm text-gray-400 hover:text-gray-600 transition-colors">← Back to showtimes</a>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1">Scraper Status</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            When each theater&apos;s schedule was last fetched successfully.
+          </p>
+        </div>
+      </header>
+
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        {loading && (
+          <div className="py-8 text-center">
+            <div className="inline-block h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-900" />
+          </div>
+        )}
+
+        {error && !loading && (
+          <div className="px-4 py-3 rounded-lg text-sm font-medium bg-red-50 text-red-700 border border-red-200">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+            {theaters.map((theater) => (
+              <div key={theater.id} className="px-5 py-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${theater.healthy ? 'bg-emerald-500' : 'bg-red-500'}`} />
+                    <h2 className="font-semibold text-gray-900">{theater.name}</h2>
+                  </div>
+                  {theater.lastRun && (
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium border ${STATUS_COLORS[theater.lastRun.status]}`}>
+                      {theater.lastRun.status}
+                    </span>
+                  )}
+                </div>
+                <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <span>Last success: {formatTimestamp(theater.lastSuccessAt)}</span>
+                  <span>Last run: {formatTimestamp(theater.lastRun?.startedAt ?? null)}</span>
+                  {theater.lastRun && (
+                    <span>
+                      {theater.lastRun.showtimeCount} showtimes · {theater.lastRun.filmCount} films
+                    </span>
+                  )}
+                  {theater.trailingAverage !== null && (
+                    <span>Average: {Math.round(theater.trailingAverage)} showtimes</span>
+                  )}
+                </div>
+                {theater.lastRun?.anomaly && (
+                  <p className="mt-2 text-xs font-medium text-amber-700">
+                    ⚠ {ANOMALY_LABELS[theater.lastRun.anomaly]}
+                  </p>
+                )}
+                {theater.lastRun?.error && (
+                  <p className="mt-2 text-xs text-red-600 font-mono break-all">{theater.lastRun.error}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
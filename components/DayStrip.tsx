@@ -1,6 +1,7 @@
 'use client';
 
 import { useMemo } from 'react';
+import { addDays, formatLocalDate, localDate } from '@/lib/datetime';
 
 interface DayStripProps {
   selectedDate: string;
@@ -8,30 +9,19 @@ interface DayStripProps {
   daysWithEvents: Set<string>;
 }
 
-function formatDateISO(date: Date): string {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
-}
-
 export default function DayStrip({ selectedDate, onDateChange, daysWithEvents }: DayStripProps) {
-  const todayStr = formatDateISO(new Date());
+  const todayStr = localDate();
 
   const days = useMemo(() => {
     const result: { date: string; dayName: string; dayNum: number; monthName: string; isToday: boolean }[] = [];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
 
     for (let i = 0; i < 14; i++) {
-      const d = new Date(today);
-      d.setDate(d.getDate() + i);
-      const iso = formatDateISO(d);
+      const iso = addDays(todayStr, i);
       result.push({
         date: iso,
-        dayName: i === 0 ? 'Today' : i === 1 ? 'Tomorrow' : d.toLocaleDateString('en-US', { weekday: 'short' }),
-        dayNum: d.getDate(),
-        monthName: d.toLocaleDateString('en-US', { month: 'short' }),
+        dayName: i === 0 ? 'Today' : i === 1 ? 'Tomorrow' : formatLocalDate(iso, { weekday: 'short' }),
+        dayNum: parseInt(iso.slice(8), 10),
+        monthName: formatLocalDate(iso, { month: 'short' }),
         isToday: iso === todayStr,
       });
     }
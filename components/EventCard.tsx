@@ -1,18 +1,28 @@
 'use client';
 
 import { Showtime } from '@/types/showtime';
+import { TheaterColor, TheaterInfo } from '@/types/theater';
+import { castLine, creditsLine, programLines } from '@/lib/credits';
+import { venueAddress, venueOf } from '@/lib/venues';
+import { TAG_LABELS } from '@/lib/tags';
 
 interface EventCardProps {
   showtime: Showtime;
+  theater?: TheaterInfo;
   rank?: number;
 }
 
-const theaterColors: Record<string, { text: string; chip: string; border: string }> = {
-  'BAM Rose Cinemas': { text: 'text-blue-700', chip: 'bg-blue-50 text-blue-700 border-blue-200', border: 'border-l-blue-600' },
-  'Metrograph': { text: 'text-red-700', chip: 'bg-red-50 text-red-700 border-red-200', border: 'border-l-red-600' },
-  'IFC Center': { text: 'text-emerald-700', chip: 'bg-emerald-50 text-emerald-700 border-emerald-200', border: 'border-l-emerald-600' },
-  'Film Forum': { text: 'text-amber-700', chip: 'bg-amber-50 text-amber-700 border-amber-200', border: 'border-l-amber-600' },
-  'Low Cinema': { text: 'text-violet-700', chip: 'bg-violet-50 text-violet-700 border-violet-200', border: 'border-l-violet-600' },
+// Class names are spelled out in full so Tailwind can see them.
+const theaterColors: Record<TheaterColor, { text: string; chip: string; border: string }> = {
+  blue: { text: 'text-blue-700', chip: 'bg-blue-50 text-blue-700 border-blue-200', border: 'border-l-blue-600' },
+  red: { text: 'text-red-700', chip: 'bg-red-50 text-red-700 border-red-200', border: 'border-l-red-600' },
+  emerald: { text: 'text-emerald-700', chip: 'bg-emerald-50 text-emerald-700 border-emerald-200', border: 'border-l-emerald-600' },
+  amber: { text: 'text-amber-700', chip: 'bg-amber-50 text-amber-700 border-amber-200', border: 'border-l-amber-600' },
+  violet: { text: 'text-violet-700', chip: 'bg-violet-50 text-violet-700 border-violet-200', border: 'border-l-violet-600' },
+  sky: { text: 'text-sky-700', chip: 'bg-sky-50 text-sky-700 border-sky-200', border: 'border-l-sky-600' },
+  rose: { text: 'text-rose-700', chip: 'bg-rose-50 text-rose-700 border-rose-200', border: 'border-l-rose-600' },
+  orange: { text: 'text-orange-700', chip: 'bg-orange-50 text-orange-700 border-orange-200', border: 'border-l-orange-600' },
+  teal: { text: 'text-teal-700', chip: 'bg-teal-50 text-teal-700 border-teal-200', border: 'border-l-teal-600' },
 };
 
 const defaultColors = { text: 'text-gray-600', chip: 'bg-gray-100 text-gray-600 border-gray-200', border: 'border-l-gray-400' };
@@ -25,12 +35,23 @@ const popularityLabel = (score: number | undefined) => {
   return { text: 'Plenty Left', color: 'text-gray-500 bg-gray-100' };
 };
 
-export default function EventCard({ showtime, rank }: EventCardProps) {
-  const popInfo = popularityLabel(showtime.popularity);
-  const colors = theaterColors[showtime.theater] || defaultColors;
+export default function EventCard({ showtime, theater, rank }: EventCardProps) {
+  const popInfo = showtime.availability === 'sold_out'
+    ? { text: 'Sold Out', color: 'text-gray-500 bg-gray-100' }
+    : popularityLabel(showtime.popularity);
+  const credits = creditsLine(showtime);
+  const cast = castLine(showtime);
+  const program = programLines(showtime);
+  const colors = (theater && theaterColors[theater.color]) || defaultColors;
+  const venue = venueOf(theater, showtime);
+  const address = venue ? venueAddress(venue) : '';
   const times = showtime.allTimes && showtime.allTimes.length > 0
     ? showtime.allTimes
     : [showtime.time];
+  const soldOutTimes = new Set(
+    showtime.soldOutTimes ?? (showtime.availability === 'sold_out' ? [showtime.time] : [])
+  );
+  const guessedTimes = new Set(showtime.guessedTimes ?? (showtime.timeGuessed ? [showtime.time] : []));
 
   return (
     <a
@@ -61,13 +82,52 @@ export default function EventCard({ showtime, rank }: EventCardProps) {
       <div className="flex-1 min-w-0 flex flex-col justify-between py-0.5">
         <div>
           <h3 className="text-[17px] font-bold text-gray-900 leading-tight">
-            {showtime.film}
+            {showtime.filmTitle ?? showtime.film}
           </h3>
           <div className="flex items-center gap-2 mt-1">
             <span className={`text-[13px] font-semibold ${colors.text}`}>
               {showtime.theater}
             </span>
+            {showtime.venue && (
+              <span className="text-[12px] text-gray-500">· {showtime.venue}</span>
+            )}
+            {showtime.series && (
+              <span className="text-[12px] text-gray-500 italic truncate">· {showtime.series.name}</span>
+            )}
+            {showtime.event && (
+              <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-gray-900 text-white">
+                {showtime.event}
+              </span>
+            )}
           </div>
+          {address && (
+            <p className="text-[11px] text-gray-400 mt-0.5">{address}</p>
+          )}
+          {showtime.tags && showtime.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {showtime.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-amber-50 text-amber-800 border border-amber-200"
+                >
+                  {TAG_LABELS[tag]}
+                </span>
+              ))}
+            </div>
+          )}
+          {credits && (
+            <p className="text-[12px] text-gray-600 mt-1 leading-snug">{credits}</p>
+          )}
+          {cast && (
+            <p className="text-[12px] text-gray-500 leading-snug">{cast}</p>
+          )}
+          {program.length > 0 && (
+            <ul className="text-[12px] text-gray-600 mt-1 leading-snug">
+              {program.map((line, i) => (
+                <li key={i}>{line}</li>
+              ))}
+            </ul>
+          )}
           {showtime.description && (
             <p className="text-[13px] text-gray-500 mt-1 line-clamp-2 leading-snug">
               {showtime.description}
@@ -80,9 +140,14 @@ export default function EventCard({ showtime, rank }: EventCardProps) {
           {times.map((t, i) => (
             <span
               key={i}
-              className={`px-2.5 py-1 rounded text-[13px] font-medium border ${colors.chip}`}
+              title={soldOutTimes.has(t) ? 'Sold out' : guessedTimes.has(t) ? 'AM/PM not confirmed by the theater' : undefined}
+              className={`px-2.5 py-1 rounded text-[13px] font-medium border ${
+                showtime.timesTba ? 'border-dashed border-gray-300 text-gray-500'
+                  : soldOutTimes.has(t) ? 'border-gray-200 bg-gray-50 text-gray-400 line-through'
+                  : colors.chip
+              }`}
             >
-              {t}
+              {t}{guessedTimes.has(t) && '?'}
             </span>
           ))}
         </div>
@@ -0,0 +1,41 @@
+'use client';
+
+import { ShowtimeTag } from '@/types/showtime';
+import { SHOWTIME_TAGS, TAG_LABELS } from '@/lib/tags';
+
+interface TagFiltersProps {
+  selectedTags: ShowtimeTag[]; // screenings with any of these are shown; none selected shows all
+  onToggle: (tag: ShowtimeTag) => void;
+  tagCounts: Partial<Record<ShowtimeTag, number>>; // films per tag on the selected day
+}
+
+export default function TagFilters({ selectedTags, onToggle, tagCounts }: TagFiltersProps) {
+  // Only offer tags that occur that day, plus any still selected
+  const tags = SHOWTIME_TAGS.filter(tag => tagCounts[tag] || selectedTags.includes(tag));
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pt-2 scrollbar-hide">
+      {tags.map((tag) => {
+        const isSelected = selectedTags.includes(tag);
+        return (
+          <button
+            key={tag}
+            onClick={() => onToggle(tag)}
+            aria-pressed={isSelected}
+            className={`
+              flex items-center gap-1.5 px-3 py-1 rounded-full text-[12px] font-medium transition-all duration-150 shrink-0 whitespace-nowrap
+              ${isSelected
+                ? 'bg-amber-600 text-white'
+                : 'bg-white/60 text-gray-600 hover:bg-white hover:text-gray-900 border border-amber-200'
+              }
+            `}
+          >
+            <span>{TAG_LABELS[tag]}</span>
+            <span className="tabular-nums">{tagCounts[tag] || 0}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,50 +1,116 @@
 'use client';
 
-import { TheaterName, THEATERS } from '@/types/showtime';
+import { TheaterInfo } from '@/types/theater';
+import { venueAddress } from '@/lib/venues';
 
 interface TheaterTabsProps {
-  selectedTheater: string; // 'all' or a TheaterName
+  theaters: TheaterInfo[];
+  selectedTheater: string; // 'all' or a theater name
   onTabChange: (theater: string) => void;
   theaterCounts: Record<string, number>;
+  selectedVenue: string; // 'all' or a venue name within the selected theater
+  onVenueChange: (venue: string) => void;
+  venueCounts: Record<string, number>; // films per venue of the selected theater
 }
 
+export default function TheaterTabs({
+  theaters,
+  selectedTheater,
+  onTabChange,
+  theaterCounts,
+  selectedVenue,
+  onVenueChange,
+  venueCounts,
+}: TheaterTabsProps) {
+  const tabs = ['all', ...theaters.map(t => t.name)];
+  // Theaters with several locations get a second row to pick one
+  const venues = theaters.find(t => t.name === selectedTheater)?.venues ?? [];
 
+  return (
+    <div>
+      <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide">
+        {tabs.map((tab) => {
+          const isSelected = tab === selectedTheater;
+          const count = tab === 'all'
+            ? Object.values(theaterCounts).reduce((a, b) => a + b, 0)
+            : (theaterCounts[tab] || 0);
 
-export default function TheaterTabs({ selectedTheater, onTabChange, theaterCounts }: TheaterTabsProps) {
-  const tabs = ['all', ...THEATERS] as const;
+          if (tab !== 'all' && count === 0) return null;
 
-  return (
-    <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide">
-      {tabs.map((tab) => {
-        const isSelected = tab === selectedTheater;
-        const count = tab === 'all'
-          ? Object.values(theaterCounts).reduce((a, b) => a + b, 0)
-          : (theaterCounts[tab] || 0);
-
-        if (tab !== 'all' && count === 0) return null;
-
-        return (
-          <button
-            key={tab}
-            onClick={() => onTabChange(tab)}
-            className={`
-              flex items-center gap-2 px-4 py-2 rounded-full text-[13px] font-semibold transition-all duration-150 shrink-0 whitespace-nowrap
-              ${isSelected
-                ? 'bg-red-700 text-white'
-                : 'bg-red-50/60 text-gray-600 hover:bg-red-100 hover:text-gray-900 border border-red-200/50'
-              }
-            `}
-          >
-
-            <span>{tab === 'all' ? 'All Venues' : tab}</span>
-            <span className={`text-xs px-1.5 py-0.5 rounded-full ${
-              isSelected ? 'bg-red-900/20' : 'bg-red-100/50'
-            }`}>
-              {count}
-            </span>
-          </button>
-        );
-      })}
+          return (
+            <button
+              key={tab}
+              onClick={() => onTabChange(tab)}
+              className={`
+                flex items-center gap-2 px-4 py-2 rounded-full text-[13px] font-semibold transition-all duration-150 shrink-0 whitespace-nowrap
+                ${isSelected
+                  ? 'bg-red-700 text-white'
+                  : 'bg-red-50/60 text-gray-600 hover:bg-red-100 hover:text-gray-900 border border-red-200/50'
+                }
+              `}
+            >
+
+              <span>{tab === 'all' ? 'All Venues' : tab}</span>
+              <span className={`text-xs px-1.5 py-0.5 rounded-full ${
+                isSelected ? 'bg-red-900/20' : 'bg-red-100/50'
+              }`}>
+                {count}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {venues.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pt-2 scrollbar-hide">
+          <VenuePill
+            label="All Locations"
+            count={theaterCounts[selectedTheater] || 0}
+            isSelected={selectedVenue === 'all'}
+            onClick={() => onVenueChange('all')}
+          />
+          {venues.map((venue) => (
+            <VenuePill
+              key={venue.id}
+              label={venue.name}
+              detail={venue.borough}
+              title={venueAddress(venue) || undefined}
+              count={venueCounts[venue.name] || 0}
+              isSelected={venue.name === selectedVenue}
+              onClick={() => onVenueChange(venue.name)}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
+
+interface VenuePillProps {
+  label: string;
+  detail?: string; // e.g. the borough
+  title?: string;  // tooltip, e.g. the street address
+  count: number;
+  isSelected: boolean;
+  onClick: () => void;
+}
+
+function VenuePill({ label, detail, title, count, isSelected, onClick }: VenuePillProps) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`
+        flex items-center gap-1.5 px-3 py-1 rounded-full text-[12px] font-medium transition-all duration-150 shrink-0 whitespace-nowrap
+        ${isSelected
+          ? 'bg-gray-900 text-white'
+          : 'bg-white/60 text-gray-600 hover:bg-white hover:text-gray-900 border border-gray-200'
+        }
+      `}
+    >
+      <span>{label}</span>
+      {detail && <span className={isSelected ? 'text-white/60' : 'text-gray-400'}>{detail}</span>}
+      <span className="tabular-nums">{count}</span>
+    </button>
+  );
+}
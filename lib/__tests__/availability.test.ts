@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import {
+  applyAvailability,
+  availabilityFromCounts,
+  derivePopularity,
+  looksSoldOut,
+  parseSeatCounts,
+} from '../availability';
+
+const base: Showtime = {
+  id: 'lowcinema-perf-aa11-0001',
+  film: 'Stalker',
+  theater: 'Low Cinema',
+  date: '2026-02-18',
+  time: '7:00 PM',
+  ticketUrl: 'https://lowcinema.com/checkout/aa11-0001',
+};
+
+describe('looksSoldOut', () => {
+  it('reads sold-out classes and text', () => {
+    expect(looksSoldOut('performance-time sold-out', '9:30pm')).toBe(true);
+    expect(looksSoldOut('sold_out', '9:15PM')).toBe(true);
+    expect(looksSoldOut(undefined, '7:00 PM SOLD OUT')).toBe(true);
+    expect(looksSoldOut('showtime', '7:00 PM')).toBe(false);
+  });
+});
+
+describe('parseSeatCounts', () => {
+  it('reads "N of M" and "N seats left"', () => {
+    expect(parseSeatCounts('8 of 48 seats left')).toEqual({ ticketsAvailable: 8, totalCapacity: 48 });
+    expect(parseSeatCounts('Seats available: 12 / 60')).toEqual({ ticketsAvailable: 12, totalCapacity: 60 });
+    expect(parseSeatCounts('Only 3 seats left!')).toEqual({ ticketsAvailable: 3 });
+  });
+
+  it('ignores unrelated numbers', () => {
+    expect(parseSeatCounts('Runtime 1 of 2 parts')).toEqual({});
+  });
+});
+
+describe('availabilityFromCounts', () => {
+  it('classifies by seats and share left', () => {
+    expect(availabilityFromCounts(0, 48)).toBe('sold_out');
+    expect(availabilityFromCounts(8, 48)).toBe('limited');
+    expect(availabilityFromCounts(30, 300)).toBe('limited');
+    expect(availabilityFromCounts(30, 48)).toBe('available');
+  });
+});
+
+describe('derivePopularity', () => {
+  it('uses the share of seats sold when counts are known', () => {
+    expect(derivePopularity({ ...base, ticketsAvailable: 12, totalCapacity: 48 })).toBe(75);
+  });
+
+  it('falls back to availability, or nothing', () => {
+    expect(derivePopularity({ ...base, availability: 'sold_out' })).toBe(100);
+    expect(derivePopularity({ ...base, availability: 'limited' })).toBe(85);
+    expect(derivePopularity(base)).toBeUndefined();
+  });
+});
+
+describe('applyAvailability', () => {
+  it('fills availability and popularity without overriding scraped values', () => {
+    const [counted, soldOut, unknown] = applyAvailability([
+      { ...base, ticketsAvailable: 8, totalCapacity: 48 },
+      { ...base, availability: 'sold_out' },
+      { ...base, popularity: 40 },
+    ]);
+    expect(counted).toMatchObject({ availability: 'limited', popularity: 83 });
+    expect(soldOut.popularity).toBe(100);
+    expect(unknown).toMatchObject({ popularity: 40 });
+    expect(unknown.availability).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { PreviousShowtime, detectChanges } from '../changes';
+
+const NOW = new Date('2026-02-18T12:00:00-05:00');
+
+function stored(id: string, filmKey: string, date: string, time: string, ticketUrl = `https://ifc.example/${filmKey}`): PreviousShowtime {
+  return { id, filmKey, filmTitle: filmKey.replace(/-/g, ' '), date, time, ticketUrl, startsAt: null };
+}
+
+function fresh(id: string, film: string, date: string, time: string, ticketUrl = `https://ifc.example/${film.toLowerCase().replace(/ /g, '-')}`): Showtime {
+  return { id, film, theater: 'IFC Center', date, time, ticketUrl };
+}
+
+describe('detectChanges', () => {
+  it('reports nothing for a theater with no previous snapshot', () => {
+    expect(detectChanges([], [fresh('ifc-perf-1', 'Past Lives', '2026-02-18', '7:40 PM')], NOW)).toEqual([]);
+  });
+
+  it('reports nothing when the same screenings come back, even under new IDs', () => {
+    const changes = detectChanges(
+      [stored('ifc-past-lives-2026-02-18-1940', 'past-lives', '2026-02-18', '7:40 PM')],
+      [fresh('ifc-perf-102', 'Past Lives', '2026-02-18', '7:40 PM')],
+      NOW
+    );
+    expect(changes).toEqual([]);
+  });
+
+  it('announces a new film once and a new screening of a known film', () => {
+    const changes = detectChanges(
+      [stored('ifc-perf-1', 'past-lives', '2026-02-18', '7:40 PM')],
+      [
+        fresh('ifc-perf-1', 'Past Lives', '2026-02-18', '7:40 PM'),
+        fresh('ifc-perf-2', 'Past Lives', '2026-02-18', '9:40 PM'),
+        fresh('ifc-perf-4', 'Perfect Days', '2026-02-19', '1:00 PM'),
+        fresh('ifc-perf-3', 'Perfect Days', '2026-02-18', '4:00 PM'),
+      ],
+      NOW
+    );
+    expect(changes).toEqual([
+      {
+        type: 'new_film', filmKey: 'perfect-days', filmTitle: 'Perfect Days', showtimeId: 'ifc-perf-3',
+        date: '2026-02-18', time: '4:00 PM', ticketUrl: 'https://ifc.example/perfect-days',
+      },
+      {
+        type: 'new_screening', filmKey: 'past-lives', filmTitle: 'Past Lives', showtimeId: 'ifc-perf-2',
+        date: '2026-02-18', time: '9:40 PM', ticketUrl: 'https://ifc.example/past-lives',
+      },
+    ]);
+  });
+
+  it('pairs a vanished screening with a new one the same day as a time change', () => {
+    const changes = detectChanges(
+      [stored('filmforum-bitter-rice-2026-02-18-1930', 'bitter-rice', '2026-02-18', '7:30 PM')],
+      [fresh('filmforum-bitter-rice-2026-02-18-2010', 'Bitter Rice', '2026-02-18', '8:10 PM')],
+      NOW
+    );
+    expect(changes).toEqual([{
+      type: 'time_changed',
+      filmKey: 'bitter-rice',
+      filmTitle: 'Bitter Rice',
+      showtimeId: 'filmforum-bitter-rice-2026-02-18-2010',
+      previousShowtimeId: 'filmforum-bitter-rice-2026-02-18-1930',
+      date: '2026-02-18',
+      time: '8:10 PM',
+      previousDate: '2026-02-18',
+      previousTime: '7:30 PM',
+      ticketUrl: 'https://ifc.example/bitter-rice',
+    }]);
+  });
+
+  it('follows a performance ID to its new start', () => {
+    const changes = detectChanges(
+      [stored('ifc-perf-1', 'past-lives', '2026-02-18', '7:40 PM')],
+      [fresh('ifc-perf-1', 'Past Lives', '2026-02-19', '7:40 PM')],
+      NOW
+    );
+    expect(changes.map(c => [c.type, c.previousDate, c.date])).toEqual([
+      ['time_changed', '2026-02-18', '2026-02-19'],
+      ['run_extended', '2026-02-18', '2026-02-19'],
+    ]);
+  });
+
+  it('reports upcoming screenings that vanished, but not ones that have started', () => {
+    const changes = detectChanges(
+      [
+        { ...stored('ifc-perf-1', 'past-lives', '2026-02-18', '11:00 AM'), startsAt: new Date('2026-02-18T11:00:00-05:00') },
+        stored('ifc-perf-2', 'past-lives', '2026-02-18', '9:40 PM'),
+        stored('ifc-perf-3', 'past-lives', '2026-02-17', '9:40 PM'),
+        stored('ifc-perf-4', 'past-lives', '2026-02-19', '9:40 PM'),
+      ],
+      [fresh('ifc-perf-4', 'Past Lives', '2026-02-19', '9:40 PM')],
+      NOW
+    );
+    expect(changes).toEqual([{
+      type: 'removed',
+      filmKey: 'past-lives',
+      filmTitle: 'past lives',
+      previousShowtimeId: 'ifc-perf-2',
+      previousDate: '2026-02-18',
+      previousTime: '9:40 PM',
+      ticketUrl: 'https://ifc.example/past-lives',
+    }]);
+  });
+
+  it('reports a film whose run now ends later', () => {
+    const changes = detectChanges(
+      [stored('ifc-perf-1', 'past-lives', '2026-02-19', '7:40 PM')],
+      [
+        fresh('ifc-perf-1', 'Past Lives', '2026-02-19', '7:40 PM'),
+        fresh('ifc-perf-9', 'Past Lives', '2026-02-26', '7:40 PM'),
+      ],
+      NOW
+    );
+    expect(changes.map(c => c.type)).toEqual(['new_screening', 'run_extended']);
+    expect(changes[1]).toMatchObject({ date: '2026-02-26', previousDate: '2026-02-19' });
+  });
+
+  it('ignores a start that only differs by a guessed AM/PM', () => {
+    const changes = detectChanges(
+      [stored('filmforum-taxi-driver-2026-02-18-1015', 'taxi-driver', '2026-02-18', '10:15 PM')],
+      [{ ...fresh('filmforum-taxi-driver-2026-02-18-1015', 'Taxi Driver', '2026-02-18', '10:15 AM'), timeGuessed: true }],
+      NOW
+    );
+    expect(changes).toEqual([]);
+  });
+
+  it('reports nothing when timed screenings fall back to a Times TBA placeholder', () => {
+    const changes = detectChanges(
+      [
+        stored('bam-perf-1', 'la-chimera', '2026-02-19', '2:00 PM'),
+        stored('bam-perf-2', 'la-chimera', '2026-02-19', '7:00 PM'),
+      ],
+      [{ ...fresh('bam-la-chimera-2026-02-19-tba', 'La Chimera', '2026-02-19', 'Times TBA'), timesTba: true }],
+      NOW
+    );
+    expect(changes).toEqual([]);
+  });
+
+  it('reports nothing when a placeholder gives way to published times', () => {
+    const changes = detectChanges(
+      [{ ...stored('bam-la-chimera-2026-02-19-tba', 'la-chimera', '2026-02-19', 'Times TBA'), timesTba: true }],
+      [fresh('bam-perf-1', 'La Chimera', '2026-02-19', '2:00 PM')],
+      NOW
+    );
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { ShowtimeChange } from '@/types/change';
+import { Showtime } from '@/types/showtime';
+import { CurrentSnapshot, correctionSummary, planCorrections } from '../corrections';
+
+const SENT = new Date('2026-02-16T14:00:00Z');
+
+const moved: ShowtimeChange = {
+  id: 'change-1',
+  type: 'time_changed',
+  theater: 'Film Forum',
+  filmKey: 'bitter-rice',
+  filmTitle: 'Bitter Rice',
+  showtimeId: 'filmforum-bitter-rice-2026-02-18-2010',
+  previousShowtimeId: 'filmforum-bitter-rice-2026-02-18-1930',
+  date: '2026-02-18',
+  time: '8:10 PM',
+  previousDate: '2026-02-18',
+  previousTime: '7:30 PM',
+  ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+  detectedAt: '2026-02-17T12:00:00.000Z',
+};
+
+const notified = [{ showtimeId: 'filmforum-bitter-rice-2026-02-18-1930', sentAt: SENT }];
+
+const listedAt8: Showtime = {
+  id: 'filmforum-bitter-rice-2026-02-18-2010',
+  film: 'BITTER RICE',
+  theater: 'Film Forum',
+  date: '2026-02-18',
+  time: '8:10 PM',
+  ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+};
+
+/** The snapshot after one more Film Forum scrape than the changes below. */
+const current: CurrentSnapshot = {
+  showtimes: [listedAt8],
+  savedAt: new Map([['Film Forum', new Date('2026-02-18T06:00:00Z')]]),
+};
+
+describe('planCorrections', () => {
+  it('corrects a notified screening that moved', () => {
+    expect(planCorrections(notified, [moved], current)).toEqual([{
+      kind: 'moved',
+      filmTitle: 'Bitter Rice',
+      theater: 'Film Forum',
+      notifiedShowtimeId: 'filmforum-bitter-rice-2026-02-18-1930',
+      previousDate: '2026-02-18',
+      previousTime: '7:30 PM',
+      showtimeId: 'filmforum-bitter-rice-2026-02-18-2010',
+      date: '2026-02-18',
+      time: '8:10 PM',
+      ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+      changeIds: ['change-1'],
+    }]);
+  });
+
+  it('skips screenings the subscriber was never told about, changes from before they were, and ones already corrected', () => {
+    expect(planCorrections([], [moved], current)).toEqual([]);
+    expect(planCorrections([{ ...notified[0], sentAt: new Date('2026-02-17T13:00:00Z') }], [moved], current)).toEqual([]);
+    expect(planCorrections(notified, [moved], current, new Set(['change-1']))).toEqual([]);
+  });
+
+  it('folds a screening that moved and was then dropped into one cancellation', () => {
+    const removed: ShowtimeChange = {
+      ...moved,
+      id: 'change-2',
+      type: 'removed',
+      showtimeId: undefined,
+      previousShowtimeId: moved.showtimeId,
+      previousTime: '8:10 PM',
+      detectedAt: '2026-02-17T16:00:00.000Z',
+    };
+    const corrections = planCorrections(notified, [removed, moved], { ...current, showtimes: [] });
+    expect(corrections).toHaveLength(1);
+    expect(corrections[0]).toMatchObject({ kind: 'cancelled', previousTime: '7:30 PM', changeIds: ['change-1', 'change-2'] });
+  });
+
+  it('needs no correction when a screening moves back', () => {
+    const back: ShowtimeChange = {
+      ...moved,
+      id: 'change-2',
+      showtimeId: moved.previousShowtimeId,
+      previousShowtimeId: moved.showtimeId,
+      time: '7:30 PM',
+      previousTime: '8:10 PM',
+      detectedAt: '2026-02-17T16:00:00.000Z',
+    };
+    expect(planCorrections(notified, [moved, back], current)).toEqual([]);
+  });
+
+  it('holds back a move to a guessed AM/PM or a Times TBA placeholder', () => {
+    const guessed = { ...listedAt8, time: '8:10 AM', timeGuessed: true };
+    expect(planCorrections(notified, [{ ...moved, time: '8:10 AM' }], { ...current, showtimes: [guessed] })).toEqual([]);
+
+    const placeholder = { ...listedAt8, id: 'filmforum-bitter-rice-2026-02-18-tba', time: 'Times TBA', timesTba: true };
+    const toTba = { ...moved, showtimeId: placeholder.id, time: 'Times TBA' };
+    expect(planCorrections(notified, [toTba], { ...current, showtimes: [placeholder] })).toEqual([]);
+  });
+
+  it('holds back a move from a Times TBA placeholder', () => {
+    const fromTba = { ...moved, previousShowtimeId: 'filmforum-bitter-rice-2026-02-18-tba', previousTime: 'Times TBA' };
+    expect(planCorrections([{ showtimeId: fromTba.previousShowtimeId, sentAt: SENT }], [fromTba], current)).toEqual([]);
+  });
+
+  it('sends a cancellation only once a later scrape still lacks the screening', () => {
+    const removed: ShowtimeChange = {
+      ...moved,
+      id: 'change-3',
+      type: 'removed',
+      showtimeId: undefined,
+      detectedAt: '2026-02-17T12:00:00.000Z',
+    };
+    const sameScrape = new Map([['Film Forum', new Date(removed.detectedAt)]]);
+    expect(planCorrections(notified, [removed], { showtimes: [], savedAt: sameScrape })).toEqual([]);
+
+    const cameBack = { ...listedAt8, id: 'filmforum-bitter-rice-2026-02-18-1930', time: '7:30 PM' };
+    expect(planCorrections(notified, [removed], { ...current, showtimes: [cameBack] })).toEqual([]);
+
+    expect(planCorrections(notified, [removed], { ...current, showtimes: [] }))
+      .toMatchObject([{ kind: 'cancelled', changeIds: ['change-3'] }]);
+  });
+});
+
+describe('correctionSummary', () => {
+  const [correction] = planCorrections(notified, [moved], current);
+
+  it('describes a move within the day', () => {
+    expect(correctionSummary(correction)).toBe('Bitter Rice at Film Forum on Wed, Feb 18 moved from 7:30 to 8:10 PM');
+    expect(correctionSummary({ ...correction, time: '11:00 AM' }))
+      .toBe('Bitter Rice at Film Forum on Wed, Feb 18 moved from 7:30 PM to 11:00 AM');
+  });
+
+  it('describes a move to another day and a cancellation', () => {
+    expect(correctionSummary({ ...correction, date: '2026-02-19' }))
+      .toBe('Bitter Rice at Film Forum moved from Wed, Feb 18 at 7:30 PM to Thu, Feb 19 at 8:10 PM');
+    expect(correctionSummary({ ...correction, kind: 'cancelled' }))
+      .toBe('Bitter Rice at Film Forum on Wed, Feb 18 at 7:30 PM was cancelled');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  clockTime,
+  dayOfWeek,
+  daysBetween,
+  formatLocalDate,
+  localDate,
+  localTime,
+  to24Hour,
+  zonedStart,
+} from '../datetime';
+
+describe('localDate / localTime', () => {
+  it('reads the New York date, not the host one', () => {
+    // 9:30 PM Eastern on Feb 18 is already Feb 19 in UTC
+    const instant = new Date('2026-02-19T02:30:00Z');
+    expect(localDate(instant)).toBe('2026-02-18');
+    expect(localTime(instant)).toBe('9:30 PM');
+  });
+
+  it('follows daylight saving time', () => {
+    expect(localTime(new Date('2026-07-04T16:00:00Z'))).toBe('12:00 PM');
+    expect(localTime(new Date('2026-01-04T05:15:00Z'))).toBe('12:15 AM');
+  });
+});
+
+describe('zonedStart', () => {
+  it('turns a New York date and time into an instant', () => {
+    expect(zonedStart('2026-02-18', '9:30 PM')?.toISOString()).toBe('2026-02-19T02:30:00.000Z');
+    expect(zonedStart('2026-07-04', '12:00 PM')?.toISOString()).toBe('2026-07-04T16:00:00.000Z');
+  });
+
+  it('handles the days the clocks change', () => {
+    expect(zonedStart('2026-03-08', '3:00 PM')?.toISOString()).toBe('2026-03-08T19:00:00.000Z');
+    expect(zonedStart('2026-11-01', '7:00 PM')?.toISOString()).toBe('2026-11-02T00:00:00.000Z');
+  });
+
+  it('round-trips through localDate and localTime', () => {
+    const start = zonedStart('2026-12-31', '11:45 PM')!;
+    expect(localDate(start)).toBe('2026-12-31');
+    expect(localTime(start)).toBe('11:45 PM');
+  });
+
+  it('is null for placeholder times', () => {
+    expect(zonedStart('2026-02-18', 'Times TBA')).toBeNull();
+  });
+});
+
+describe('calendar arithmetic', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2026-01-01', -1)).toBe('2025-12-31');
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09');
+  });
+
+  it('counts days and weekdays', () => {
+    expect(daysBetween('2026-12-28', '2027-01-03')).toBe(6);
+    expect(daysBetween('2026-02-18', '2026-02-11')).toBe(-7);
+    expect(dayOfWeek('2026-02-18')).toBe(3);
+  });
+
+  it('formats a calendar date without shifting it', () => {
+    expect(formatLocalDate('2026-02-18', { weekday: 'long', month: 'long', day: 'numeric' }))
+      .toBe('Wednesday, February 18');
+  });
+});
+
+describe('to24Hour / clockTime', () => {
+  it('formats 24-hour clock values', () => {
+    expect(clockTime(0, 5)).toBe('12:05 AM');
+    expect(clockTime(12, 0)).toBe('12:00 PM');
+    expect(clockTime(19, 30)).toBe('7:30 PM');
+  });
+
+  it('converts 12-hour times', () => {
+    expect(to24Hour('12:15 AM')).toBe('00:15');
+    expect(to24Hour('12:30 PM')).toBe('12:30');
+    expect(to24Hour('9:45 PM')).toBe('21:45');
+    expect(to24Hour('Times TBA')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilmIdentity, displayTitle, filmKeyFor, resolveFilmIdentity } from '../filmIdentity';
+import { Showtime } from '@/types/showtime';
+
+describe('resolveFilmIdentity', () => {
+  it('gives one film the same key across theaters', () => {
+    const filmForum = resolveFilmIdentity({
+      film: "Giuseppe De Santis' BITTER RICE (Italian Neorealism)",
+      directors: ['Giuseppe De Santis'],
+    });
+    const elsewhere = resolveFilmIdentity({ film: 'Bitter Rice' });
+
+    expect(filmForum).toEqual({ filmKey: 'bitter-rice', filmTitle: 'Bitter Rice' });
+    expect(elsewhere).toEqual(filmForum);
+  });
+
+  it('only strips a possessive prefix that names a director', () => {
+    expect(resolveFilmIdentity({ film: "Schindler's List", directors: ['Steven Spielberg'] }))
+      .toEqual({ filmKey: 'schindlers-list', filmTitle: "Schindler's List" });
+  });
+
+  it('decodes entities and ignores accents and punctuation in keys', () => {
+    const a = resolveFilmIdentity({ film: 'Cléo from 5 to 7 &amp; Friends' });
+    const b = resolveFilmIdentity({ film: 'CLEO FROM 5 TO 7 & FRIENDS' });
+    expect(a.filmKey).toBe('cleo-from-5-to-7-and-friends');
+    expect(b.filmKey).toBe(a.filmKey);
+    expect(a.filmTitle).toBe('Cléo from 5 to 7 & Friends');
+  });
+
+  it('applies manual aliases', () => {
+    const aliases = new Map([['la-chimera-4k-restoration', { filmKey: 'la-chimera', title: 'La Chimera' }]]);
+    expect(resolveFilmIdentity({ film: 'La Chimera 4K Restoration' }, aliases))
+      .toEqual({ filmKey: 'la-chimera', filmTitle: 'La Chimera' });
+  });
+});
+
+describe('displayTitle', () => {
+  it('title-cases all-caps titles and leaves others alone', () => {
+    expect(displayTitle('TAXI DRIVER')).toBe('Taxi Driver');
+    expect(displayTitle('THE GODFATHER PART II')).toBe('The Godfather Part II');
+    expect(displayTitle('Jeanne Dielman, 23 quai du Commerce')).toBe('Jeanne Dielman, 23 quai du Commerce');
+  });
+});
+
+describe('filmKeyFor', () => {
+  it('collapses punctuation and whitespace', () => {
+    expect(filmKeyFor('  Chungking   Express! ')).toBe('chungking-express');
+    expect(filmKeyFor("Schindler’s List")).toBe('schindlers-list');
+  });
+});
+
+describe('applyFilmIdentity', () => {
+  it('sets filmKey and filmTitle in place', () => {
+    const showtime = { id: 'x', film: 'TAXI DRIVER', theater: 'Film Forum', date: '2026-02-18', time: '7:00 PM', ticketUrl: '' } as Showtime;
+    applyFilmIdentity([showtime]);
+    expect(showtime).toMatchObject({ filmKey: 'taxi-driver', filmTitle: 'Taxi Driver' });
+  });
+});
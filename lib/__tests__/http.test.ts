@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createHttpClient } from '../http';
+
+const noSleep = async () => {};
+
+/** A transport that answers each call with the next scripted response. */
+function scriptedFetch(responses: (() => Response | Promise<Response>)[]) {
+  const calls: { url: string; headers: Headers }[] = [];
+  const transport: typeof fetch = async (input, init) => {
+    calls.push({ url: String(input), headers: new Headers(init?.headers) });
+    const next = responses[Math.min(calls.length - 1, responses.length - 1)];
+    return next();
+  };
+  return { transport, calls };
+}
+
+describe('createHttpClient', () => {
+  it('sends the configured User-Agent', async () => {
+    const { transport, calls } = scriptedFetch([() => new Response('ok')]);
+    const client = createHttpClient({ fetch: transport, userAgent: 'TestBot/1.0' });
+
+    await client('https://example.com/');
+
+    expect(calls[0].headers.get('User-Agent')).toBe('TestBot/1.0');
+  });
+
+  it('retries 5xx and 429 responses with backoff, then succeeds', async () => {
+    const delays: number[] = [];
+    const { transport, calls } = scriptedFetch([
+      () => new Response('busy', { status: 503 }),
+      () => new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } }),
+      () => new Response('ok'),
+    ]);
+    const client = createHttpClient({
+      fetch: transport,
+      retries: 2,
+      backoffMs: 100,
+      sleep: async (ms) => { delays.push(ms); },
+    });
+
+    const res = await client('https://example.com/');
+
+    expect(await res.text()).toBe('ok');
+    expect(calls).toHaveLength(3);
+    expect(delays).toEqual([100, 2000]);
+  });
+
+  it('returns the last error response once retries are exhausted', async () => {
+    const { transport, calls } = scriptedFetch([() => new Response('down', { status: 502 })]);
+    const client = createHttpClient({ fetch: transport, retries: 1, sleep: noSleep });
+
+    const res = await client('https://example.com/');
+
+    expect(res.status).toBe(502);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not retry 4xx responses other than 429', async () => {
+    const { transport, calls } = scriptedFetch([() => new Response('gone', { status: 404 })]);
+    const client = createHttpClient({ fetch: transport, retries: 3, sleep: noSleep });
+
+    const res = await client('https://example.com/');
+
+    expect(res.status).toBe(404);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('times out a hung request', async () => {
+    const hung: typeof fetch = (_input, init) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    const client = createHttpClient({ fetch: hung, timeoutMs: 10, retries: 0 });
+
+    await expect(client('https://example.com/slow')).rejects.toThrow('Timed out after 10ms');
+  });
+
+  it('caps concurrent requests per host', async () => {
+    let active = 0;
+    let peak = 0;
+    const transport: typeof fetch = async (input) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return new Response(String(input));
+    };
+    const client = createHttpClient({ fetch: transport, maxConcurrentPerHost: 2 });
+
+    const urls = Array.from({ length: 6 }, (_, i) => `https://example.com/${i}`);
+    const bodies = await Promise.all(urls.map(async url => (await client(url)).text()));
+
+    expect(bodies).toEqual(urls);
+    expect(peak).toBe(2);
+  });
+
+  it('serves unchanged pages from cache via conditional GET', async () => {
+    const { transport, calls } = scriptedFetch([
+      () => new Response('<html>v1</html>', { headers: { ETag: '"abc"' } }),
+      () => new Response(null, { status: 304 }),
+    ]);
+    const client = createHttpClient({ fetch: transport });
+
+    const first = await client('https://example.com/film');
+    const second = await client('https://example.com/film');
+
+    expect(await first.text()).toBe('<html>v1</html>');
+    expect(calls[1].headers.get('If-None-Match')).toBe('"abc"');
+    expect(second.status).toBe(200);
+    expect(await second.text()).toBe('<html>v1</html>');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { matchShowtime } from '../matcher';
+
+const base: Showtime = {
+  id: 'lowcinema-vagabond-2026-02-18-700-pm',
+  film: 'Vagabond',
+  theater: 'Low Cinema',
+  date: '2026-02-18',
+  time: '7:00 PM',
+  ticketUrl: 'https://lowcinema.com/checkout/aa11-0001/',
+  description: 'Sandrine Bonnaire drifts through the south of France in a film by Agnès Varda.',
+  directors: ['Agnès Varda'],
+  cast: ['Sandrine Bonnaire', 'Macha Méril'],
+};
+
+describe('matchShowtime', () => {
+  it('matches directors and actors against structured credits, ignoring accents', () => {
+    const prefs = [
+      { type: 'director' as const, value: 'agnes varda' },
+      { type: 'actor' as const, value: 'Macha Meril' },
+    ];
+    expect(matchShowtime(base, prefs)).toEqual(prefs);
+  });
+
+  it('no longer matches names that only appear in the description', () => {
+    const showtime = { ...base, cast: undefined };
+    expect(matchShowtime(showtime, [{ type: 'actor' as const, value: 'Sandrine Bonnaire' }])).toEqual([]);
+  });
+
+  it('falls back to the title for directors when none are listed', () => {
+    const showtime = { ...base, film: "Giuseppe De Santis' BITTER RICE", directors: undefined };
+    const prefs = [{ type: 'director' as const, value: 'De Santis' }];
+    expect(matchShowtime(showtime, prefs)).toEqual(prefs);
+  });
+
+  it('matches directors and titles of any film in a program', () => {
+    const program: Showtime = {
+      ...base,
+      film: 'MAYA DEREN: SHORTS PROGRAM',
+      directors: undefined,
+      cast: undefined,
+      program: [
+        { title: 'MESHES OF THE AFTERNOON', directors: ['Maya Deren', 'Alexander Hammid'] },
+        { title: 'AT LAND', directors: ['Maya Deren'] },
+      ],
+    };
+    const prefs = [
+      { type: 'director' as const, value: 'Alexander Hammid' },
+      { type: 'film' as const, value: 'Meshes of the Afternoon' },
+      { type: 'director' as const, value: 'Agnès Varda' },
+    ];
+    expect(matchShowtime(program, prefs)).toEqual(prefs.slice(0, 2));
+  });
+
+  it('matches tags by id or label', () => {
+    const showtime: Showtime = { ...base, tags: ['qa', '35mm'] };
+    const prefs = [
+      { type: 'tag' as const, value: 'Q&A' },
+      { type: 'tag' as const, value: '35mm' },
+      { type: 'tag' as const, value: '70mm' },
+    ];
+    expect(matchShowtime(showtime, prefs)).toEqual(prefs.slice(0, 2));
+    expect(matchShowtime(base, prefs)).toEqual([]);
+  });
+
+  it('matches series by name', () => {
+    const showtime: Showtime = { ...base, series: { name: 'Agnès Varda: The Complete Films' } };
+    const prefs = [{ type: 'series' as const, value: 'agnes varda' }];
+    expect(matchShowtime(showtime, prefs)).toEqual(prefs);
+    expect(matchShowtime(base, prefs)).toEqual([]);
+  });
+
+  it('matches film titles as substrings', () => {
+    expect(matchShowtime(base, [{ type: 'film' as const, value: 'vagab' }])).toHaveLength(1);
+  });
+});
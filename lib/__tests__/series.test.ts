@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { collectSeries, seriesId } from '../series';
+
+const base: Showtime = {
+  id: 'filmforum-bitter-rice-2026-02-18-1230',
+  film: "Giuseppe De Santis' BITTER RICE",
+  theater: 'Film Forum',
+  date: '2026-02-18',
+  time: '12:30 PM',
+  ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+};
+
+describe('seriesId', () => {
+  it('keys a series by theater and name', () => {
+    expect(seriesId('filmforum', 'Italian Neorealism')).toBe('filmforum-italian-neorealism');
+    expect(seriesId('momi', 'See It Big! Paranoia')).toBe('momi-see-it-big-paranoia');
+  });
+});
+
+describe('collectSeries', () => {
+  it('spans each series from its first screening to its last', () => {
+    const neorealism = { name: 'Italian Neorealism', url: 'https://filmforum.org/series/italian-neorealism' };
+    const series = collectSeries('filmforum', [
+      { ...base, date: '2026-02-21', series: neorealism },
+      { ...base, date: '2026-02-18', series: { ...neorealism, description: 'Postwar Italy on location.' } },
+      { ...base, date: '2026-03-06', series: { name: 'Italian Neorealism' } },
+      { ...base, film: 'TAXI DRIVER' },
+    ]);
+    expect(series).toEqual([{
+      id: 'filmforum-italian-neorealism',
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Postwar Italy on location.',
+      startDate: '2026-02-18',
+      endDate: '2026-03-06',
+    }]);
+  });
+});
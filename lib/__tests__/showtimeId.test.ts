@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { reconcileLoggedIds, reconcileShowtimeIds, showtimeId } from '../showtimeId';
+
+describe('showtimeId', () => {
+  it('prefers the theater performance ID', () => {
+    expect(showtimeId('metrograph', {
+      film: 'Chungking Express', date: '2026-02-18', time: '3:00 PM', sourceId: '48211',
+    })).toBe('metrograph-perf-48211');
+  });
+
+  it('is stable across retitling and series suffixes', () => {
+    const plain = showtimeId('filmforum', { film: 'BITTER RICE', date: '2026-02-18', time: '12:30 PM' });
+    const decorated = showtimeId('filmforum', {
+      film: "Giuseppe De Santis' Bitter Rice (Italian Neorealism)",
+      directors: ['Giuseppe De Santis'],
+      date: '2026-02-18',
+      time: '12:30 PM',
+    });
+    expect(plain).toBe('filmforum-bitter-rice-2026-02-18-1230');
+    expect(decorated).toBe(plain);
+  });
+
+  it('keys the start without AM/PM when asked, so a guessed period keeps the ID', () => {
+    const guessed = showtimeId('filmforum', { film: 'TAXI DRIVER', date: '2026-02-18', time: '9:45 AM', ignorePeriod: true });
+    const confirmed = showtimeId('filmforum', { film: 'TAXI DRIVER', date: '2026-02-18', time: '9:45 PM', ignorePeriod: true });
+    expect(guessed).toBe('filmforum-taxi-driver-2026-02-18-0945');
+    expect(confirmed).toBe(guessed);
+  });
+
+  it('distinguishes times-TBA entries', () => {
+    expect(showtimeId('bam', { film: 'Perfect Days', date: '2026-02-18', time: 'Times TBA', timesTba: true }))
+      .toBe('bam-perfect-days-2026-02-18-tba');
+  });
+});
+
+describe('reconcileShowtimeIds', () => {
+  const fresh = [
+    { id: 'ifc-perf-101', film: 'Past Lives', theater: 'IFC Center', date: '2026-02-18', time: '12:15 PM', ticketUrl: 'https://tickets.example/101' },
+    { id: 'ifc-perf-102', film: 'Past Lives', theater: 'IFC Center', date: '2026-02-18', time: '7:40 PM', ticketUrl: 'https://tickets.example/102' },
+  ] as Showtime[];
+
+  it('maps old IDs to the same screening by film key and start', () => {
+    const mapping = reconcileShowtimeIds([
+      { id: 'ifc-past-lives-2026-02-18-12:15-pm', filmKey: 'past-lives', date: '2026-02-18', time: '12:15 PM', ticketUrl: 'x' },
+    ], fresh);
+    expect(Object.fromEntries(mapping)).toEqual({ 'ifc-past-lives-2026-02-18-12:15-pm': 'ifc-perf-101' });
+  });
+
+  it('falls back to the ticket link when the title changed', () => {
+    const mapping = reconcileShowtimeIds([
+      { id: 'old', filmKey: 'past-livs', date: '2026-02-18', time: '7:40 PM', ticketUrl: 'https://tickets.example/102' },
+    ], fresh);
+    expect(mapping.get('old')).toBe('ifc-perf-102');
+  });
+
+  it('leaves screenings that are really gone unmapped', () => {
+    const mapping = reconcileShowtimeIds([
+      { id: 'gone', filmKey: 'past-lives', date: '2026-02-19', time: '1:00 PM', ticketUrl: 'y' },
+      { id: 'ifc-perf-101', filmKey: 'past-lives', date: '2026-02-18', time: '12:15 PM', ticketUrl: 'x' },
+    ], fresh);
+    expect(mapping.size).toBe(0);
+  });
+});
+
+describe('reconcileLoggedIds', () => {
+  const fresh = [
+    { id: 'ifc-perf-101', film: 'Past Lives', theater: 'IFC Center', date: '2026-02-18', time: '12:15 PM', ticketUrl: 'https://tickets.example/101' },
+    { id: 'ifc-perf-102', film: 'Past Lives', theater: 'IFC Center', date: '2026-02-18', time: '7:40 PM', ticketUrl: 'https://tickets.example/102' },
+    { id: 'ifc-perf-103', film: 'Perfect Days', theater: 'IFC Center', date: '2026-02-18', time: '3:00 PM', ticketUrl: 'https://tickets.example/103' },
+  ] as Showtime[];
+
+  it('reads the start back from IDs of earlier schemes', () => {
+    const mapping = reconcileLoggedIds([
+      { showtimeId: 'ifc-Past Lives-2026-02-18-7:40 PM', filmTitle: 'Past Lives', date: '2026-02-18' },
+      { showtimeId: 'ifc-past-lives-2026-02-18-1215', filmTitle: 'Past Lives', date: '2026-02-18' },
+    ], fresh);
+    expect(Object.fromEntries(mapping)).toEqual({
+      'ifc-Past Lives-2026-02-18-7:40 PM': 'ifc-perf-102',
+      'ifc-past-lives-2026-02-18-1215': 'ifc-perf-101',
+    });
+  });
+
+  it('reads a bare start on the 12-hour clock at theaters whose IDs are keyed that way', () => {
+    const filmForum = [
+      { id: 'filmforum-taxi-driver-2026-02-18-0945', film: 'Taxi Driver', theater: 'Film Forum', date: '2026-02-18', time: '9:45 PM', ticketUrl: 'https://tickets.example/ff-1' },
+      { id: 'filmforum-taxi-driver-2026-02-19-1100', film: 'Taxi Driver', theater: 'Film Forum', date: '2026-02-19', time: '11:00 AM', ticketUrl: 'https://tickets.example/ff-2' },
+    ] as Showtime[];
+    const mapping = reconcileLoggedIds([
+      { showtimeId: 'filmforum-taxi-driver-1976-2026-02-18-0945', filmTitle: 'Taxi Driver', date: '2026-02-18' },
+      { showtimeId: 'filmforum-taxi-driver-1976-2026-02-19-2300', filmTitle: 'Taxi Driver', date: '2026-02-19' },
+    ], filmForum);
+    expect(Object.fromEntries(mapping)).toEqual({
+      'filmforum-taxi-driver-1976-2026-02-18-0945': 'filmforum-taxi-driver-2026-02-18-0945',
+    });
+
+    // Elsewhere "0945" is 24-hour, so it isn't a 9:45 PM screening
+    const ifc = [
+      { id: 'ifc-perf-201', film: 'Past Lives', theater: 'IFC Center', date: '2026-02-18', time: '9:45 PM', ticketUrl: 'https://tickets.example/201' },
+    ] as Showtime[];
+    expect(reconcileLoggedIds([
+      { showtimeId: 'ifc-past-lives-2026-02-18-0945', filmTitle: 'Past Lives', date: '2026-02-18' },
+    ], ifc).size).toBe(0);
+  });
+
+  it('matches an ID without a start only to the film\'s one screening that day', () => {
+    const mapping = reconcileLoggedIds([
+      { showtimeId: 'ifc-perfect-days-2026-02-18', filmTitle: 'Perfect Days', date: '2026-02-18' },
+      { showtimeId: 'ifc-past-lives-2026-02-18', filmTitle: 'Past Lives', date: '2026-02-18' },
+    ], fresh);
+    expect(Object.fromEntries(mapping)).toEqual({ 'ifc-perfect-days-2026-02-18': 'ifc-perf-103' });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { TheaterInfo } from '@/types/theater';
+import { ShowtimeFilter, ShowtimeQuery, ShowtimeSource, findShowtimes, parseShowtimeQuery } from '../showtimeQuery';
+
+const THEATERS: TheaterInfo[] = [
+  { id: 'filmforum', name: 'Film Forum', neighborhood: 'West Houston St, Manhattan', website: 'https://filmforum.org', color: 'red' },
+  { id: 'nitehawk', name: 'Nitehawk Cinema', neighborhood: 'Brooklyn', website: 'https://nitehawkcinema.com', color: 'violet' },
+];
+
+function showtime(id: string, overrides: Partial<Showtime>): Showtime {
+  return {
+    id,
+    film: 'Bitter Rice',
+    filmKey: 'bitter-rice',
+    theater: 'Film Forum',
+    date: '2026-02-18',
+    time: '7:30 PM',
+    ticketUrl: `https://tickets.example/${id}`,
+    ...overrides,
+  };
+}
+
+const SNAPSHOT: Showtime[] = [
+  showtime('ff-1', { time: '12:30 PM', directors: ['Giuseppe De Santis'], popularity: 40 }),
+  showtime('ff-2', { directors: ['Giuseppe De Santis'], tags: ['35mm'], popularity: 90 }),
+  showtime('ff-3', { date: '2026-02-19', film: 'Taxi Driver', filmKey: 'taxi-driver', directors: ['Martin Scorsese'], cast: ['Robert De Niro'] }),
+  showtime('nh-1', { theater: 'Nitehawk Cinema', venue: 'Williamsburg', film: 'Blow Out', filmKey: 'blow-out', time: '9:45 PM', tags: ['qa'] }),
+  showtime('nh-2', { theater: 'Nitehawk Cinema', venue: 'Prospect Park', film: 'Blow Out', filmKey: 'blow-out', date: '2026-02-19', time: '10:00 PM' }),
+];
+
+function query(search: string): ShowtimeQuery {
+  const parsed = parseShowtimeQuery(new URLSearchParams(search), THEATERS);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.query;
+}
+
+const ids = (showtimes: Showtime[]) => showtimes.map(s => s.id);
+
+/** The snapshot as the database would filter it, recording each filter. */
+function memorySource(snapshot: Showtime[]): ShowtimeSource & { filters: ShowtimeFilter[] } {
+  const filters: ShowtimeFilter[] = [];
+  const load = async (filter: ShowtimeFilter) => {
+    filters.push(filter);
+    const { from, to, theaters, venues, tags, popularityAtMost } = filter;
+    return snapshot.filter(s =>
+      (!from || s.date >= from) &&
+      (!to || s.date <= to) &&
+      (!theaters || theaters.includes(s.theater)) &&
+      (!venues || (!!s.venue && venues.includes(s.venue))) &&
+      (!tags || !!s.tags?.some(tag => tags.includes(tag))) &&
+      (popularityAtMost === undefined || (s.popularity ?? -1) <= popularityAtMost)
+    );
+  };
+  return { filters, showtimes: load, facetRows: load };
+}
+
+const find = (search: string) => findShowtimes(query(search), memorySource(SNAPSHOT));
+
+describe('parseShowtimeQuery', () => {
+  it('reads lists, theater IDs, tag labels and 12-hour times', () => {
+    expect(query('theater=filmforum,Nitehawk%20Cinema&tag=Q%26A&tag=35mm&after=5:00%20PM&before=23:00&sort=film&limit=10'))
+      .toEqual({
+        theaters: ['Film Forum', 'Nitehawk Cinema'],
+        tags: ['qa', '35mm'],
+        after: '17:00',
+        before: '23:00',
+        sort: 'film',
+        limit: 10,
+      });
+    expect(query('match=director:Agnès Varda&match=tag:Q%26A').match).toEqual([
+      { type: 'director', value: 'Agnès Varda' },
+      { type: 'tag', value: 'Q&A' },
+    ]);
+  });
+
+  it('rejects what it cannot read', () => {
+    const error = (search: string) => (parseShowtimeQuery(new URLSearchParams(search), THEATERS) as { error: string }).error;
+    expect(error('from=tomorrow')).toBe('from must be a date (YYYY-MM-DD)');
+    expect(error('theater=metrograph')).toBe('Unknown theater: metrograph');
+    expect(error('tag=imax')).toBe('Unknown tag: imax');
+    expect(error('after=25:00')).toMatch(/^after must be a time of day/);
+    expect(error('match=genre:noir')).toMatch(/^Invalid match/);
+    expect(error('sort=rating')).toMatch(/^Invalid sort/);
+    expect(error('limit=0')).toBe('limit must be a positive integer');
+    expect(error('cursor=nonsense')).toBe('Invalid cursor');
+  });
+});
+
+describe('findShowtimes', () => {
+  it('filters by date range, theater, venue, text, tag and time of day', async () => {
+    expect(ids((await find('from=2026-02-19&to=2026-02-19')).showtimes)).toEqual(['ff-3', 'nh-2']);
+    expect(ids((await find('theater=nitehawk&venue=Williamsburg')).showtimes)).toEqual(['nh-1']);
+    expect(ids((await find('q=de%20niro%20taxi')).showtimes)).toEqual(['ff-3']);
+    expect(ids((await find('tag=qa,35mm')).showtimes)).toEqual(['ff-2', 'nh-1']);
+    expect(ids((await find('after=19:00&before=22:00')).showtimes)).toEqual(['ff-2', 'nh-1', 'ff-3']);
+    expect(ids((await find('match=director:de%20santis&match=actor:Robert%20De%20Niro')).showtimes))
+      .toEqual(['ff-1', 'ff-2', 'ff-3']);
+  });
+
+  it('counts films per facet, ignoring that facet\'s own filter', async () => {
+    const { facets, total } = await find('from=2026-02-18&to=2026-02-18&theater=filmforum');
+    expect(total).toBe(2);
+    expect(facets).toEqual({
+      theaters: { 'Film Forum': 1, 'Nitehawk Cinema': 1 },
+      venues: {},
+      dates: { '2026-02-18': 1, '2026-02-19': 1 },
+      tags: { '35mm': 1 },
+    });
+
+    const searched = await find('from=2026-02-19&to=2026-02-19&q=taxi');
+    expect(searched.total).toBe(1);
+    expect(searched.facets.theaters).toEqual({ 'Film Forum': 1 });
+  });
+
+  it('leaves the date, theater, venue and tag filters to the source', async () => {
+    const source = memorySource(SNAPSHOT);
+    await findShowtimes(query('from=2026-02-18&to=2026-02-18&theater=filmforum&tag=35mm'), source);
+    expect(source.filters).toContainEqual({ from: '2026-02-18', to: '2026-02-18', theaters: ['Film Forum'], tags: ['35mm'] });
+    expect(source.filters).toContainEqual({ theaters: ['Film Forum'], tags: ['35mm'] });
+  });
+
+  it('sorts and pages with a cursor', async () => {
+    const first = await find('sort=popularity&limit=2');
+    expect(ids(first.showtimes)).toEqual(['ff-2', 'ff-1']);
+    expect(first.total).toBe(5);
+
+    const second = await find(`sort=popularity&limit=2&cursor=${first.nextCursor}`);
+    expect(ids(second.showtimes)).toEqual(['nh-1', 'ff-3']);
+    expect(second.total).toBe(5);
+
+    const last = await find(`sort=popularity&limit=2&cursor=${second.nextCursor}`);
+    expect(ids(last.showtimes)).toEqual(['nh-2']);
+    expect(last.nextCursor).toBeNull();
+
+    expect(ids((await find('sort=film')).showtimes)).toEqual(['ff-1', 'ff-2', 'nh-1', 'nh-2', 'ff-3']);
+  });
+
+  it('hands the cursor to the source as a bound', async () => {
+    const first = await find('limit=3');
+    expect(ids(first.showtimes)).toEqual(['ff-1', 'ff-2', 'nh-1']);
+
+    const source = memorySource(SNAPSHOT);
+    const rest = await findShowtimes(query(`limit=3&cursor=${first.nextCursor}`), source);
+    expect(ids(rest.showtimes)).toEqual(['ff-3', 'nh-2']);
+    expect(source.filters).toContainEqual({ from: '2026-02-18' });
+
+    const popular = await find('sort=popularity&limit=1');
+    const after = memorySource(SNAPSHOT);
+    await findShowtimes(query(`sort=popularity&limit=1&cursor=${popular.nextCursor}`), after);
+    expect(after.filters).toContainEqual({ popularityAtMost: 90 });
+  });
+
+  it('rejects a cursor from another sort order', async () => {
+    const { nextCursor } = await find('limit=1');
+    expect(parseShowtimeQuery(new URLSearchParams(`sort=popularity&cursor=${nextCursor}`), THEATERS))
+      .toEqual({ error: 'Invalid cursor' });
+  });
+});
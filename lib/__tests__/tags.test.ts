@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { applyTags, extractTags, parseTag } from '../tags';
+
+const base: Showtime = {
+  id: 'filmforum-taxi-driver-2026-02-18-700-pm',
+  film: 'TAXI DRIVER',
+  theater: 'Film Forum',
+  date: '2026-02-18',
+  time: '7:00 PM',
+  ticketUrl: 'https://my.filmforum.org/events/taxi-driver',
+};
+
+describe('extractTags', () => {
+  it('reads event cues from the title, event, series and description', () => {
+    expect(extractTags({ ...base, film: 'TAXI DRIVER (Q&A with Paul Schrader)' })).toEqual(['qa']);
+    expect(extractTags({ ...base, description: 'Introduced by Martin Scorsese, followed by a Q & A.' }))
+      .toEqual(['qa', 'intro']);
+    expect(extractTags({ ...base, event: 'New York Film Festival', description: 'North American Premiere.' }))
+      .toEqual(['premiere']);
+    expect(extractTags({ ...base, description: 'A members-only screening with open captions.' }))
+      .toEqual(['members-only', 'open-captions']);
+    expect(extractTags({ ...base, series: { name: 'Directors in Person: Q&A Series' } })).toEqual(['qa']);
+    expect(extractTags({ ...base, series: { name: 'Premiere Week: New Italian Cinema' } })).toEqual(['premiere']);
+  });
+
+  it('does not mistake ordinary words for cues', () => {
+    expect(extractTags({ ...base, film: 'The Conversation', description: 'It premiered at Cannes in 1974.' }))
+      .toEqual([]);
+  });
+
+  it('reads print formats from the format line when there is one', () => {
+    expect(extractTags({ ...base, format: '35mm' })).toEqual(['35mm']);
+    expect(extractTags({ ...base, format: 'DCP', description: 'Shot on 35mm film.' })).toEqual([]);
+    expect(extractTags({ ...base, description: 'Presented in 70mm.' })).toEqual(['70mm']);
+    expect(extractTags({ ...base, series: { name: 'Ozu in 35mm' } })).toEqual(['35mm']);
+    expect(extractTags({
+      ...base,
+      film: 'Shorts Program',
+      program: [{ title: 'Meshes of the Afternoon', format: '16mm' }, { title: 'At Land', format: '35mm' }],
+    })).toEqual(['35mm']);
+  });
+});
+
+describe('applyTags', () => {
+  it('sets tags only where there are any, keeping the scraper\'s own', () => {
+    const [tagged, plain] = applyTags([
+      { ...base, tags: ['members-only'], format: '35mm' },
+      { ...base },
+    ]);
+    expect(tagged.tags).toEqual(['35mm', 'members-only']);
+    expect(plain.tags).toBeUndefined();
+  });
+});
+
+describe('parseTag', () => {
+  it('accepts ids and labels in any case', () => {
+    expect(parseTag('qa')).toBe('qa');
+    expect(parseTag('Q&A')).toBe('qa');
+    expect(parseTag('35 MM')).toBe('35mm');
+    expect(parseTag('Members only')).toBe('members-only');
+    expect(parseTag('subtitles')).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { TheaterInfo } from '@/types/theater';
+import { venueAddress, venueOf } from '../venues';
+
+const nitehawk: TheaterInfo = {
+  id: 'nitehawk',
+  name: 'Nitehawk Cinema',
+  neighborhood: 'Williamsburg & Prospect Park, Brooklyn',
+  website: 'https://nitehawkcinema.com',
+  color: 'orange',
+  venues: [
+    { id: 'williamsburg', name: 'Williamsburg', address: '136 Metropolitan Ave', borough: 'Brooklyn' },
+    { id: 'prospectpark', name: 'Prospect Park', address: '188 Prospect Park West', borough: 'Brooklyn' },
+  ],
+};
+
+const momi: TheaterInfo = {
+  id: 'momi',
+  name: 'Museum of the Moving Image',
+  neighborhood: 'Astoria, Queens',
+  website: 'https://movingimage.org/whats-on/screenings/',
+  color: 'teal',
+  venues: [{ id: 'astoria', name: 'Astoria', address: '36-01 35 Ave', borough: 'Queens' }],
+};
+
+describe('venueOf', () => {
+  it('finds the venue a showtime names', () => {
+    expect(venueOf(nitehawk, { venue: 'Prospect Park' })?.id).toBe('prospectpark');
+  });
+
+  it('falls back to a single-location theater\'s only venue', () => {
+    expect(venueOf(momi, {})?.id).toBe('astoria');
+  });
+
+  it('does not guess between several locations', () => {
+    expect(venueOf(nitehawk, {})).toBeUndefined();
+    expect(venueOf(undefined, { venue: 'Williamsburg' })).toBeUndefined();
+  });
+});
+
+describe('venueAddress', () => {
+  it('joins the street address and borough', () => {
+    expect(venueAddress(momi.venues![0])).toBe('36-01 35 Ave, Queens');
+    expect(venueAddress({ id: 'x', name: 'X', borough: 'Manhattan' })).toBe('Manhattan');
+  });
+});
@@ -0,0 +1,73 @@
+import { Availability, Showtime } from '@/types/showtime';
+
+/**
+ * Ticket availability: helpers scrapers use to read sold-out markers and
+ * seat counts, and the popularity score derived from what they find.
+ */
+
+/** At or below this share of seats left, a screening counts as "limited". */
+const LIMITED_SHARE = 0.15;
+/** ...or at or below this many seats, whatever the capacity. */
+const LIMITED_SEATS = 10;
+
+/** Popularity for screenings known to be limited but without counts. */
+const LIMITED_POPULARITY = 85;
+
+/** True if an element's class or text marks it sold out ("sold-out", "SOLD OUT"). */
+export function looksSoldOut(classAttr: string | undefined, text: string): boolean {
+  return /sold[-_\s]?out/i.test(classAttr ?? '') || /\bsold\s*out\b/i.test(text);
+}
+
+/**
+ * Read seat counts from ticketing copy: "12 seats left", "12 of 60 seats
+ * remaining", "Seats available: 12 / 60". Returns nothing it can't find.
+ */
+export function parseSeatCounts(text: string): Pick<Showtime, 'ticketsAvailable' | 'totalCapacity'> {
+  if (!/seat|ticket|left|remaining|available/i.test(text)) return {};
+  const of = text.match(/(\d+)\s*(?:of|\/)\s*(\d+)/i);
+  if (of) {
+    return { ticketsAvailable: parseInt(of[1], 10), totalCapacity: parseInt(of[2], 10) };
+  }
+  const left = text.match(/(\d+)\s+(?:seats?|tickets?)\s+(?:left|remaining|available)/i);
+  return left ? { ticketsAvailable: parseInt(left[1], 10) } : {};
+}
+
+/** Classify seat counts as available / limited / sold out. */
+export function availabilityFromCounts(ticketsAvailable: number, totalCapacity?: number): Availability {
+  if (ticketsAvailable <= 0) return 'sold_out';
+  if (ticketsAvailable <= LIMITED_SEATS) return 'limited';
+  if (totalCapacity && ticketsAvailable / totalCapacity <= LIMITED_SHARE) return 'limited';
+  return 'available';
+}
+
+/**
+ * 0–100 demand score: the share of seats sold when counts are known,
+ * otherwise a fixed score for sold-out and limited screenings. Undefined
+ * when the theater tells us nothing.
+ */
+export function derivePopularity(showtime: Showtime): number | undefined {
+  if (showtime.availability === 'sold_out') return 100;
+  if (showtime.ticketsAvailable !== undefined && showtime.totalCapacity) {
+    const sold = 1 - showtime.ticketsAvailable / showtime.totalCapacity;
+    return Math.round(Math.min(1, Math.max(0, sold)) * 100);
+  }
+  if (showtime.availability === 'limited') return LIMITED_POPULARITY;
+  return undefined;
+}
+
+/**
+ * Fill in availability from seat counts where the scraper didn't set it,
+ * then derive popularity. Updates the showtimes in place.
+ */
+export function applyAvailability(showtimes: Showtime[]): Showtime[] {
+  for (const showtime of showtimes) {
+    if (!showtime.availability && showtime.ticketsAvailable !== undefined) {
+      showtime.availability = availabilityFromCounts(showtime.ticketsAvailable, showtime.totalCapacity);
+    }
+    if (showtime.popularity === undefined) {
+      const popularity = derivePopularity(showtime);
+      if (popularity !== undefined) showtime.popularity = popularity;
+    }
+  }
+  return showtimes;
+}
@@ -0,0 +1,189 @@
+import { Showtime } from '@/types/showtime';
+import { ShowtimeChange } from '@/types/change';
+import { StoredShowtimeRef, reconcileShowtimeIds } from '@/lib/showtimeId';
+import { resolveFilmIdentity } from '@/lib/filmIdentity';
+import { localDate, to24Hour } from '@/lib/datetime';
+
+/**
+ * Change detection between scrapes. Each time a theater's snapshot is
+ * replaced, its previous rows are compared with the fresh showtimes and
+ * the differences stored as typed events, for the changes API and for
+ * notifications.
+ */
+
+/** What change detection needs about a showtime in the previous snapshot. */
+export interface PreviousShowtime extends StoredShowtimeRef {
+  filmTitle: string;
+  startsAt: Date | null;
+  timesTba?: boolean;
+  timeGuessed?: boolean;
+}
+
+/** A change as detected, before it's stored against a theater. */
+export type DetectedChange = Omit<ShowtimeChange, 'id' | 'theater' | 'detectedAt'>;
+
+/**
+ * Compare a theater's previous snapshot with a fresh scrape.
+ *
+ * Screenings are matched by ID, then by reconcileShowtimeIds (a new ID for
+ * the same screening is no change). A screening that vanished while its
+ * film gained one on the same day — or under the same single-screening
+ * ticket link — moved rather than being removed and added. Screenings that
+ * drop off because they've started aren't reported as removed.
+ *
+ * A start that was a guess (timeGuessed) or a placeholder (timesTba) on
+ * either side isn't a real move, so those pairs report nothing; nor is a
+ * screening that vanished while its film got a Times TBA placeholder that
+ * day, which is a detail page failing to list times rather than a
+ * cancellation.
+ *
+ * The first snapshot of a theater reports nothing, rather than every film
+ * as new.
+ */
+export function detectChanges(
+  previous: PreviousShowtime[],
+  current: Showtime[],
+  now: Date = new Date()
+): DetectedChange[] {
+  if (previous.length === 0) return [];
+
+  const renamed = reconcileShowtimeIds(previous, current);
+  const previousIds = new Set(previous.map(p => p.id));
+  const continued = new Set(renamed.values());
+  const currentById = new Map(current.map(s => [s.id, s]));
+  const changes: DetectedChange[] = [];
+
+  // Same screening, new start: possible when the theater's own performance ID is kept
+  const vanished: PreviousShowtime[] = [];
+  for (const old of previous) {
+    const s = currentById.get(renamed.get(old.id) ?? old.id);
+    if (!s) {
+      vanished.push(old);
+    } else if ((s.date !== old.date || startKey(s.time) !== startKey(old.time)) && !uncertain(old, s)) {
+      changes.push(moved(old, s));
+    }
+  }
+  const added = current.filter(s => !previousIds.has(s.id) && !continued.has(s.id));
+
+  // A vanished screening and an added one for the same film: the screening moved
+  const previousLinks = countBy(previous.map(p => p.ticketUrl));
+  const currentLinks = countBy(current.map(s => s.ticketUrl));
+  const ownLink = (url: string) => previousLinks.get(url) === 1 && currentLinks.get(url) === 1;
+  const unmatched = new Set(added);
+  const placeholders = new Set(current.filter(s => s.timesTba).map(s => `${keyOf(s)}|${s.date}`));
+  for (const old of vanished) {
+    const candidates = added.filter(s => unmatched.has(s) && keyOf(s) === old.filmKey);
+    const match =
+      candidates.find(s => s.date === old.date && s.ticketUrl === old.ticketUrl) ??
+      candidates.find(s => s.date === old.date) ??
+      candidates.find(s => s.ticketUrl === old.ticketUrl && ownLink(s.ticketUrl));
+    if (match) {
+      unmatched.delete(match);
+      if (!uncertain(old, match)) changes.push(moved(old, match));
+    } else if (
+      !placeholders.has(`${old.filmKey}|${old.date}`) &&
+      (old.startsAt ? old.startsAt > now : old.date >= localDate(now))
+    ) {
+      changes.push({
+        type: 'removed',
+        filmKey: old.filmKey,
+        filmTitle: old.filmTitle,
+        previousShowtimeId: old.id,
+        previousDate: old.date,
+        previousTime: old.time,
+        ticketUrl: old.ticketUrl,
+      });
+    }
+  }
+
+  // What's left is new: a film's first screening announces the film
+  const previousFilms = new Set(previous.map(p => p.filmKey));
+  const announced = new Set<string>();
+  for (const s of sortedByStart(Array.from(unmatched))) {
+    const filmKey = keyOf(s);
+    const isNewFilm = !previousFilms.has(filmKey);
+    if (isNewFilm && announced.has(filmKey)) continue;
+    announced.add(filmKey);
+    changes.push({
+      type: isNewFilm ? 'new_film' : 'new_screening',
+      filmKey,
+      filmTitle: titleOf(s),
+      showtimeId: s.id,
+      date: s.date,
+      time: s.time,
+      ticketUrl: s.ticketUrl,
+    });
+  }
+
+  // Films still showing whose last listed date moved later
+  const previousLast = lastDates(previous.map(p => [p.filmKey, p.date]));
+  const currentLast = lastDates(current.map(s => [keyOf(s), s.date]));
+  for (const [filmKey, last] of currentLast) {
+    const before = previousLast.get(filmKey);
+    if (!before || last <= before) continue;
+    const film = current.find(s => keyOf(s) === filmKey)!;
+    changes.push({
+      type: 'run_extended',
+      filmKey,
+      filmTitle: titleOf(film),
+      date: last,
+      previousDate: before,
+      ticketUrl: film.ticketUrl,
+    });
+  }
+
+  return changes;
+}
+
+function moved(old: PreviousShowtime, s: Showtime): DetectedChange {
+  return {
+    type: 'time_changed',
+    filmKey: old.filmKey,
+    filmTitle: titleOf(s),
+    showtimeId: s.id,
+    previousShowtimeId: old.id,
+    date: s.date,
+    time: s.time,
+    previousDate: old.date,
+    previousTime: old.time,
+    ticketUrl: s.ticketUrl,
+  };
+}
+
+/** Either start is a guess or a placeholder, so a difference says nothing. */
+function uncertain(old: PreviousShowtime, s: Showtime): boolean {
+  return Boolean(old.timesTba || old.timeGuessed || s.timesTba || s.timeGuessed);
+}
+
+/** "7:30 PM" → "19:30", so "7:30 pm" and "7:30 PM" are the same start. */
+function startKey(time: string): string {
+  return to24Hour(time) ?? time;
+}
+
+function keyOf(s: Showtime): string {
+  return s.filmKey ?? resolveFilmIdentity(s).filmKey;
+}
+
+function titleOf(s: Showtime): string {
+  return s.filmTitle ?? resolveFilmIdentity(s).filmTitle;
+}
+
+function sortedByStart(showtimes: Showtime[]): Showtime[] {
+  return showtimes.sort((a, b) =>
+    a.date.localeCompare(b.date) || (to24Hour(a.time) ?? '99:99').localeCompare(to24Hour(b.time) ?? '99:99')
+  );
+}
+
+function countBy(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return counts;
+}
+
+function lastDates(entries: [string, string][]): Map<string, string> {
+  const last = new Map<string, string>();
+  for (const [filmKey, date] of entries) {
+    if (date > (last.get(filmKey) ?? '')) last.set(filmKey, date);
+  }
+  return last;
+}
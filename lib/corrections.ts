@@ -0,0 +1,144 @@
+import { ShowtimeChange } from '@/types/change';
+import { Showtime } from '@/types/showtime';
+import { formatLocalDate, to24Hour } from '@/lib/datetime';
+
+/**
+ * Corrections for screenings a subscriber was already emailed about, when
+ * the theater later moves or drops them. Built from the change events of
+ * lib/changes.
+ */
+
+/** A showtime a subscriber was emailed about, from NotificationLog. */
+export interface NotifiedShowtime {
+  showtimeId: string;
+  sentAt: Date;
+}
+
+/** The stored snapshot, which every correction is checked against before it's sent. */
+export interface CurrentSnapshot {
+  showtimes: Showtime[];      // screenings listed now
+  savedAt: Map<string, Date>; // theater name → when its snapshot was last saved
+}
+
+export interface Correction {
+  kind: 'moved' | 'cancelled';
+  filmTitle: string;
+  theater: string;
+  notifiedShowtimeId: string; // the screening as the subscriber was told about it
+  previousDate: string;
+  previousTime: string;
+  showtimeId?: string;        // where it moved to
+  date?: string;
+  time?: string;
+  ticketUrl?: string;
+  changeIds: string[];        // every change event folded into this correction
+}
+
+/**
+ * The corrections a subscriber is owed: changes to a screening they were
+ * notified about, detected after they were notified and not already
+ * corrected. A screening that moved more than once is one correction from
+ * the time they were told to where it is now; one that moved back to that
+ * time needs none.
+ *
+ * A scrape that half-fails can look like a move or a cancellation, so
+ * neither is sent on its own word: a move only once the screening is listed
+ * at its new start with a confirmed time (not a guessed AM/PM or Times TBA),
+ * and a cancellation only once a later snapshot of the theater still lacks
+ * it. Held-back changes aren't corrected, so a later run reconsiders them.
+ */
+export function planCorrections(
+  notified: NotifiedShowtime[],
+  changes: ShowtimeChange[],
+  current: CurrentSnapshot,
+  alreadyCorrected: Set<string> = new Set()
+): Correction[] {
+  const listed = new Map(current.showtimes.map(s => [s.id, s]));
+  // What the subscriber last heard about each screening, by its current ID
+  const known = new Map<string, { since: Date; correction?: Correction }>(
+    notified.map(n => [n.showtimeId, { since: n.sentAt }])
+  );
+  const corrections: Correction[] = [];
+
+  const inOrder = [...changes].sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  for (const change of inOrder) {
+    if (change.type !== 'time_changed' && change.type !== 'removed') continue;
+    if (!change.previousShowtimeId || alreadyCorrected.has(change.id)) continue;
+    const entry = known.get(change.previousShowtimeId);
+    if (!entry || new Date(change.detectedAt) < entry.since) continue;
+    if (change.type === 'removed' && !removalConfirmed(change, current, listed)) continue;
+    if (!to24Hour(change.previousTime ?? '')) continue; // a Times TBA placeholder was never a start
+
+    let correction = entry.correction;
+    if (!correction) {
+      correction = {
+        kind: 'moved',
+        filmTitle: change.filmTitle,
+        theater: change.theater,
+        notifiedShowtimeId: change.previousShowtimeId,
+        previousDate: change.previousDate ?? '',
+        previousTime: change.previousTime ?? '',
+        changeIds: [],
+      };
+      corrections.push(correction);
+    }
+    correction.changeIds.push(change.id);
+    known.delete(change.previousShowtimeId);
+
+    if (change.type === 'removed') {
+      correction.kind = 'cancelled';
+      continue;
+    }
+    correction.showtimeId = change.showtimeId;
+    correction.date = change.date;
+    correction.time = change.time;
+    correction.ticketUrl = change.ticketUrl;
+    if (change.showtimeId) known.set(change.showtimeId, { since: new Date(change.detectedAt), correction });
+  }
+
+  return corrections.filter((c) => {
+    if (c.kind === 'cancelled') return true;
+    const target = listed.get(c.showtimeId!);
+    if (!target || target.timesTba || target.timeGuessed) return false;
+    return c.date !== c.previousDate || c.time !== c.previousTime;
+  });
+}
+
+/**
+ * A removal seen in two snapshots in a row: the theater was saved again
+ * after it was detected, and the screening still isn't listed.
+ */
+function removalConfirmed(
+  change: ShowtimeChange,
+  current: CurrentSnapshot,
+  listed: Map<string, Showtime>
+): boolean {
+  const savedAt = current.savedAt.get(change.theater);
+  return !!savedAt && savedAt > new Date(change.detectedAt) && !listed.has(change.previousShowtimeId!);
+}
+
+/**
+ * One sentence for a correction, e.g. "Bitter Rice at Film Forum on Wed,
+ * Feb 18 moved from 7:30 to 8:10 PM".
+ */
+export function correctionSummary(c: Correction): string {
+  const where = `${c.filmTitle} at ${c.theater}`;
+  if (c.kind === 'cancelled') {
+    return `${where} on ${formatDay(c.previousDate)} at ${c.previousTime} was cancelled`;
+  }
+  if (c.date === c.previousDate) {
+    return `${where} on ${formatDay(c.previousDate)} moved from ${timeRange(c.previousTime, c.time!)}`;
+  }
+  return `${where} moved from ${formatDay(c.previousDate)} at ${c.previousTime} to ${formatDay(c.date!)} at ${c.time}`;
+}
+
+function formatDay(date: string): string {
+  return formatLocalDate(date, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** "7:30 PM", "8:10 PM" → "7:30 to 8:10 PM"; the first meridiem stays when they differ. */
+function timeRange(from: string, to: string): string {
+  const meridiem = (time: string) => time.match(/\s*([AP]M)$/i)?.[1].toUpperCase();
+  const shared = meridiem(from) && meridiem(from) === meridiem(to);
+  return `${shared ? from.replace(/\s*[AP]M$/i, '') : from} to ${to}`;
+}
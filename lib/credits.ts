@@ -0,0 +1,41 @@
+import { ProgramFilm, Showtime } from '@/types/showtime';
+
+/**
+ * One-line summary of a film's structured details, e.g.
+ * "Dir. Agnès Varda · 1985 · 105 min · France · 35mm". Empty if the
+ * theater listed none.
+ */
+export function creditsLine(showtime: Showtime): string {
+  const parts: string[] = [];
+  if (showtime.directors?.length) parts.push(`Dir. ${showtime.directors.join(', ')}`);
+  if (showtime.year) parts.push(String(showtime.year));
+  if (showtime.runtimeMinutes) parts.push(`${showtime.runtimeMinutes} min`);
+  if (showtime.country) parts.push(showtime.country);
+  if (showtime.language) parts.push(showtime.language);
+  if (showtime.format) parts.push(showtime.format);
+  return parts.join(' · ');
+}
+
+/** "With A, B, C" for the first few cast members, or empty. */
+export function castLine(showtime: Showtime, limit = 3): string {
+  if (!showtime.cast?.length) return '';
+  const names = showtime.cast.slice(0, limit).join(', ');
+  return `With ${names}${showtime.cast.length > limit ? ', …' : ''}`;
+}
+
+/**
+ * One line per film in a program, e.g. "MESHES OF THE AFTERNOON — Maya
+ * Deren, Alexander Hammid · 1943 · 14 min". Empty for a single film.
+ */
+export function programLines(showtime: Showtime): string[] {
+  return (showtime.program ?? []).map(programFilmLine);
+}
+
+function programFilmLine(film: ProgramFilm): string {
+  const parts: string[] = [];
+  if (film.directors?.length) parts.push(film.directors.join(', '));
+  if (film.year) parts.push(String(film.year));
+  if (film.runtimeMinutes) parts.push(`${film.runtimeMinutes} min`);
+  if (film.format) parts.push(film.format);
+  return parts.length ? `${film.title} — ${parts.join(' · ')}` : film.title;
+}
@@ -0,0 +1,130 @@
+/**
+ * Dates and times in the theaters' time zone.
+ *
+ * Every theater we scrape is in New York, so a screening is a start instant
+ * in America/New_York: "2026-02-18" + "9:30 PM" is 2026-02-19T02:30Z. Its
+ * ISO date and "7:30 PM"-style time are local to New York, never to the
+ * server, so a UTC host doesn't roll evening screenings into tomorrow.
+ *
+ * Calendar dates are plain "YYYY-MM-DD" strings; arithmetic on them is done
+ * in UTC, where every day is 24 hours long.
+ */
+
+export const THEATER_TIME_ZONE = 'America/New_York';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const partsFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: THEATER_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1–12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function zonedParts(instant: Date): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of partsFormatter.formatToParts(instant)) {
+    if (type !== 'literal') parts[type] = parseInt(value, 10);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** Build an ISO date from numeric parts; month is 1-based. */
+export function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** The New York calendar date of an instant, e.g. "2026-02-18". */
+export function localDate(instant: Date = new Date()): string {
+  const { year, month, day } = zonedParts(instant);
+  return isoDate(year, month, day);
+}
+
+/** The New York wall-clock time of an instant, e.g. "7:30 PM". */
+export function localTime(instant: Date): string {
+  const { hour, minute } = zonedParts(instant);
+  return clockTime(hour, minute);
+}
+
+/** A 24-hour hour and minute as a "7:30 PM"-style time. */
+export function clockTime(hour: number, minute: number): string {
+  return `${hour % 12 || 12}:${pad(minute)} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+function utcMidnight(date: string): number {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+/** Shift an ISO date by whole days. */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(utcMidnight(date) + days * DAY_MS);
+  return isoDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/** Whole days from one ISO date to another (negative if `to` is earlier). */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((utcMidnight(to) - utcMidnight(from)) / DAY_MS);
+}
+
+/** Day of the week for an ISO date, 0 = Sunday. */
+export function dayOfWeek(date: string): number {
+  return new Date(utcMidnight(date)).getUTCDay();
+}
+
+/**
+ * Format an ISO date for display ("Wednesday, February 18"). The date is
+ * formatted as a calendar day, so the viewer's own time zone can't shift it.
+ */
+export function formatLocalDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(utcMidnight(date)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+/** "7:30 PM" → "19:30"; null for anything else ("Times TBA"). */
+export function to24Hour(time: string): string | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})\s*([AP]M)$/i);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10) % 12;
+  if (match[3].toUpperCase() === 'PM') hours += 12;
+  return `${pad(hours)}:${match[2]}`;
+}
+
+/**
+ * The instant a screening starts: its New York date and "7:30 PM" time.
+ * Null when the time isn't a clock time (e.g. "Times TBA").
+ */
+export function zonedStart(date: string, time: string): Date | null {
+  const clock = to24Hour(time);
+  if (!clock) return null;
+  const [y, m, d] = date.split('-').map(Number);
+  const [hour, minute] = clock.split(':').map(Number);
+  const wallClock = Date.UTC(y, m - 1, d, hour, minute);
+
+  // Guess with the offset at the wall-clock time read as UTC, then correct
+  // once in case that guess fell on the other side of a DST change.
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+  return new Date(instant);
+}
+
+/** New York's offset from UTC at an instant, in milliseconds (-5h or -4h). */
+function offsetAt(instant: number): number {
+  const p = zonedParts(new Date(instant));
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(instant / 60000) * 60000;
+}
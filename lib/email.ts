@@ -1,5 +1,9 @@
 import { Resend } from 'resend';
 import { MatchedShowtime } from './matcher';
+import { castLine, creditsLine, programLines } from './credits';
+import { venueAddress, venueOf } from './venues';
+import { Correction, correctionSummary } from './corrections';
+import { getTheaterInfo } from '@/scrapers';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -22,16 +26,19 @@ export async function sendNotificationEmail(notification: NotificationEmail) {
   const unsubscribeUrl = `${APP_URL}/api/subscribers/unsubscribe?email=${encodeURIComponent(subscriberEmail)}`;
   const manageUrl = `${APP_URL}/notifications?email=${encodeURIComponent(subscriberEmail)}`;
 
-  // Group matches by film for cleaner presentation
+  const theatersByName = new Map(getTheaterInfo().map(t => [t.name, t]));
+
+  // Group matches by film (across theaters) for cleaner presentation
   const byFilm = new Map<string, MatchedShowtime[]>();
   for (const m of matches) {
-    const key = m.showtime.film;
+    const key = m.showtime.filmKey ?? m.showtime.film;
     if (!byFilm.has(key)) byFilm.set(key, []);
     byFilm.get(key)!.push(m);
   }
 
-  const filmSections = Array.from(byFilm.entries())
-    .map(([film, showtimes]) => {
+  const filmSections = Array.from(byFilm.values())
+    .map((showtimes) => {
+      const film = showtimes[0].showtime.filmTitle ?? showtimes[0].showtime.film;
       const matchReasons = [...new Set(
         showtimes.flatMap(s =>
           s.matchedPreferences.map(p => `${p.type}: ${p.value}`)
@@ -39,9 +46,13 @@ export async function sendNotificationEmail(notification: NotificationEmail) {
       )];
 
       const showtimeLines = showtimes.map(s => {
-        const times = s.showtime.allTimes?.join(', ') || s.showtime.time;
+        const times = (s.showtime.allTimes?.join(', ') || s.showtime.time) +
+          (s.showtime.timeGuessed ? ' (time unconfirmed)' : '') +
+          (s.showtime.availability === 'sold_out' ? ' (sold out)' : '');
+        const venue = venueOf(theatersByName.get(s.showtime.theater), s.showtime);
+        const address = venue ? venueAddress(venue) : '';
         return `        <tr>
-          <td style="padding:8px 12px;border-bottom:1px solid #f0f0f0;color:#374151">${s.showtime.theater}</td>
+          <td style="padding:8px 12px;border-bottom:1px solid #f0f0f0;color:#374151">${[s.showtime.theater, s.showtime.venue].filter(Boolean).join(' · ')}${address ? `<br /><span style="color:#9ca3af;font-size:12px">${address}</span>` : ''}${s.showtime.event ? `<br /><span style="color:#6b7280;font-size:12px">${s.showtime.event}</span>` : ''}${s.showtime.series ? `<br /><span style="color:#6b7280;font-size:12px">${s.showtime.series.name}</span>` : ''}</td>
           <td style="padding:8px 12px;border-bottom:1px solid #f0f0f0;color:#374151">${s.showtime.date}</td>
           <td style="padding:8px 12px;border-bottom:1px solid #f0f0f0;color:#374151">${times}</td>
           <td style="padding:8px 12px;border-bottom:1px solid #f0f0f0">
@@ -50,6 +61,15 @@ export async function sendNotificationEmail(notification: NotificationEmail) {
         </tr>`;
       }).join('\n');
 
+      const details = [
+        creditsLine(showtimes[0].showtime),
+        castLine(showtimes[0].showtime),
+        ...programLines(showtimes[0].showtime),
+      ]
+        .filter(Boolean)
+        .map(line => `<p style="color:#4b5563;font-size:13px;margin:4px 0 0">${line}</p>`)
+        .join('');
+
       const desc = showtimes[0].showtime.description
         ? `<p style="color:#6b7280;font-size:14px;margin:4px 0 12px">${showtimes[0].showtime.description.slice(0, 200)}${showtimes[0].showtime.description.length > 200 ? '...' : ''}</p>`
         : '';
@@ -58,6 +78,7 @@ export async function sendNotificationEmail(notification: NotificationEmail) {
       <div style="margin-bottom:24px;border:1px solid #e5e7eb;border-radius:8px;overflow:hidden">
         <div style="background:#f9fafb;padding:12px 16px;border-bottom:1px solid #e5e7eb">
           <h2 style="margin:0;color:#111827;font-size:18px">${film}</h2>
+          ${details}
           ${desc}
           <p style="margin:4px 0 0;font-size:12px;color:#9ca3af">Matched: ${matchReasons.join(', ')}</p>
         </div>
@@ -113,3 +134,65 @@ ${filmSections}
 
   console.log(`Notification sent to ${subscriberEmail} (${matches.length} matches)`);
 }
+
+export interface CorrectionEmail {
+  subscriberEmail: string;
+  subscriberName: string | null;
+  corrections: Correction[];
+}
+
+/**
+ * Tell a subscriber that screenings we emailed them about have moved or
+ * been cancelled.
+ */
+export async function sendCorrectionEmail(email: CorrectionEmail) {
+  const { subscriberEmail, subscriberName, corrections } = email;
+  const greeting = subscriberName ? `Hi ${subscriberName}` : 'Hi there';
+  const unsubscribeUrl = `${APP_URL}/api/subscribers/unsubscribe?email=${encodeURIComponent(subscriberEmail)}`;
+  const manageUrl = `${APP_URL}/notifications?email=${encodeURIComponent(subscriberEmail)}`;
+
+  const lines = corrections.map(c => `
+      <div style="margin-bottom:12px;padding:12px 16px;border:1px solid #e5e7eb;border-radius:8px">
+        <p style="margin:0;color:#111827;font-size:15px">${c.kind === 'cancelled' ? '❌' : '🕒'} ${correctionSummary(c)}</p>
+        ${c.kind === 'moved' && c.ticketUrl ? `<a href="${c.ticketUrl}" style="display:inline-block;margin-top:6px;color:#2563eb;text-decoration:none;font-size:13px;font-weight:600">Tickets →</a>` : ''}
+      </div>`).join('\n');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;margin:0;padding:0;background:#f3f4f6">
+  <div style="max-width:600px;margin:0 auto;padding:24px">
+    <div style="background:white;border-radius:12px;padding:32px;box-shadow:0 1px 3px rgba(0,0,0,0.1)">
+      <h1 style="margin:0 0 4px;color:#111827;font-size:24px">Schedule change</h1>
+      <p style="color:#6b7280;margin:0 0 24px;font-size:15px">${greeting}, ${corrections.length === 1 ? 'a showing' : `${corrections.length} showings`} we emailed you about ${corrections.length === 1 ? 'has' : 'have'} changed.</p>
+
+${lines}
+
+      <div style="margin-top:32px;padding-top:16px;border-top:1px solid #e5e7eb;text-align:center">
+        <a href="${manageUrl}" style="color:#2563eb;text-decoration:none;font-size:13px">Manage preferences</a>
+        <span style="color:#d1d5db;margin:0 8px">|</span>
+        <a href="${unsubscribeUrl}" style="color:#9ca3af;text-decoration:none;font-size:13px">Unsubscribe</a>
+      </div>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const subject = corrections.length === 1
+    ? `Schedule change: ${corrections[0].filmTitle} at ${corrections[0].theater} ${corrections[0].kind === 'cancelled' ? 'was cancelled' : 'has moved'}`
+    : `Schedule change: ${corrections.length} showings you were sent have changed`;
+
+  const { error } = await resend.emails.send({
+    from: FROM_EMAIL,
+    to: subscriberEmail,
+    subject,
+    html,
+  });
+
+  if (error) {
+    console.error(`Failed to send correction to ${subscriberEmail}:`, error);
+    throw error;
+  }
+
+  console.log(`Correction sent to ${subscriberEmail} (${corrections.length} changes)`);
+}
@@ -0,0 +1,122 @@
+import { Showtime } from '@/types/showtime';
+
+/**
+ * Film identity: one canonical key and display title per film, so the same
+ * film listed as "Giuseppe De Santis' BITTER RICE (Italian Neorealism)" at
+ * Film Forum and "Bitter Rice" elsewhere groups together.
+ *
+ * The automatic key comes from the cleaned-up title. When that isn't enough
+ * (a restoration tag, a translated title), a FilmAlias row maps the
+ * automatic key onto the right film.
+ */
+
+/** A manual fix: the film an automatic key should resolve to. */
+export interface FilmAliasTarget {
+  filmKey: string;
+  title?: string | null; // display title override
+}
+
+/** Automatic film key → the film it really is. */
+export type FilmAliases = Map<string, FilmAliasTarget>;
+
+export interface FilmIdentity {
+  filmKey: string;
+  filmTitle: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', mdash: '—', ndash: '–',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * The film's own title, without what theaters decorate it with: HTML
+ * entities, a trailing "(Series Name)", and a "Director's" prefix when it
+ * names one of the showtime's directors.
+ */
+export function canonicalTitle(showtime: Pick<Showtime, 'film' | 'directors'>): string {
+  let title = decodeEntities(showtime.film).replace(/\s+/g, ' ').trim();
+
+  // Trailing parentheticals are series or format notes, not part of the title
+  title = title.replace(/(?:\s*\([^()]*\))+$/, '').trim();
+
+  // "Giuseppe De Santis' BITTER RICE" → "BITTER RICE"
+  const prefix = title.match(/^(.+?)['’]s?\s+(.+)$/);
+  if (prefix && showtime.directors?.length) {
+    const named = stripAccents(prefix[1]).toLowerCase();
+    if (showtime.directors.some(d => stripAccents(d).toLowerCase() === named)) {
+      title = prefix[2];
+    }
+  }
+
+  return title;
+}
+
+/** Normalize a title into a film key, e.g. "Cléo from 5 to 7" → "cleo-from-5-to-7". */
+export function filmKeyFor(title: string): string {
+  return stripAccents(decodeEntities(title))
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+const SMALL_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+/**
+ * Title-case an all-caps title ("TAXI DRIVER" → "Taxi Driver"); leave
+ * mixed-case titles as the theater wrote them.
+ */
+export function displayTitle(title: string): string {
+  if (title !== title.toUpperCase()) return title;
+  return title
+    .toLowerCase()
+    .split(' ')
+    .map((word, i) => {
+      if (/^[ivx]+[.:,]?$/.test(word) && word.length > 1) return word.toUpperCase();
+      if (i > 0 && SMALL_WORDS.has(word)) return word;
+      return word.replace(/^(\P{L}*)(\p{L})/u, (_, lead: string, first: string) => lead + first.toUpperCase());
+    })
+    .join(' ');
+}
+
+/** Resolve a showtime's canonical film key and display title. */
+export function resolveFilmIdentity(
+  showtime: Pick<Showtime, 'film' | 'directors'>,
+  aliases: FilmAliases = new Map()
+): FilmIdentity {
+  const title = canonicalTitle(showtime);
+  const key = filmKeyFor(title);
+  const alias = aliases.get(key);
+  return {
+    filmKey: alias?.filmKey ?? key,
+    filmTitle: alias?.title || displayTitle(title),
+  };
+}
+
+/** Set filmKey and filmTitle on each showtime, in place. */
+export function applyFilmIdentity(showtimes: Showtime[], aliases: FilmAliases = new Map()): Showtime[] {
+  for (const showtime of showtimes) {
+    Object.assign(showtime, resolveFilmIdentity(showtime, aliases));
+  }
+  return showtimes;
+}
@@ -0,0 +1,192 @@
+/**
+ * Resilient fetch for scrapers.
+ *
+ * `createHttpClient` returns a drop-in `fetch` replacement that adds:
+ *   - a per-request timeout (covers headers and body)
+ *   - retry with exponential backoff on network errors, 5xx and 429,
+ *     honoring Retry-After
+ *   - a cap on concurrent requests per host
+ *   - an identifying User-Agent (SCRAPER_USER_AGENT)
+ *   - ETag / Last-Modified conditional GETs, answering 304s from an
+ *     in-memory cache so unchanged pages aren't re-downloaded
+ *
+ * Bodies are buffered before the response is returned, so callers can
+ * still use `res.ok`, `res.status` and `res.text()` as usual.
+ */
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export const DEFAULT_USER_AGENT =
+  process.env.SCRAPER_USER_AGENT || `TheaterShowings/1.0 (+${APP_URL})`;
+
+export interface HttpClientOptions {
+  fetch?: typeof fetch;         // underlying transport (default: global fetch)
+  userAgent?: string;
+  timeoutMs?: number;           // per attempt
+  retries?: number;             // attempts after the first
+  backoffMs?: number;           // base delay, doubled each retry
+  maxRetryAfterMs?: number;     // cap on a server-requested Retry-After
+  maxConcurrentPerHost?: number;
+  cacheSize?: number;           // conditional-GET entries kept; 0 disables
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface CacheEntry {
+  etag: string | null;
+  lastModified: string | null;
+  body: string;
+  headers: [string, string][];
+}
+
+/** Statuses worth retrying: the server is overloaded or briefly broken. */
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Statuses whose Response must not carry a body. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Limits how many requests run at once against each host. Callers wait in
+ * FIFO order for a free slot.
+ */
+class HostLimiter {
+  private active = new Map<string, number>();
+  private queues = new Map<string, (() => void)[]>();
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(host: string): Promise<void> {
+    const running = this.active.get(host) ?? 0;
+    if (running < this.limit) {
+      this.active.set(host, running + 1);
+      return;
+    }
+    await new Promise<void>(resolve => {
+      const queue = this.queues.get(host) ?? [];
+      queue.push(resolve);
+      this.queues.set(host, queue);
+    });
+  }
+
+  release(host: string): void {
+    const next = this.queues.get(host)?.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+      return;
+    }
+    this.active.set(host, (this.active.get(host) ?? 1) - 1);
+  }
+}
+
+export function createHttpClient(options: HttpClientOptions = {}): typeof fetch {
+  const {
+    fetch: transport = (input, init) => fetch(input, init),
+    userAgent = DEFAULT_USER_AGENT,
+    timeoutMs = 15_000,
+    retries = 2,
+    backoffMs = 500,
+    maxRetryAfterMs = 30_000,
+    maxConcurrentPerHost = 4,
+    cacheSize = 500,
+    sleep = defaultSleep,
+  } = options;
+
+  const limiter = new HostLimiter(maxConcurrentPerHost);
+  const cache = new Map<string, CacheEntry>();
+
+  /** One attempt: acquire a host slot, fetch with a timeout, buffer the body. */
+  async function attempt(url: URL, init: RequestInit): Promise<{ response: Response; body: string | null }> {
+    await limiter.acquire(url.host);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await transport(url.href, { ...init, signal: controller.signal });
+      const body = NULL_BODY_STATUSES.has(response.status) ? null : await response.text();
+      return { response, body };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Timed out after ${timeoutMs}ms: ${url.href}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      limiter.release(url.host);
+    }
+  }
+
+  function remember(key: string, response: Response, body: string): void {
+    if (cacheSize <= 0) return;
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    if (!etag && !lastModified) return;
+    cache.delete(key);
+    cache.set(key, { etag, lastModified, body, headers: Array.from(response.headers.entries()) });
+    // Evict the least recently stored entry
+    if (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+
+  return async function httpFetch(input, init = {}) {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = new Headers(init.headers);
+    if (!headers.has('User-Agent')) headers.set('User-Agent', userAgent);
+    if (!headers.has('Accept')) headers.set('Accept', 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8');
+    if (!headers.has('Accept-Language')) headers.set('Accept-Language', 'en-US,en;q=0.5');
+
+    const cached = method === 'GET' ? cache.get(url.href) : undefined;
+    if (cached?.etag) headers.set('If-None-Match', cached.etag);
+    if (cached?.lastModified) headers.set('If-Modified-Since', cached.lastModified);
+
+    for (let attemptNo = 0; ; attemptNo++) {
+      const isLast = attemptNo >= retries;
+      let result: { response: Response; body: string | null };
+      try {
+        result = await attempt(url, { ...init, method, headers });
+      } catch (error) {
+        if (isLast) throw error;
+        await sleep(backoffMs * 2 ** attemptNo);
+        continue;
+      }
+
+      const { response, body } = result;
+
+      if (response.status === 304 && cached) {
+        return new Response(cached.body, { status: 200, headers: cached.headers });
+      }
+
+      if (isRetryable(response.status) && !isLast) {
+        await sleep(retryDelay(response, backoffMs * 2 ** attemptNo, maxRetryAfterMs));
+        continue;
+      }
+
+      if (response.ok && method === 'GET' && body !== null) {
+        remember(url.href, response, body);
+      }
+
+      return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+  };
+}
+
+/**
+ * How long to wait before retrying: the server's Retry-After (seconds or an
+ * HTTP date) when present and sane, otherwise the backoff delay.
+ */
+function retryDelay(response: Response, backoff: number, max: number): number {
+  const header = response.headers.get('retry-after');
+  if (!header) return backoff;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  if (!Number.isFinite(ms) || ms < 0) return backoff;
+  return Math.min(ms, max);
+}
@@ -1,35 +1,63 @@
 import { Showtime } from '@/types/showtime';
-import { Preference } from '@/app/generated/prisma/client';
+import type { Preference } from '@/app/generated/prisma/client';
+import { parseTag } from '@/lib/tags';
+
+/** The parts of a preference the matcher looks at. */
+export type PreferenceLike = Pick<Preference, 'type' | 'value'>;
+
+/** Lowercase and strip accents, so "Agnes Varda" matches "Agnès Varda". */
+export function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function anyIncludes(names: string[] | undefined, value: string): boolean {
+  return (names ?? []).some(name => normalize(name).includes(value));
+}
 
 /**
  * Check if a showtime matches any of a subscriber's preferences.
  *
- * Matching rules:
- * - "film": case-insensitive substring match against showtime.film
- * - "director": case-insensitive substring match against showtime.film or showtime.description
- * - "actor": case-insensitive substring match against showtime.description
+ * Matching rules (case- and accent-insensitive substring matches):
+ * - "film": against showtime.film, its canonical filmTitle and the titles
+ *   of the films in a program
+ * - "director": against showtime.directors and the directors of every film
+ *   in a program; if the theater lists none, against the titles (e.g.
+ *   "Giuseppe De Santis' BITTER RICE")
+ * - "actor": against showtime.cast
+ * - "tag": the showtime carries that tag (lib/tags); the value may be the
+ *   tag or its label, e.g. "qa" or "Q&A"
+ * - "series": against the name of the series the showtime is part of
  *
  * Returns the list of preferences that matched (empty if none).
  */
-export function matchShowtime(
+export function matchShowtime<P extends PreferenceLike>(
   showtime: Showtime,
-  preferences: Preference[]
-): Preference[] {
-  const filmLower = showtime.film.toLowerCase();
-  const descLower = (showtime.description || '').toLowerCase();
-  const combined = `${filmLower} ${descLower}`;
+  preferences: P[]
+): P[] {
+  const programTitles = (showtime.program ?? []).map(film => film.title);
+  const filmNorm = normalize([showtime.film, showtime.filmTitle ?? '', ...programTitles].join(' '));
+  const directors = [
+    ...(showtime.directors ?? []),
+    ...(showtime.program ?? []).flatMap(film => film.directors ?? []),
+  ];
 
   return preferences.filter((pref) => {
-    const valueLower = pref.value.toLowerCase();
+    const valueNorm = normalize(pref.value);
     switch (pref.type) {
       case 'film':
-        return filmLower.includes(valueLower);
+        return filmNorm.includes(valueNorm);
       case 'director':
-        // Directors often appear in film title (e.g., "Giuseppe De Santis' BITTER RICE")
-        // or in the description
-        return combined.includes(valueLower);
+        return directors.length
+          ? anyIncludes(directors, valueNorm)
+          : filmNorm.includes(valueNorm);
       case 'actor':
-        return descLower.includes(valueLower);
+        return anyIncludes(showtime.cast, valueNorm);
+      case 'tag': {
+        const tag = parseTag(pref.value);
+        return !!tag && (showtime.tags ?? []).includes(tag);
+      }
+      case 'series':
+        return !!showtime.series && normalize(showtime.series.name).includes(valueNorm);
       default:
         return false;
     }
@@ -1,7 +1,10 @@
 import { prisma } from '@/lib/prisma';
-import { getAllShowtimes } from '@/scrapers';
+import { getStoredShowtimes } from '@/lib/showtimeStore';
+import { Showtime } from '@/types/showtime';
 import { findMatches } from '@/lib/matcher';
-import { sendNotificationEmail } from '@/lib/email';
+import { sendCorrectionEmail, sendNotificationEmail } from '@/lib/email';
+import { CurrentSnapshot, planCorrections } from '@/lib/corrections';
+import { ShowtimeChange } from '@/types/change';
 
 export interface NotifyResult {
   subscriberEmail: string;
@@ -12,18 +15,18 @@ export interface NotifyResult {
 
 /**
  * Run the notification pipeline for a single subscriber:
- * 1. Scrape all current showtimes
+ * 1. Load the stored showtime snapshot
  * 2. Match against the subscriber's preferences
  * 3. Filter out already-notified showtimes
  * 4. Send email with new matches
  * 5. Log sent notifications
  *
- * Optionally accepts pre-scraped showtimes to avoid redundant scraping
+ * Optionally accepts preloaded showtimes to avoid redundant database reads
  * when called in a loop (e.g. the cron job).
  */
 export async function notifySingleSubscriber(
   subscriberId: string,
-  preloadedShowtimes?: Awaited<ReturnType<typeof getAllShowtimes>>
+  preloadedShowtimes?: Showtime[]
 ): Promise<NotifyResult | null> {
   const subscriber = await prisma.subscriber.findUnique({
     where: { id: subscriberId },
@@ -34,8 +37,8 @@ export async function notifySingleSubscriber(
     return null;
   }
 
-  // Scrape showtimes (or reuse preloaded ones)
-  const showtimes = preloadedShowtimes ?? await getAllShowtimes();
+  // Load stored showtimes (or reuse preloaded ones)
+  const showtimes = preloadedShowtimes ?? await getStoredShowtimes();
 
   if (showtimes.length === 0) {
     return { subscriberEmail: subscriber.email, matchesSent: 0, alreadyNotified: 0, totalShowtimes: 0 };
@@ -80,7 +83,7 @@ export async function notifySingleSubscriber(
     data: newMatches.map(m => ({
       subscriberId: subscriber.id,
       showtimeId: m.showtime.id,
-      filmTitle: m.showtime.film,
+      filmTitle: m.showtime.filmTitle ?? m.showtime.film,
       theater: m.showtime.theater,
       date: m.showtime.date,
     })),
@@ -96,3 +99,66 @@ export async function notifySingleSubscriber(
     totalShowtimes: showtimes.length,
   };
 }
+
+/**
+ * Email a subscriber about screenings they were notified of that have since
+ * moved or been cancelled, given the recent time_changed and removed
+ * changes, checked against the current snapshot (see lib/corrections).
+ * Each change covered is logged as a
+ * NotificationCorrection so it's only reported once, and a moved
+ * screening's new ID is logged as notified so it isn't announced again as
+ * a new match. Returns the number of corrections sent.
+ */
+export async function correctSingleSubscriber(
+  subscriberId: string,
+  changes: ShowtimeChange[],
+  current: CurrentSnapshot
+): Promise<number> {
+  const subscriber = await prisma.subscriber.findUnique({ where: { id: subscriberId } });
+  if (!subscriber || !subscriber.active || changes.length === 0) return 0;
+
+  const [notified, corrected] = await Promise.all([
+    prisma.notificationLog.findMany({
+      where: {
+        subscriberId,
+        showtimeId: { in: changes.flatMap(c => (c.previousShowtimeId ? [c.previousShowtimeId] : [])) },
+      },
+      select: { showtimeId: true, sentAt: true },
+    }),
+    prisma.notificationCorrection.findMany({
+      where: { subscriberId, changeId: { in: changes.map(c => c.id) } },
+      select: { changeId: true },
+    }),
+  ]);
+
+  const corrections = planCorrections(notified, changes, current, new Set(corrected.map(c => c.changeId)));
+  if (corrections.length === 0) return 0;
+
+  await sendCorrectionEmail({
+    subscriberEmail: subscriber.email,
+    subscriberName: subscriber.name,
+    corrections,
+  });
+
+  await prisma.notificationCorrection.createMany({
+    data: corrections.flatMap(c => c.changeIds.map(changeId => ({
+      subscriberId,
+      changeId,
+      showtimeId: c.notifiedShowtimeId,
+      kind: c.kind,
+    }))),
+    skipDuplicates: true,
+  });
+  await prisma.notificationLog.createMany({
+    data: corrections.flatMap(c => (c.kind === 'moved' && c.showtimeId ? [{
+      subscriberId,
+      showtimeId: c.showtimeId,
+      filmTitle: c.filmTitle,
+      theater: c.theater,
+      date: c.date!,
+    }] : [])),
+    skipDuplicates: true,
+  });
+
+  return corrections.length;
+}
@@ -0,0 +1,114 @@
+import { prisma } from '@/lib/prisma';
+import { ScrapeAnomaly, ScrapeStatus } from '@/app/generated/prisma/client';
+import { TheaterInfo } from '@/types/theater';
+
+/** How many previous completed runs make up the trailing average. */
+const TRAILING_RUNS = 7;
+
+/** A run below this fraction of the trailing average is a sharp decline. */
+const DECLINE_THRESHOLD = 0.5;
+
+/**
+ * Flag a showtime count that looks wrong next to recent history.
+ *
+ * - drop_to_zero: nothing found, but recent runs found showtimes
+ * - sharp_decline: fewer than half the trailing average
+ *
+ * Returns null when there's no history to compare against.
+ */
+export function detectAnomaly(
+  showtimeCount: number,
+  trailingCounts: number[]
+): ScrapeAnomaly | null {
+  const average = trailingAverage(trailingCounts);
+  if (average === null || average === 0) return null;
+  if (showtimeCount === 0) return 'drop_to_zero';
+  if (showtimeCount < average * DECLINE_THRESHOLD) return 'sharp_decline';
+  return null;
+}
+
+/**
+ * Showtime counts of a theater's most recent completed runs that started
+ * before the given time. Failed runs are excluded since their count of zero
+ * says nothing about the site.
+ */
+export async function getTrailingCounts(theaterId: string, before: Date): Promise<number[]> {
+  const runs = await prisma.scrapeRun.findMany({
+    where: {
+      theaterId,
+      startedAt: { lt: before },
+      status: { in: ['success', 'empty'] },
+    },
+    orderBy: { startedAt: 'desc' },
+    take: TRAILING_RUNS,
+    select: { showtimeCount: true },
+  });
+  return runs.map((r: { showtimeCount: number }) => r.showtimeCount);
+}
+
+export interface ScrapeRunSummary {
+  status: ScrapeStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  showtimeCount: number;
+  filmCount: number;
+  error: string | null;
+  anomaly: ScrapeAnomaly | null;
+}
+
+export interface TheaterHealth {
+  id: string;
+  name: string;
+  healthy: boolean;
+  lastRun: ScrapeRunSummary | null;
+  lastSuccessAt: Date | null;
+  trailingAverage: number | null;
+}
+
+/**
+ * Current health of each theater's scraper: its latest run, when it last
+ * succeeded, and its trailing average showtime count. A theater is healthy
+ * when its latest run succeeded without an anomaly.
+ */
+export async function getScraperHealth(theaters: TheaterInfo[]): Promise<TheaterHealth[]> {
+  return Promise.all(
+    theaters.map(async (theater) => {
+      const [lastRun, lastSuccess] = await Promise.all([
+        prisma.scrapeRun.findFirst({
+          where: { theaterId: theater.id },
+          orderBy: { startedAt: 'desc' },
+        }),
+        prisma.scrapeRun.findFirst({
+          where: { theaterId: theater.id, status: 'success' },
+          orderBy: { startedAt: 'desc' },
+          select: { finishedAt: true },
+        }),
+      ]);
+      const trailing = await getTrailingCounts(theater.id, new Date());
+
+      return {
+        id: theater.id,
+        name: theater.name,
+        healthy: lastRun?.status === 'success' && !lastRun.anomaly,
+        lastRun: lastRun
+          ? {
+              status: lastRun.status,
+              startedAt: lastRun.startedAt,
+              finishedAt: lastRun.finishedAt,
+              showtimeCount: lastRun.showtimeCount,
+              filmCount: lastRun.filmCount,
+              error: lastRun.error,
+              anomaly: lastRun.anomaly,
+            }
+          : null,
+        lastSuccessAt: lastSuccess?.finishedAt ?? null,
+        trailingAverage: trailingAverage(trailing),
+      };
+    })
+  );
+}
+
+function trailingAverage(counts: number[]): number | null {
+  if (counts.length === 0) return null;
+  return counts.reduce((a, b) => a + b, 0) / counts.length;
+}
@@ -0,0 +1,103 @@
+import { prisma } from '@/lib/prisma';
+import { getTheaterInfo, scrapeAllTheaters } from '@/scrapers';
+import { getFilmAliases, saveTheaterSnapshot, syncTheaters } from '@/lib/showtimeStore';
+import { applyFilmIdentity } from '@/lib/filmIdentity';
+import { detectAnomaly, getTrailingCounts } from '@/lib/scrapeHealth';
+import { ScrapeAnomaly, ScrapeStatus } from '@/app/generated/prisma/client';
+
+export interface ScrapeJobResult {
+  theater: string;
+  status: ScrapeStatus;
+  showtimes: number;
+  films: number;
+  anomaly: ScrapeAnomaly | null;
+  saved: boolean;
+  changes: number; // change events recorded against the previous snapshot
+  error?: string;
+}
+
+/**
+ * Scrape every registered theater, record a ScrapeRun per theater, and
+ * write the results to the database.
+ *
+ * A theater that fails or comes back with zero showtimes keeps its previous
+ * snapshot rather than being wiped, since an empty result almost always
+ * means the site was down or its markup changed. So does one whose count
+ * is flagged as an anomaly: saving a half-empty scrape would record every
+ * missing screening as removed. A theater whose snapshot can't be saved is
+ * recorded as failed and the job moves on to the next.
+ */
+export async function runScrapeJob(): Promise<ScrapeJobResult[]> {
+  const theaters = getTheaterInfo();
+  await syncTheaters(theaters);
+
+  // Open a run per theater up front so a job that dies mid-way leaves
+  // "running" rows behind instead of no trace at all
+  const jobStartedAt = new Date();
+  const runIds = new Map<string, string>();
+  for (const theater of theaters) {
+    const run = await prisma.scrapeRun.create({
+      data: { theaterId: theater.id, startedAt: jobStartedAt },
+    });
+    runIds.set(theater.id, run.id);
+  }
+
+  const scrapeResults = await scrapeAllTheaters();
+  const aliases = await getFilmAliases();
+  const results: ScrapeJobResult[] = [];
+
+  for (const { theater, startedAt, finishedAt, showtimes, error: scrapeError } of scrapeResults) {
+    let error = scrapeError;
+    let status: ScrapeStatus = error ? 'failed' : showtimes.length > 0 ? 'success' : 'empty';
+    applyFilmIdentity(showtimes, aliases);
+    const filmCount = new Set(showtimes.map(s => s.filmKey)).size;
+    const trailingCounts = await getTrailingCounts(theater.id, jobStartedAt);
+    const anomaly = status === 'failed' ? null : detectAnomaly(showtimes.length, trailingCounts);
+
+    if (anomaly) {
+      console.warn(`Scrape job: ${theater.name} anomaly ${anomaly} (${showtimes.length} showtimes)`);
+    }
+
+    let saved = false;
+    let changes = 0;
+    if (status === 'success' && !anomaly) {
+      // A save that throws fails this theater's run, not the whole job
+      try {
+        changes = (await saveTheaterSnapshot(theater, showtimes, finishedAt)).length;
+        saved = true;
+      } catch (saveError) {
+        console.error(`Scrape job: saving ${theater.name} failed:`, saveError);
+        status = 'failed';
+        error = saveError instanceof Error ? saveError.message : String(saveError);
+      }
+    } else {
+      console.warn(`Scrape job: ${theater.name} ${anomaly ?? status}, keeping previous snapshot`);
+    }
+
+    await prisma.scrapeRun.update({
+      where: { id: runIds.get(theater.id)! },
+      data: {
+        startedAt,
+        finishedAt,
+        status,
+        showtimeCount: showtimes.length,
+        filmCount,
+        error: error ?? null,
+        anomaly,
+      },
+    });
+
+    results.push({
+      theater: theater.name,
+      status,
+      showtimes: showtimes.length,
+      films: filmCount,
+      anomaly,
+      saved,
+      changes,
+      error,
+    });
+  }
+
+  return results;
+}
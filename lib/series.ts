@@ -0,0 +1,47 @@
+import { Showtime } from '@/types/showtime';
+import { Series } from '@/types/series';
+import { filmKeyFor } from '@/lib/filmIdentity';
+
+/**
+ * Series and retrospectives. Scrapers mark each showtime with the series
+ * the theater lists it under; the series themselves are assembled from
+ * those marks, so a series runs from its first screening to its last.
+ */
+
+/** "filmforum" + "Italian Neorealism" → "filmforum-italian-neorealism" */
+export function seriesId(theaterId: string, name: string): string {
+  return `${theaterId}-${filmKeyFor(name)}`;
+}
+
+/** What one scrape says about a series. */
+export type ScrapedSeries = Omit<Series, 'theater' | 'showtimeCount'>;
+
+/**
+ * The series a theater's freshly scraped showtimes are part of, each
+ * spanning the dates of its screenings. The first page link and
+ * description found for a series win.
+ */
+export function collectSeries(theaterId: string, showtimes: Showtime[]): ScrapedSeries[] {
+  const byId = new Map<string, ScrapedSeries>();
+  for (const { series, date } of showtimes) {
+    if (!series) continue;
+    const id = seriesId(theaterId, series.name);
+    const existing = byId.get(id);
+    if (!existing) {
+      byId.set(id, {
+        id,
+        name: series.name,
+        ...(series.url ? { url: series.url } : {}),
+        ...(series.description ? { description: series.description } : {}),
+        startDate: date,
+        endDate: date,
+      });
+      continue;
+    }
+    if (!existing.url && series.url) existing.url = series.url;
+    if (!existing.description && series.description) existing.description = series.description;
+    if (date < existing.startDate) existing.startDate = date;
+    if (date > existing.endDate) existing.endDate = date;
+  }
+  return Array.from(byId.values());
+}
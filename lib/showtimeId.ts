@@ -0,0 +1,167 @@
+import { Showtime } from '@/types/showtime';
+import { resolveFilmIdentity } from '@/lib/filmIdentity';
+import { to24Hour } from '@/lib/datetime';
+
+/**
+ * Deterministic showtime IDs.
+ *
+ * A showtime's ID is the theater's own performance ID when the scraper can
+ * see one ("metrograph-perf-48211"); otherwise theater + canonical film key
+ * + start ("filmforum-bitter-rice-2026-02-18-1230"). Either way, a theater
+ * retitling a film or adding a series suffix doesn't mint a new ID.
+ *
+ * The film key here ignores FilmAlias rows, so editing aliases never
+ * changes IDs. Theaters that sometimes have to guess AM/PM key the start on
+ * the 12-hour clock alone ("filmforum-bitter-rice-2026-02-18-0945"), so a
+ * guess that flips between runs doesn't mint a new ID either.
+ */
+
+export interface ShowtimeIdParts {
+  film: string;
+  directors?: string[];
+  date: string;       // ISO date
+  time: string;       // "7:30 PM"
+  timesTba?: boolean;
+  sourceId?: string;  // the theater's performance/ticket ID, if known
+  ignorePeriod?: boolean; // key the start without AM/PM, which may be guessed
+}
+
+export function showtimeId(theaterId: string, parts: ShowtimeIdParts): string {
+  if (parts.sourceId) {
+    return `${theaterId}-perf-${slug(parts.sourceId)}`;
+  }
+  const { filmKey } = resolveFilmIdentity(parts);
+  const start = parts.timesTba
+    ? 'tba'
+    : (parts.ignorePeriod ? clockKey(parts.time) : startKey(parts.time)).replace(':', '');
+  return `${theaterId}-${filmKey}-${parts.date}-${start}`;
+}
+
+/** "7:30 PM" → "19:30"; anything unparseable is returned slugged. */
+function startKey(time: string): string {
+  return to24Hour(time) ?? slug(time);
+}
+
+/** "9:45 PM" → "09:45", "12:30 PM" → "12:30": the 12-hour clock without its period. */
+function clockKey(time: string): string {
+  const clock = to24Hour(time);
+  if (!clock) return slug(time);
+  const hours = parseInt(clock.slice(0, 2), 10) % 12 || 12;
+  return `${String(hours).padStart(2, '0')}${clock.slice(2)}`;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/** What reconciliation needs to know about a previously stored showtime. */
+export interface StoredShowtimeRef {
+  id: string;
+  filmKey: string;
+  date: string;
+  time: string;
+  ticketUrl: string;
+}
+
+/**
+ * Map stored showtime IDs that no longer appear in a fresh scrape onto the
+ * new showtime for the same screening: same date and start time, and the
+ * same film (by key) or the same ticket link (which survives title typo
+ * fixes). Returns old ID → new ID.
+ */
+export function reconcileShowtimeIds(
+  stored: StoredShowtimeRef[],
+  fresh: Showtime[]
+): Map<string, string> {
+  const freshIds = new Set(fresh.map(s => s.id));
+  const mapping = new Map<string, string>();
+
+  for (const old of stored) {
+    if (freshIds.has(old.id)) continue;
+    const oldStart = startKey(old.time);
+    const candidates = fresh.filter(s => s.date === old.date && startKey(s.time) === oldStart);
+    const match =
+      candidates.find(s => (s.filmKey ?? resolveFilmIdentity(s).filmKey) === old.filmKey) ??
+      candidates.find(s => s.ticketUrl === old.ticketUrl);
+    if (match) mapping.set(old.id, match.id);
+  }
+
+  return mapping;
+}
+
+/** What a notification log kept about the screening it was sent for. */
+export interface LoggedShowtimeRef {
+  showtimeId: string;
+  filmTitle: string;
+  date: string;
+}
+
+/**
+ * Map showtime IDs that only survive in notification logs, their rows long
+ * since replaced under an older ID scheme, onto the fresh showtime for the
+ * same screening: same date and film, and the start time read back from
+ * the old ID ("ifc-past-lives-2026-02-18-12:15-pm", "…-2026-02-18-2145").
+ * A bare "0945" may be a 12-hour clock key (see ShowtimeIdParts.ignorePeriod),
+ * so at a theater whose fresh IDs are keyed that way it's compared on the
+ * 12-hour clock. An old ID without a start, or one that fits more than one
+ * screening, matches only when the film screens once that day. Returns old
+ * ID → new ID.
+ */
+export function reconcileLoggedIds(
+  logged: LoggedShowtimeRef[],
+  fresh: Showtime[]
+): Map<string, string> {
+  const freshIds = new Set(fresh.map(s => s.id));
+  const mapping = new Map<string, string>();
+
+  // A PM screening whose ID ends in its 12-hour clock gives the theater away
+  const clockKeyed = new Set(fresh.flatMap((s) => {
+    const clock = clockKey(s.time);
+    return clock !== to24Hour(s.time) && s.id.endsWith(`-${clock.replace(':', '')}`) ? [s.theater] : [];
+  }));
+
+  for (const old of logged) {
+    if (freshIds.has(old.showtimeId)) continue;
+    const { filmKey } = resolveFilmIdentity({ film: old.filmTitle });
+    const candidates = fresh.filter(s =>
+      s.date === old.date &&
+      (s.filmKey === filmKey || resolveFilmIdentity(s).filmKey === filmKey)
+    );
+    const start = startInId(old.showtimeId, old.date);
+    const matches = start
+      ? candidates.filter(s => startMatches(start, s, clockKeyed.has(s.theater)))
+      : candidates;
+    if (matches.length === 1) mapping.set(old.showtimeId, matches[0].id);
+  }
+
+  return mapping;
+}
+
+/** The start at the end of an ID, after its date, as it was written. */
+interface IdStart {
+  clock: string;     // "HH:MM"
+  period?: string;   // "am"/"pm", when the ID spells it out
+}
+
+function startInId(id: string, date: string): IdStart | null {
+  const at = id.indexOf(date);
+  if (at < 0) return null;
+  const match = id.slice(at + date.length).match(/^-(\d{1,2}):?(\d{2})(?:[\s-]*([ap]m))?$/i);
+  if (!match) return null;
+  if (match[3]) return { clock: `${match[1].padStart(2, '0')}:${match[2]}`, period: match[3].toLowerCase() };
+  return match[1].length === 2 ? { clock: `${match[1]}:${match[2]}` } : null;
+}
+
+/**
+ * Whether a start read from an old ID is a showtime's start. A bare start
+ * from 01:00 to 12:59 is read on the 12-hour clock at a clock-keyed
+ * theater; any other is 24-hour.
+ */
+function startMatches(start: IdStart, s: Showtime, clockKeyed: boolean): boolean {
+  const actual = to24Hour(s.time);
+  if (!actual) return false;
+  if (start.period) return to24Hour(`${start.clock} ${start.period}`) === actual;
+  const hours = parseInt(start.clock.slice(0, 2), 10);
+  if (clockKeyed && hours >= 1 && hours <= 12) return start.clock === clockKey(s.time);
+  return start.clock === actual;
+}
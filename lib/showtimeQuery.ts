@@ -0,0 +1,391 @@
+import { Showtime, ShowtimeTag } from '@/types/showtime';
+import { TheaterInfo } from '@/types/theater';
+import { PreferenceLike, matchShowtime, normalize } from '@/lib/matcher';
+import { SHOWTIME_TAGS, parseTag } from '@/lib/tags';
+import { to24Hour } from '@/lib/datetime';
+
+/**
+ * Filtering, facets and pagination for GET /api/showtimes, over the stored
+ * snapshot. Dates, theaters, venues, tags and the cursor are handed to the
+ * database as a ShowtimeFilter; text, time-of-day and preference filters
+ * are applied to the rows it returns.
+ */
+
+export type ShowtimeSort = 'time' | 'film' | 'popularity';
+
+export const SHOWTIME_SORTS: ShowtimeSort[] = ['time', 'film', 'popularity'];
+
+export const DEFAULT_LIMIT = 500;
+export const MAX_LIMIT = 2000;
+
+const PREFERENCE_TYPES = ['director', 'film', 'actor', 'tag', 'series'];
+
+export interface ShowtimeQuery {
+  from?: string;               // first date, inclusive (YYYY-MM-DD)
+  to?: string;                 // last date, inclusive
+  theaters?: string[];         // theater names; any of them
+  venues?: string[];           // venue names; any of them
+  q?: string;                  // every word appears in the titles, credits, series or festival
+  tags?: ShowtimeTag[];        // any of them
+  after?: string;              // starts at or after, "HH:MM" 24-hour
+  before?: string;             // starts before, "HH:MM" 24-hour
+  match?: PreferenceLike[];    // matches any, by the notification rules (lib/matcher)
+  sort: ShowtimeSort;
+  cursor?: SortKey;            // the last showtime of the previous page
+  limit: number;
+}
+
+/**
+ * Distinct films per facet value, each counted with every filter applied
+ * except its own — so a theater tab shows what picking it would give.
+ */
+export interface ShowtimeFacets {
+  theaters: Record<string, number>;           // by theater name; ignores the theater and venue filters
+  venues: Record<string, number>;             // by venue name; ignores the venue filter
+  dates: Record<string, number>;              // by date; ignores from and to
+  tags: Partial<Record<ShowtimeTag, number>>; // ignores the tag filter
+}
+
+export interface ShowtimePage {
+  showtimes: Showtime[];
+  total: number;              // showtimes matching the filters, across all pages
+  nextCursor: string | null;  // pass as `cursor` for the next page; null on the last
+  facets: ShowtimeFacets;
+}
+
+/**
+ * The part of a query the database applies. Rows before today are never
+ * read.
+ */
+export interface ShowtimeFilter {
+  from?: string;
+  to?: string;
+  theaters?: string[];        // theater names
+  venues?: string[];
+  tags?: ShowtimeTag[];       // any of them
+  popularityAtMost?: number;  // no popularity counts as -1
+}
+
+/** The fields of a showtime that facets and totals are counted over. */
+export type FacetRow = Pick<Showtime, 'film' | 'filmKey' | 'theater' | 'venue' | 'date' | 'tags'>;
+
+/** Where findShowtimes reads the snapshot (lib/showtimeStore in the API). */
+export interface ShowtimeSource {
+  showtimes(filter: ShowtimeFilter): Promise<Showtime[]>;
+  facetRows(filter: ShowtimeFilter): Promise<FacetRow[]>;
+}
+
+/**
+ * Read a query from URL parameters. List parameters (theater, venue, tag,
+ * match) may repeat or be comma-separated; theaters may be given by ID or
+ * name.
+ */
+export function parseShowtimeQuery(
+  params: URLSearchParams,
+  theaters: TheaterInfo[]
+): { query: ShowtimeQuery } | { error: string } {
+  const list = (name: string) => params.getAll(name).flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+
+  const from = params.get('from') ?? undefined;
+  const to = params.get('to') ?? undefined;
+  for (const [name, date] of [['from', from], ['to', to]]) {
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return { error: `${name} must be a date (YYYY-MM-DD)` };
+    }
+  }
+
+  const theaterNames: string[] = [];
+  for (const value of list('theater')) {
+    const theater = theaters.find(t => t.id === value || t.name === value);
+    if (!theater) return { error: `Unknown theater: ${value}` };
+    theaterNames.push(theater.name);
+  }
+
+  const tags: ShowtimeTag[] = [];
+  for (const value of list('tag')) {
+    const tag = parseTag(value);
+    if (!tag) return { error: `Unknown tag: ${value}` };
+    tags.push(tag);
+  }
+
+  const window: Record<'after' | 'before', string | undefined> = { after: undefined, before: undefined };
+  for (const name of ['after', 'before'] as const) {
+    const value = params.get(name);
+    if (value === null) continue;
+    const clock = /^([01]?\d|2[0-3]):[0-5]\d$/.test(value) ? value.padStart(5, '0') : to24Hour(value);
+    if (!clock) return { error: `${name} must be a time of day, e.g. 17:30 or 5:30 PM` };
+    window[name] = clock;
+  }
+
+  // Preference rules, e.g. match=director:Agnès Varda (not comma-split: values may hold commas)
+  const match: PreferenceLike[] = [];
+  for (const value of params.getAll('match')) {
+    const [type, ...rest] = value.split(':');
+    if (!PREFERENCE_TYPES.includes(type) || !rest.join(':').trim()) {
+      return { error: `Invalid match: ${value} (expected type:value, e.g. director:Agnès Varda)` };
+    }
+    match.push({ type: type as PreferenceLike['type'], value: rest.join(':').trim() });
+  }
+
+  const sort = (params.get('sort') ?? 'time') as ShowtimeSort;
+  if (!SHOWTIME_SORTS.includes(sort)) {
+    return { error: `Invalid sort: ${sort} (expected ${SHOWTIME_SORTS.join(', ')})` };
+  }
+
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: 'limit must be a positive integer' };
+  }
+
+  const cursorParam = params.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam, sort) : undefined;
+  if (cursor === null) return { error: 'Invalid cursor' };
+
+  return {
+    query: {
+      ...(from ? { from } : {}),
+      ...(to ? { to } : {}),
+      ...(theaterNames.length ? { theaters: theaterNames } : {}),
+      ...(list('venue').length ? { venues: list('venue') } : {}),
+      ...(params.get('q')?.trim() ? { q: params.get('q')!.trim() } : {}),
+      ...(tags.length ? { tags } : {}),
+      ...(window.after ? { after: window.after } : {}),
+      ...(window.before ? { before: window.before } : {}),
+      ...(match.length ? { match } : {}),
+      sort,
+      ...(cursor ? { cursor } : {}),
+      limit: Math.min(limit, MAX_LIMIT),
+    },
+  };
+}
+
+type Facet = 'theater' | 'venue' | 'date' | 'tag';
+
+/** One filter of a query, labeled with the facet it narrows, if any. */
+interface Filter {
+  facet?: Facet;
+  test: (s: Showtime) => boolean;
+}
+
+function filtersOf(query: ShowtimeQuery): Filter[] {
+  const filters: Filter[] = [];
+  const { from, to, theaters, venues, q, tags, after, before, match } = query;
+
+  if (from) filters.push({ facet: 'date', test: s => s.date >= from });
+  if (to) filters.push({ facet: 'date', test: s => s.date <= to });
+  if (theaters) filters.push({ facet: 'theater', test: s => theaters.includes(s.theater) });
+  if (venues) filters.push({ facet: 'venue', test: s => !!s.venue && venues.includes(s.venue) });
+  if (tags) filters.push({ facet: 'tag', test: s => !!s.tags?.some(tag => tags.includes(tag)) });
+  if (q) {
+    const words = normalize(q).split(/\s+/).filter(Boolean);
+    filters.push({
+      test: (s) => {
+        const text = searchText(s);
+        return words.every(word => text.includes(word));
+      },
+    });
+  }
+  if (after || before) {
+    filters.push({
+      test: (s) => {
+        const start = to24Hour(s.time);
+        return !!start && (!after || start >= after) && (!before || start < before);
+      },
+    });
+  }
+  if (match) filters.push({ test: s => matchShowtime(s, match).length > 0 });
+
+  return filters;
+}
+
+/**
+ * The filter the database applies for a query, leaving out the facets
+ * named.
+ */
+function filterOf(query: ShowtimeQuery, except: Facet[]): ShowtimeFilter {
+  const filter: ShowtimeFilter = {};
+  if (!except.includes('date')) {
+    if (query.from) filter.from = query.from;
+    if (query.to) filter.to = query.to;
+  }
+  if (query.theaters && !except.includes('theater')) filter.theaters = query.theaters;
+  if (query.venues && !except.includes('venue')) filter.venues = query.venues;
+  if (query.tags && !except.includes('tag')) filter.tags = query.tags;
+  return filter;
+}
+
+/**
+ * Narrow a filter to the rows that can follow the cursor. Film titles are
+ * compared normalized, so the film order is only cut in memory.
+ */
+function afterCursor(filter: ShowtimeFilter, query: ShowtimeQuery): ShowtimeFilter {
+  const first = query.cursor?.[0];
+  if (query.sort === 'time' && typeof first === 'string') {
+    return { ...filter, from: filter.from && filter.from > first ? filter.from : first };
+  }
+  if (query.sort === 'popularity' && typeof first === 'number') {
+    return { ...filter, popularityAtMost: -first };
+  }
+  return filter;
+}
+
+/**
+ * Run a query against the snapshot: filter, sort, take the page after the
+ * cursor, and count facets. Facets and totals are counted over FacetRows
+ * unless the query has filters only full showtimes can answer.
+ */
+export async function findShowtimes(query: ShowtimeQuery, source: ShowtimeSource): Promise<ShowtimePage> {
+  const filters = filtersOf(query);
+  const inMemory = filters.filter(f => !f.facet);
+
+  // Several facets often share a filter (e.g. when no venue is picked)
+  const loaded = new Map<string, Promise<FacetRow[]>>();
+  const rowsWithout = (except: Facet[]) => {
+    const filter = filterOf(query, except);
+    const key = JSON.stringify(filter);
+    if (!loaded.has(key)) {
+      loaded.set(key, inMemory.length === 0
+        ? source.facetRows(filter)
+        : source.showtimes(filter).then(rows => rows.filter(s => inMemory.every(f => f.test(s)))));
+    }
+    return loaded.get(key)!;
+  };
+
+  const [candidates, byTheater, byVenue, byDate, byTag] = await Promise.all([
+    source.showtimes(afterCursor(filterOf(query, []), query)),
+    rowsWithout(['theater', 'venue']),
+    rowsWithout(['venue']),
+    rowsWithout(['date']),
+    rowsWithout(['tag']),
+  ]);
+
+  const matching = candidates
+    .filter(s => filters.every(f => f.test(s)))
+    .map(s => ({ s, key: sortKey(s, query.sort) }))
+    .filter(({ key }) => !query.cursor || compareKeys(key, query.cursor) > 0);
+  matching.sort((a, b) => compareKeys(a.key, b.key));
+  const page = matching.slice(0, query.limit);
+
+  const { tags } = query;
+  return {
+    showtimes: page.map(({ s }) => s),
+    total: tags ? byTag.filter(s => s.tags?.some(tag => tags.includes(tag))).length : byTag.length,
+    nextCursor: matching.length > query.limit ? encodeCursor(page[page.length - 1].key) : null,
+    facets: {
+      theaters: filmCounts(byTheater, s => s.theater),
+      venues: filmCounts(byVenue, s => s.venue),
+      dates: filmCounts(byDate, s => s.date),
+      tags: tagCounts(byTag),
+    },
+  };
+}
+
+/** One page of a query from the client. */
+export async function fetchShowtimePage(
+  params: URLSearchParams
+): Promise<ShowtimePage & { theaters: TheaterInfo[]; timestamp: string }> {
+  const res = await fetch(`/api/showtimes?${params}`);
+  if (!res.ok) throw new Error('Failed to fetch showtimes');
+  const data = await res.json();
+  return { ...data, showtimes: data.showtimes ?? [], theaters: data.theaters ?? [] };
+}
+
+/**
+ * Every page of a query from the client, following cursors. Facets and
+ * totals come from the first page.
+ */
+export async function fetchAllShowtimes(
+  params: URLSearchParams
+): Promise<Omit<ShowtimePage, 'nextCursor'> & { theaters: TheaterInfo[]; timestamp: string }> {
+  const first = await fetchShowtimePage(params);
+  const showtimes = [...first.showtimes];
+  let cursor = first.nextCursor;
+  while (cursor) {
+    const pageParams = new URLSearchParams(params);
+    pageParams.set('cursor', cursor);
+    const page = await fetchShowtimePage(pageParams);
+    showtimes.push(...page.showtimes);
+    cursor = page.nextCursor;
+  }
+
+  return {
+    showtimes,
+    total: first.total,
+    facets: first.facets,
+    theaters: first.theaters,
+    timestamp: first.timestamp,
+  };
+}
+
+/** Position of a showtime in a sort order; the ID breaks ties. */
+type SortKey = (string | number)[];
+
+function sortKey(s: Showtime, sort: ShowtimeSort): SortKey {
+  const start = to24Hour(s.time) ?? '99:99'; // "Times TBA" after every real time
+  switch (sort) {
+    case 'film':
+      return [normalize(s.filmTitle ?? s.film), s.date, start, s.id];
+    case 'popularity':
+      return [-(s.popularity ?? -1), s.date, start, s.id];
+    default:
+      return [s.date, start, s.id];
+  }
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return -1;
+    if (a[i] > b[i]) return 1;
+  }
+  return 0;
+}
+
+function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/** The sort key in a cursor, or null if it isn't one for this sort order. */
+function decodeCursor(cursor: string, sort: ShowtimeSort): SortKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const shape = sortKey({ id: '', film: '', theater: '', date: '', time: '', ticketUrl: '' }, sort);
+    const valid = Array.isArray(key) && key.length === shape.length &&
+      key.every((part, i) => typeof part === typeof shape[i]);
+    return valid ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Titles, credits, series and festival, normalized for q. */
+function searchText(s: Showtime): string {
+  return normalize([
+    s.film,
+    s.filmTitle ?? '',
+    ...(s.directors ?? []),
+    ...(s.cast ?? []),
+    ...(s.program ?? []).flatMap(film => [film.title, ...(film.directors ?? [])]),
+    s.series?.name ?? '',
+    s.event ?? '',
+  ].join(' '));
+}
+
+function filmCounts(showtimes: FacetRow[], valueOf: (s: FacetRow) => string | undefined): Record<string, number> {
+  const films = new Map<string, Set<string>>();
+  for (const s of showtimes) {
+    const value = valueOf(s);
+    if (!value) continue;
+    if (!films.has(value)) films.set(value, new Set());
+    films.get(value)!.add(s.filmKey ?? s.film);
+  }
+  return Object.fromEntries(Array.from(films, ([value, keys]) => [value, keys.size]));
+}
+
+function tagCounts(showtimes: FacetRow[]): Partial<Record<ShowtimeTag, number>> {
+  const counts: Partial<Record<ShowtimeTag, number>> = {};
+  for (const tag of SHOWTIME_TAGS) {
+    const films = new Set(showtimes.filter(s => s.tags?.includes(tag)).map(s => s.filmKey ?? s.film));
+    if (films.size > 0) counts[tag] = films.size;
+  }
+  return counts;
+}
@@ -0,0 +1,417 @@
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/app/generated/prisma/client';
+import { FilmAliases, resolveFilmIdentity } from '@/lib/filmIdentity';
+import { reconcileLoggedIds, reconcileShowtimeIds } from '@/lib/showtimeId';
+import { localDate } from '@/lib/datetime';
+import { collectSeries, seriesId } from '@/lib/series';
+import { DetectedChange, detectChanges } from '@/lib/changes';
+import { FacetRow, ShowtimeFilter } from '@/lib/showtimeQuery';
+import { sortShowtimes } from '@/scrapers';
+import { ProgramFilm, Showtime, ShowtimeTag } from '@/types/showtime';
+import { TheaterInfo } from '@/types/theater';
+import { Series } from '@/types/series';
+import { ShowtimeChange, ShowtimeChangeType } from '@/types/change';
+
+/**
+ * Upsert the registered theaters so snapshots and scrape runs can
+ * reference them.
+ */
+export async function syncTheaters(theaters: TheaterInfo[]): Promise<void> {
+  for (const theater of theaters) {
+    const data = {
+      name: theater.name,
+      neighborhood: theater.neighborhood,
+      website: theater.website,
+    };
+    await prisma.theater.upsert({
+      where: { id: theater.id },
+      update: data,
+      create: { id: theater.id, ...data },
+    });
+  }
+}
+
+/**
+ * Replace the stored snapshot for one theater with freshly scraped showtimes.
+ *
+ * The theater row must already exist (see syncTheaters). Films are upserted
+ * by canonical film key, showtimes by their scraper ID, and any of the
+ * theater's rows that didn't appear in this scrape are removed, after
+ * carrying their notification logs over to a matching new ID (as are logs
+ * for IDs dropped in earlier scrapes). What changed
+ * since the previous snapshot is recorded as ShowtimeChange rows and
+ * returned. All of it runs in one transaction so readers never see a
+ * half-written snapshot.
+ */
+export async function saveTheaterSnapshot(
+  theater: TheaterInfo,
+  showtimes: Showtime[],
+  scrapedAt: Date = new Date()
+): Promise<DetectedChange[]> {
+  return prisma.$transaction(
+    async (tx) => {
+      const previous = await tx.showtime.findMany({
+        where: { theaterId: theater.id },
+        select: {
+          id: true,
+          date: true,
+          time: true,
+          startsAt: true,
+          timesTba: true,
+          timeGuessed: true,
+          ticketUrl: true,
+          film: { select: { key: true, title: true } },
+        },
+      });
+      const previousRefs = previous.map(row => ({ ...row, filmKey: row.film.key, filmTitle: row.film.title }));
+      const changes = detectChanges(previousRefs, showtimes, scrapedAt);
+
+      // Upsert each distinct film once
+      const filmIds = new Map<string, string>();
+      for (const s of showtimes) {
+        const { filmKey: key, filmTitle } = identityOf(s);
+        if (filmIds.has(key)) continue;
+        const film = await tx.film.upsert({
+          where: { key },
+          update: {
+            title: filmTitle,
+            imageUrl: s.imageUrl ?? undefined,
+            description: s.description ?? undefined,
+            directors: s.directors?.length ? s.directors : undefined,
+            cast: s.cast?.length ? s.cast : undefined,
+            year: s.year ?? undefined,
+            runtimeMinutes: s.runtimeMinutes ?? undefined,
+            country: s.country ?? undefined,
+            language: s.language ?? undefined,
+          },
+          create: {
+            key,
+            title: filmTitle,
+            imageUrl: s.imageUrl ?? null,
+            description: s.description ?? null,
+            directors: s.directors ?? [],
+            cast: s.cast ?? [],
+            year: s.year ?? null,
+            runtimeMinutes: s.runtimeMinutes ?? null,
+            country: s.country ?? null,
+            language: s.language ?? null,
+          },
+        });
+        filmIds.set(key, film.id);
+      }
+
+      // Upsert the series the showtimes are part of. Screenings already
+      // shown drop out of the snapshot, so keep the earliest start seen.
+      for (const series of collectSeries(theater.id, showtimes)) {
+        const existing = await tx.series.findUnique({ where: { id: series.id }, select: { startDate: true } });
+        const data = {
+          theaterId: theater.id,
+          name: series.name,
+          url: series.url ?? null,
+          description: series.description ?? null,
+          startDate: existing && existing.startDate < series.startDate ? existing.startDate : series.startDate,
+          endDate: series.endDate,
+        };
+        await tx.series.upsert({
+          where: { id: series.id },
+          update: data,
+          create: { id: series.id, ...data },
+        });
+      }
+
+      for (const s of showtimes) {
+        const data = {
+          theaterId: theater.id,
+          filmId: filmIds.get(identityOf(s).filmKey)!,
+          title: s.film,
+          date: s.date,
+          time: s.time,
+          startsAt: s.startsAt ? new Date(s.startsAt) : null,
+          timesTba: s.timesTba ?? false,
+          timeGuessed: s.timeGuessed ?? false,
+          ticketUrl: s.ticketUrl,
+          imageUrl: s.imageUrl ?? null,
+          description: s.description ?? null,
+          venue: s.venue ?? null,
+          event: s.event ?? null,
+          program: s.program ? (s.program as unknown as Prisma.InputJsonArray) : Prisma.DbNull,
+          format: s.format ?? null,
+          tags: s.tags ?? [],
+          seriesId: s.series ? seriesId(theater.id, s.series.name) : null,
+          availability: s.availability ?? null,
+          popularity: s.popularity ?? null,
+          ticketsAvailable: s.ticketsAvailable ?? null,
+          totalCapacity: s.totalCapacity ?? null,
+          scrapedAt,
+        };
+        await tx.showtime.upsert({
+          where: { id: s.id },
+          update: data,
+          create: { id: s.id, ...data },
+        });
+      }
+
+      // Rows about to be dropped may be the same screening under an old ID
+      // (a retitled film, or IDs from before the current scheme). Point
+      // their notification logs at the new ID so nobody is re-notified.
+      const freshIds = new Set(showtimes.map(s => s.id));
+      const renamed = reconcileShowtimeIds(
+        previousRefs.filter(row => !freshIds.has(row.id)),
+        showtimes
+      );
+      await moveNotificationLogs(tx, renamed);
+      if (renamed.size > 0) {
+        console.log(`${theater.name}: reconciled ${renamed.size} showtime IDs`);
+      }
+
+      // Logs can also point at IDs whose rows were dropped scrapes ago,
+      // under an older scheme; match those on what the log kept
+      const knownIds = new Set([...freshIds, ...previousRefs.map(row => row.id)]);
+      const orphaned = await tx.notificationLog.findMany({
+        where: {
+          theater: theater.name,
+          date: { gte: localDate(scrapedAt) },
+          showtimeId: { notIn: Array.from(knownIds) },
+        },
+        select: { showtimeId: true, filmTitle: true, date: true },
+        distinct: ['showtimeId'],
+      });
+      const adopted = reconcileLoggedIds(orphaned, showtimes);
+      await moveNotificationLogs(tx, adopted);
+      if (adopted.size > 0) {
+        console.log(`${theater.name}: reconciled ${adopted.size} notified showtime IDs`);
+      }
+
+      // Drop screenings the theater no longer lists
+      await tx.showtime.deleteMany({
+        where: {
+          theaterId: theater.id,
+          id: { notIn: showtimes.map(s => s.id) },
+        },
+      });
+
+      await tx.showtimeChange.createMany({
+        data: changes.map(change => ({ theaterId: theater.id, detectedAt: scrapedAt, ...change })),
+      });
+      return changes;
+    },
+    { timeout: 60_000 }
+  );
+}
+
+/**
+ * Load the stored snapshot of showtimes from today onward, sorted by date
+ * and time, optionally narrowed by a filter (see lib/showtimeQuery).
+ */
+export async function getStoredShowtimes(filter: ShowtimeFilter = {}): Promise<Showtime[]> {
+  const rows = await prisma.showtime.findMany({
+    where: showtimeWhere(filter),
+    include: { theater: true, film: true, series: true },
+  });
+
+  const showtimes: Showtime[] = rows.map(row => ({
+    id: row.id,
+    film: row.title,
+    filmKey: row.film.key,
+    filmTitle: row.film.title,
+    theater: row.theater.name,
+    date: row.date,
+    time: row.time,
+    startsAt: row.startsAt?.toISOString(),
+    timesTba: row.timesTba || undefined,
+    timeGuessed: row.timeGuessed || undefined,
+    ticketUrl: row.ticketUrl,
+    imageUrl: row.imageUrl ?? row.film.imageUrl ?? undefined,
+    description: row.description ?? row.film.description ?? undefined,
+    directors: row.film.directors.length ? row.film.directors : undefined,
+    cast: row.film.cast.length ? row.film.cast : undefined,
+    year: row.film.year ?? undefined,
+    runtimeMinutes: row.film.runtimeMinutes ?? undefined,
+    country: row.film.country ?? undefined,
+    language: row.film.language ?? undefined,
+    venue: row.venue ?? undefined,
+    event: row.event ?? undefined,
+    series: row.series
+      ? { name: row.series.name, ...(row.series.url ? { url: row.series.url } : {}) }
+      : undefined,
+    program: (row.program as unknown as ProgramFilm[] | null) ?? undefined,
+    format: row.format ?? undefined,
+    tags: row.tags.length ? (row.tags as ShowtimeTag[]) : undefined,
+    availability: row.availability ?? undefined,
+    popularity: row.popularity ?? undefined,
+    ticketsAvailable: row.ticketsAvailable ?? undefined,
+    totalCapacity: row.totalCapacity ?? undefined,
+  }));
+
+  return sortShowtimes(showtimes);
+}
+
+/**
+ * The fields facets are counted over for the stored showtimes a filter
+ * matches, without loading films and series.
+ */
+export async function getShowtimeFacetRows(filter: ShowtimeFilter = {}): Promise<FacetRow[]> {
+  const rows = await prisma.showtime.findMany({
+    where: showtimeWhere(filter),
+    select: {
+      title: true,
+      date: true,
+      venue: true,
+      tags: true,
+      theater: { select: { name: true } },
+      film: { select: { key: true } },
+    },
+  });
+
+  return rows.map(row => ({
+    film: row.title,
+    filmKey: row.film.key,
+    theater: row.theater.name,
+    date: row.date,
+    venue: row.venue ?? undefined,
+    tags: row.tags.length ? (row.tags as ShowtimeTag[]) : undefined,
+  }));
+}
+
+/** A ShowtimeFilter as a Prisma query, never reaching back before today. */
+function showtimeWhere(filter: ShowtimeFilter): Prisma.ShowtimeWhereInput {
+  const today = localDate();
+  const { from, to, theaters, venues, tags, popularityAtMost } = filter;
+  return {
+    date: { gte: from && from > today ? from : today, ...(to ? { lte: to } : {}) },
+    ...(theaters ? { theater: { name: { in: theaters } } } : {}),
+    ...(venues ? { venue: { in: venues } } : {}),
+    ...(tags ? { tags: { hasSome: tags } } : {}),
+    ...(popularityAtMost !== undefined
+      ? {
+          OR: [
+            { popularity: { lte: popularityAtMost } },
+            ...(popularityAtMost >= -1 ? [{ popularity: null }] : []),
+          ],
+        }
+      : {}),
+  };
+}
+
+/**
+ * Series and retrospectives with screenings from today onward, across all
+ * theaters, soonest-ending first.
+ */
+export async function getCurrentSeries(): Promise<Series[]> {
+  const today = localDate();
+  const upcoming = { date: { gte: today } };
+  const rows = await prisma.series.findMany({
+    where: { showtimes: { some: upcoming } },
+    include: { theater: true, _count: { select: { showtimes: { where: upcoming } } } },
+    orderBy: [{ endDate: 'asc' }, { name: 'asc' }],
+  });
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    theater: row.theater.name,
+    url: row.url ?? undefined,
+    description: row.description ?? undefined,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    showtimeCount: row._count.showtimes,
+  }));
+}
+
+export interface ChangeFilter {
+  since: Date;
+  theaterIds?: string[];
+  types?: ShowtimeChangeType[];
+  limit?: number;
+}
+
+/** Changes detected since a given time, newest first. */
+export async function getShowtimeChanges({ since, theaterIds, types, limit }: ChangeFilter): Promise<ShowtimeChange[]> {
+  const rows = await prisma.showtimeChange.findMany({
+    where: {
+      detectedAt: { gte: since },
+      ...(theaterIds?.length ? { theaterId: { in: theaterIds } } : {}),
+      ...(types?.length ? { type: { in: types } } : {}),
+    },
+    include: { theater: { select: { name: true } } },
+    orderBy: [{ detectedAt: 'desc' }, { date: 'asc' }, { time: 'asc' }],
+    take: limit,
+  });
+
+  return rows.map(row => ({
+    id: row.id,
+    type: row.type,
+    theater: row.theater.name,
+    filmKey: row.filmKey,
+    filmTitle: row.filmTitle,
+    showtimeId: row.showtimeId ?? undefined,
+    previousShowtimeId: row.previousShowtimeId ?? undefined,
+    date: row.date ?? undefined,
+    time: row.time ?? undefined,
+    previousDate: row.previousDate ?? undefined,
+    previousTime: row.previousTime ?? undefined,
+    ticketUrl: row.ticketUrl ?? undefined,
+    detectedAt: row.detectedAt.toISOString(),
+  }));
+}
+
+/**
+ * When the stored snapshot was last refreshed, or null if nothing has been
+ * scraped yet.
+ */
+export async function getLastScrapedAt(): Promise<Date | null> {
+  const result = await prisma.showtime.aggregate({ _max: { scrapedAt: true } });
+  return result._max.scrapedAt;
+}
+
+/**
+ * When each theater's snapshot was last saved, by theater name. Every save
+ * stamps all of the theater's rows, so that's its latest scrapedAt.
+ */
+export async function getSnapshotTimes(): Promise<Map<string, Date>> {
+  const [latest, theaters] = await Promise.all([
+    prisma.showtime.groupBy({ by: ['theaterId'], _max: { scrapedAt: true } }),
+    prisma.theater.findMany({ select: { id: true, name: true } }),
+  ]);
+  const names = new Map(theaters.map(t => [t.id, t.name]));
+  return new Map(latest.flatMap(row =>
+    row._max.scrapedAt && names.has(row.theaterId) ? [[names.get(row.theaterId)!, row._max.scrapedAt] as const] : []
+  ));
+}
+
+/** Load the manual film-identity fixes, keyed by automatic film key. */
+export async function getFilmAliases(): Promise<FilmAliases> {
+  const rows = await prisma.filmAlias.findMany();
+  return new Map(rows.map(row => [row.alias, { filmKey: row.filmKey, title: row.title }]));
+}
+
+/**
+ * Point notification logs at new showtime IDs (old ID → new ID). A log the
+ * subscriber already has under the new ID is dropped instead.
+ */
+async function moveNotificationLogs(tx: Prisma.TransactionClient, renamed: Map<string, string>): Promise<void> {
+  for (const [oldId, newId] of renamed) {
+    const logs = await tx.notificationLog.findMany({
+      where: { showtimeId: oldId },
+      select: { id: true, subscriberId: true },
+    });
+    for (const log of logs) {
+      const existing = await tx.notificationLog.findUnique({
+        where: { subscriberId_showtimeId: { subscriberId: log.subscriberId, showtimeId: newId } },
+      });
+      if (existing) {
+        await tx.notificationLog.delete({ where: { id: log.id } });
+      } else {
+        await tx.notificationLog.update({ where: { id: log.id }, data: { showtimeId: newId } });
+      }
+    }
+  }
+}
+
+/** A showtime's film identity, resolving it if the caller hasn't. */
+function identityOf(s: Showtime): { filmKey: string; filmTitle: string } {
+  return s.filmKey && s.filmTitle
+    ? { filmKey: s.filmKey, filmTitle: s.filmTitle }
+    : resolveFilmIdentity(s);
+}
+
@@ -0,0 +1,84 @@
+import { Showtime, ShowtimeTag } from '@/types/showtime';
+
+/**
+ * Special-event tags. Theaters announce Q&As, intros, print formats and
+ * premieres in titles, series names, descriptions and format lines rather
+ * than in any structured field, so the tags are read from that text after
+ * every scrape.
+ */
+
+/** Display label of each tag, in the order chips and filters list them. */
+export const TAG_LABELS: Record<ShowtimeTag, string> = {
+  qa: 'Q&A',
+  intro: 'Intro',
+  '35mm': '35mm',
+  '70mm': '70mm',
+  premiere: 'Premiere',
+  'members-only': 'Members Only',
+  'open-captions': 'Open Captions',
+};
+
+export const SHOWTIME_TAGS = Object.keys(TAG_LABELS) as ShowtimeTag[];
+
+/** Tags for the event itself, read from the title, event, series and description. */
+const EVENT_PATTERNS: Partial<Record<ShowtimeTag, RegExp>> = {
+  qa: /\bQ\s*(?:&(?:amp;)?|and)\s*A\b|\bin conversation\b|\btalkback\b|\bpost-screening discussion\b/i,
+  intro: /\bintroduc(?:ed|tion|es)\s+by\b|\bintros?\s+(?:by|from)\b|\bwith (?:an? )?(?:in-person )?intro(?:duction)?s?\b|\bin-person intro(?:duction)?s?\b/i,
+  premiere: /\bpremi[eè]re\b/i,
+  'members-only': /\bmembers?[-\s]only\b|\bmembers'? screening\b/i,
+  'open-captions': /\bopen[-\s]caption(?:ed|s|ing)?\b/i,
+};
+
+/** Print formats, read from the format line when the theater gives one. */
+const FORMAT_PATTERNS: Partial<Record<ShowtimeTag, RegExp>> = {
+  '35mm': /\b35\s?mm\b/i,
+  '70mm': /\b70\s?mm\b/i,
+};
+
+/**
+ * The tags a showtime's listing supports, in SHOWTIME_TAGS order. Cues are
+ * read from the title, event, series name ("Ozu in 35mm", "Directors
+ * in Person: Q&A Series") and description.
+ *
+ * Print formats come from `format` (and the formats of a program's films)
+ * when any is known, since a synopsis saying "shot on 35mm" says nothing
+ * about the projection; otherwise from the text.
+ */
+export function extractTags(showtime: Showtime): ShowtimeTag[] {
+  const text = [showtime.film, showtime.event, showtime.series?.name, showtime.description].filter(Boolean).join(' · ');
+  const formats = [showtime.format, ...(showtime.program ?? []).map(film => film.format)].filter(Boolean);
+  const formatText = formats.length ? formats.join(' · ') : text;
+
+  return SHOWTIME_TAGS.filter(tag => {
+    const event = EVENT_PATTERNS[tag];
+    const format = FORMAT_PATTERNS[tag];
+    return (event && event.test(text)) || (format && format.test(formatText));
+  });
+}
+
+/**
+ * Add extracted tags to each showtime, keeping any the scraper set itself.
+ * Updates the showtimes in place.
+ */
+export function applyTags(showtimes: Showtime[]): Showtime[] {
+  for (const showtime of showtimes) {
+    const tags = new Set([...(showtime.tags ?? []), ...extractTags(showtime)]);
+    if (tags.size > 0) {
+      showtime.tags = SHOWTIME_TAGS.filter(tag => tags.has(tag));
+    }
+  }
+  return showtimes;
+}
+
+/**
+ * Read a tag from user input, by id or label: "qa", "Q&A", "35 mm",
+ * "Members only". Returns undefined for anything else.
+ */
+export function parseTag(value: string): ShowtimeTag | undefined {
+  const key = squash(value);
+  return SHOWTIME_TAGS.find(tag => squash(tag) === key || squash(TAG_LABELS[tag]) === key);
+}
+
+function squash(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
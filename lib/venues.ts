@@ -0,0 +1,18 @@
+import { Showtime } from '@/types/showtime';
+import { TheaterInfo, VenueInfo } from '@/types/theater';
+
+/**
+ * The venue a showtime is at: the one it names, or the theater's only
+ * venue when it has just one. Undefined when the theater doesn't say which
+ * of several it is.
+ */
+export function venueOf(theater: TheaterInfo | undefined, showtime: Pick<Showtime, 'venue'>): VenueInfo | undefined {
+  const venues = theater?.venues ?? [];
+  if (showtime.venue) return venues.find(v => v.name === showtime.venue);
+  return venues.length === 1 ? venues[0] : undefined;
+}
+
+/** "136 Metropolitan Ave, Brooklyn", or whichever half is known. */
+export function venueAddress(venue: VenueInfo): string {
+  return [venue.address, venue.borough].filter(Boolean).join(', ');
+}
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "Theater" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "neighborhood" TEXT NOT NULL,
+    "website" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Theater_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Film" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "imageUrl" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Film_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Showtime" (
+    "id" TEXT NOT NULL,
+    "theaterId" TEXT NOT NULL,
+    "filmId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "time" TEXT NOT NULL,
+    "ticketUrl" TEXT NOT NULL,
+    "imageUrl" TEXT,
+    "description" TEXT,
+    "popularity" INTEGER,
+    "ticketsAvailable" INTEGER,
+    "totalCapacity" INTEGER,
+    "scrapedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Showtime_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Theater_name_key" ON "Theater"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Film_key_key" ON "Film"("key");
+
+-- CreateIndex
+CREATE INDEX "Showtime_date_idx" ON "Showtime"("date");
+
+-- CreateIndex
+CREATE INDEX "Showtime_theaterId_date_idx" ON "Showtime"("theaterId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Showtime" ADD CONSTRAINT "Showtime_theaterId_fkey" FOREIGN KEY ("theaterId") REFERENCES "Theater"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Showtime" ADD CONSTRAINT "Showtime_filmId_fkey" FOREIGN KEY ("filmId") REFERENCES "Film"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ScrapeStatus" AS ENUM ('running', 'success', 'empty', 'failed');
+
+-- CreateEnum
+CREATE TYPE "ScrapeAnomaly" AS ENUM ('drop_to_zero', 'sharp_decline');
+
+-- CreateTable
+CREATE TABLE "ScrapeRun" (
+    "id" TEXT NOT NULL,
+    "theaterId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "status" "ScrapeStatus" NOT NULL DEFAULT 'running',
+    "showtimeCount" INTEGER NOT NULL DEFAULT 0,
+    "filmCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "anomaly" "ScrapeAnomaly",
+
+    CONSTRAINT "ScrapeRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScrapeRun_theaterId_startedAt_idx" ON "ScrapeRun"("theaterId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "ScrapeRun" ADD CONSTRAINT "ScrapeRun_theaterId_fkey" FOREIGN KEY ("theaterId") REFERENCES "Theater"("id") ON DELETE CASCADE ON UPDATE CASCADE;
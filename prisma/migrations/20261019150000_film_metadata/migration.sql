@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Film" ADD COLUMN     "cast" TEXT[],
+ADD COLUMN     "country" TEXT,
+ADD COLUMN     "directors" TEXT[],
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "runtimeMinutes" INTEGER,
+ADD COLUMN     "year" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "format" TEXT;
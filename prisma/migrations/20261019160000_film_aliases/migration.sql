@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "FilmAlias" (
+    "alias" TEXT NOT NULL,
+    "filmKey" TEXT NOT NULL,
+    "title" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FilmAlias_pkey" PRIMARY KEY ("alias")
+);
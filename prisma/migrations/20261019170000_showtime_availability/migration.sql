@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "Availability" AS ENUM ('available', 'limited', 'sold_out');
+
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "availability" "Availability";
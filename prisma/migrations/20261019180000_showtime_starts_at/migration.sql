@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "startsAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Showtime_startsAt_idx" ON "Showtime"("startsAt");
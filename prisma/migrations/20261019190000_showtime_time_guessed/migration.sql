@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "timeGuessed" BOOLEAN NOT NULL DEFAULT false;
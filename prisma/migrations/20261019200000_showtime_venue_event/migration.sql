@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "event" TEXT,
+ADD COLUMN     "venue" TEXT;
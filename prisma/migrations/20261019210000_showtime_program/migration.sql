@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "program" JSONB;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "PreferenceType" ADD VALUE 'tag';
+
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "tags" TEXT[];
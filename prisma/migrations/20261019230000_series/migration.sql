@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "PreferenceType" ADD VALUE 'series';
+
+-- AlterTable
+ALTER TABLE "Showtime" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Series" (
+    "id" TEXT NOT NULL,
+    "theaterId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT,
+    "description" TEXT,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Series_endDate_idx" ON "Series"("endDate");
+
+-- AddForeignKey
+ALTER TABLE "Series" ADD CONSTRAINT "Series_theaterId_fkey" FOREIGN KEY ("theaterId") REFERENCES "Theater"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Showtime" ADD CONSTRAINT "Showtime_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "Series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ShowtimeChangeType" AS ENUM ('new_film', 'new_screening', 'time_changed', 'removed', 'run_extended');
+
+-- CreateTable
+CREATE TABLE "ShowtimeChange" (
+    "id" TEXT NOT NULL,
+    "theaterId" TEXT NOT NULL,
+    "type" "ShowtimeChangeType" NOT NULL,
+    "filmKey" TEXT NOT NULL,
+    "filmTitle" TEXT NOT NULL,
+    "showtimeId" TEXT,
+    "previousShowtimeId" TEXT,
+    "date" TEXT,
+    "time" TEXT,
+    "previousDate" TEXT,
+    "previousTime" TEXT,
+    "ticketUrl" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShowtimeChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShowtimeChange_detectedAt_idx" ON "ShowtimeChange"("detectedAt");
+
+-- CreateIndex
+CREATE INDEX "ShowtimeChange_theaterId_detectedAt_idx" ON "ShowtimeChange"("theaterId", "detectedAt");
+
+-- CreateIndex
+CREATE INDEX "ShowtimeChange_previousShowtimeId_idx" ON "ShowtimeChange"("previousShowtimeId");
+
+-- AddForeignKey
+ALTER TABLE "ShowtimeChange" ADD CONSTRAINT "ShowtimeChange_theaterId_fkey" FOREIGN KEY ("theaterId") REFERENCES "Theater"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "NotificationCorrection" (
+    "id" TEXT NOT NULL,
+    "subscriberId" TEXT NOT NULL,
+    "changeId" TEXT NOT NULL,
+    "showtimeId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationCorrection_subscriberId_changeId_key" ON "NotificationCorrection"("subscriberId", "changeId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationCorrection" ADD CONSTRAINT "NotificationCorrection_subscriberId_fkey" FOREIGN KEY ("subscriberId") REFERENCES "Subscriber"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationCorrection" ADD CONSTRAINT "NotificationCorrection_changeId_fkey" FOREIGN KEY ("changeId") REFERENCES "ShowtimeChange"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeAnthology } from '../anthology';
+import { fixtureContext, withFailedFetches } from './fixtureFetch';
+
+const ROUTES = {
+  'https://anthologyfilmarchives.org/film_screenings/calendar?view=list&month=2&year=2026': 'anthology/calendar-2026-02.html',
+  'https://anthologyfilmarchives.org/film_screenings/calendar?view=list&month=3&year=2026': 'anthology/calendar-2026-03.html',
+};
+
+describe('scrapeAnthology', () => {
+  it('reads single films and shorts programs from this month and next', async () => {
+    const showtimes = await scrapeAnthology(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('still returns this month when next month is not published', async () => {
+    const { 'https://anthologyfilmarchives.org/film_screenings/calendar?view=list&month=3&year=2026': _, ...routes } = ROUTES;
+    const showtimes = await scrapeAnthology(fixtureContext(routes));
+    expect(showtimes.map(s => s.date)).not.toContain('2026-03-01');
+    expect(showtimes.length).toBeGreaterThan(0);
+  });
+
+  it('throws when next month fails to load, rather than dropping its screenings', async () => {
+    const ctx = withFailedFetches(fixtureContext(ROUTES), [
+      'https://anthologyfilmarchives.org/film_screenings/calendar?view=list&month=3&year=2026',
+    ]);
+    await expect(scrapeAnthology(ctx)).rejects.toThrow('fetch failed');
+  });
+
+  it('throws when the calendar is unavailable', async () => {
+    await expect(scrapeAnthology(fixtureContext({}))).rejects.toThrow('Anthology Film Archives: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'anthology-perf-59001',
+    film: 'MAYA DEREN: SHORTS PROGRAM',
+    theater: 'Anthology Film Archives',
+    date: '2026-02-18',
+    time: '7:00 PM',
+    ticketUrl: 'https://anthologyfilmarchives.org/tickets/59001',
+    description: 'Total running time: ca. 45 min.',
+    program: [
+      {
+        title: 'MESHES OF THE AFTERNOON',
+        directors: ['Maya Deren', 'Alexander Hammid'],
+        year: 1943,
+        runtimeMinutes: 14,
+        format: '16mm',
+      },
+      {
+        title: 'AT LAND',
+        directors: ['Maya Deren'],
+        year: 1944,
+        runtimeMinutes: 15,
+        format: '16mm',
+      },
+      {
+        title: 'RITUAL IN TRANSFIGURED TIME',
+        directors: ['Maya Deren'],
+        year: 1946,
+        runtimeMinutes: 15,
+        format: '16mm',
+      },
+    ],
+  },
+  {
+    id: 'anthology-perf-59002',
+    film: 'WALDEN',
+    theater: 'Anthology Film Archives',
+    date: '2026-02-18',
+    time: '9:00 PM',
+    ticketUrl: 'https://anthologyfilmarchives.org/tickets/59002',
+    directors: ['Jonas Mekas'],
+    year: 1969,
+    runtimeMinutes: 177,
+    format: '16mm',
+  },
+  {
+    id: 'anthology-perf-59030',
+    film: 'BRAKHAGE PROGRAM 2',
+    theater: 'Anthology Film Archives',
+    date: '2026-02-20',
+    time: '6:45 PM',
+    ticketUrl: 'https://anthologyfilmarchives.org/tickets/59030',
+    program: [
+      {
+        title: 'MOTHLIGHT',
+        directors: ['Stan Brakhage'],
+        year: 1963,
+        runtimeMinutes: 4,
+        format: '16mm',
+      },
+      {
+        title: 'WINDOW WATER BABY MOVING',
+        directors: ['Stan Brakhage'],
+        year: 1959,
+        runtimeMinutes: 13,
+        format: '16mm',
+      },
+      {
+        title: 'THE ACT OF SEEING WITH ONE\'S OWN EYES',
+        directors: ['Stan Brakhage'],
+        year: 1971,
+        runtimeMinutes: 32,
+        format: '16mm',
+      },
+    ],
+    availability: 'sold_out',
+  },
+  {
+    id: 'anthology-perf-59101',
+    film: 'DOG STAR MAN',
+    theater: 'Anthology Film Archives',
+    date: '2026-03-01',
+    time: '4:00 PM',
+    ticketUrl: 'https://anthologyfilmarchives.org/tickets/59101',
+    directors: ['Stan Brakhage'],
+    year: 1961,
+    runtimeMinutes: 78,
+    format: '16mm',
+  },
+];
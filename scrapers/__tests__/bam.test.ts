@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeBAM } from '../bam';
+import { fixtureContext, withFailedFetches } from './fixtureFetch';
+
+const ROUTES = {
+  'https://www.bam.org/film': 'bam/film.html',
+  'https://www.bam.org/film/2026/la-chimera': 'bam/film-la-chimera.html',
+  'https://www.bam.org/film/2026/cleo-from-5-to-7': 'bam/film-cleo-from-5-to-7.html',
+};
+
+describe('scrapeBAM', () => {
+  it('reads performance times from detail pages, flagging dates without times', async () => {
+    const showtimes = await scrapeBAM(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('keeps the New York date after 8 PM Eastern, when UTC has rolled over', async () => {
+    const showtimes = await scrapeBAM(fixtureContext(ROUTES, new Date('2026-02-19T02:00:00Z')));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('fails the run when a detail page fails to load, rather than listing its times as TBA', async () => {
+    const ctx = withFailedFetches(fixtureContext(ROUTES), ['https://www.bam.org/film/2026/la-chimera']);
+    await expect(scrapeBAM(ctx)).rejects.toThrow('fetch failed: https://www.bam.org/film/2026/la-chimera');
+  });
+
+  it('leaves out a production whose detail page is gone', async () => {
+    const { 'https://www.bam.org/film/2026/la-chimera': _, ...routes } = ROUTES;
+    const showtimes = await scrapeBAM(fixtureContext(routes));
+    expect(showtimes.some(s => s.film === 'La Chimera')).toBe(false);
+    expect(showtimes.some(s => s.film === 'Cléo from 5 to 7 & Friends')).toBe(true);
+  });
+
+  it('leaves out a production whose dates it cannot read, rather than inventing a run', async () => {
+    const showtimes = await scrapeBAM(fixtureContext(ROUTES));
+    expect(showtimes.some(s => s.film === 'Perfect Days')).toBe(false);
+  });
+
+  it('throws when the listing is unavailable', async () => {
+    await expect(scrapeBAM(fixtureContext({}))).rejects.toThrow('BAM: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'bam-perf-10483',
+    film: 'La Chimera',
+    theater: 'BAM Rose Cinemas',
+    date: '2026-02-18',
+    time: '2:00 PM',
+    ticketUrl: 'https://tickets.bam.org/performance/10483',
+    imageUrl: 'https://www.bam.org/-/media/images/film/la-chimera.jpg',
+    description: 'Josh O\'Connor is a tomb raider haunted by lost love in Alice Rohrwacher\'s Etruscan fable.',
+    directors: ['Alice Rohrwacher'],
+    cast: ['Josh O\'Connor', 'Carol Duarte', 'Isabella Rossellini'],
+    year: 2023,
+    runtimeMinutes: 133,
+    language: 'Italian',
+    format: 'DCP',
+  },
+  {
+    id: 'bam-perf-10484',
+    film: 'La Chimera',
+    theater: 'BAM Rose Cinemas',
+    date: '2026-02-18',
+    time: '9:30 PM',
+    ticketUrl: 'https://tickets.bam.org/performance/10484',
+    imageUrl: 'https://www.bam.org/-/media/images/film/la-chimera.jpg',
+    description: 'Josh O\'Connor is a tomb raider haunted by lost love in Alice Rohrwacher\'s Etruscan fable.',
+    directors: ['Alice Rohrwacher'],
+    cast: ['Josh O\'Connor', 'Carol Duarte', 'Isabella Rossellini'],
+    year: 2023,
+    runtimeMinutes: 133,
+    language: 'Italian',
+    format: 'DCP',
+    availability: 'sold_out',
+  },
+  {
+    id: 'bam-perf-10485',
+    film: 'La Chimera',
+    theater: 'BAM Rose Cinemas',
+    date: '2026-02-20',
+    time: '7:00 PM',
+    ticketUrl: 'https://www.bam.org/film/2026/la-chimera/tickets/10485',
+    imageUrl: 'https://www.bam.org/-/media/images/film/la-chimera.jpg',
+    description: 'Josh O\'Connor is a tomb raider haunted by lost love in Alice Rohrwacher\'s Etruscan fable.',
+    directors: ['Alice Rohrwacher'],
+    cast: ['Josh O\'Connor', 'Carol Duarte', 'Isabella Rossellini'],
+    year: 2023,
+    runtimeMinutes: 133,
+    language: 'Italian',
+    format: 'DCP',
+  },
+  {
+    id: 'bam-cleo-from-5-to-7-and-friends-2026-02-21-tba',
+    film: 'Cléo from 5 to 7 & Friends',
+    theater: 'BAM Rose Cinemas',
+    date: '2026-02-21',
+    time: 'Times TBA',
+    timesTba: true,
+    ticketUrl: 'https://www.bam.org/film/2026/cleo-from-5-to-7',
+    imageUrl: 'https://www.bam.org/-/media/images/film/cleo.jpg',
+  },
+];
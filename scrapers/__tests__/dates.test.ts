@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  inferYear,
+  nearestWeekday,
+  parseListingDate,
+  parseListingRange,
+  parseWeekday,
+  resolveWeekdayDate,
+} from '../dates';
+
+describe('parseListingDate', () => {
+  it('parses the formats each theater prints', () => {
+    expect(parseListingDate('Tue Feb 17', '2026-02-18')).toBe('2026-02-17');
+    expect(parseListingDate('SAT FEB 21', '2026-02-18')).toBe('2026-02-21');
+    expect(parseListingDate('Wed Feb 18', '2026-02-18')).toBe('2026-02-18');
+    expect(parseListingDate('Thursday, February 19', '2026-02-18')).toBe('2026-02-19');
+    expect(parseListingDate('Wed, Feb 11, 2026', '2026-02-18')).toBe('2026-02-11');
+  });
+
+  it('rolls January listings seen in December into next year', () => {
+    expect(parseListingDate('SAT JAN 2', '2026-12-28')).toBe('2027-01-02');
+    expect(parseListingDate('Wed Dec 30', '2026-12-28')).toBe('2026-12-30');
+  });
+
+  it('keeps last week\'s December dates in last year', () => {
+    expect(parseListingDate('Wed Dec 30', '2027-01-03')).toBe('2026-12-30');
+    expect(parseListingDate('Sat Jan 2', '2027-01-03')).toBe('2027-01-02');
+  });
+
+  it('reads dates far ahead as this year, not last', () => {
+    expect(parseListingDate('Aug 20', '2026-02-18')).toBe('2026-08-20');
+  });
+
+  it('rejects text without a real date', () => {
+    expect(parseListingDate('Now Playing', '2026-02-18')).toBeNull();
+    expect(parseListingDate('Feb 30', '2026-02-18')).toBeNull();
+  });
+});
+
+describe('inferYear', () => {
+  it('uses the weekday to settle an ambiguous year', () => {
+    // Jan 10 is a Saturday in 2026 and a Sunday in 2027; seen late in the run
+    expect(inferYear(1, 10, '2026-01-20')).toBe(2026);
+    expect(inferYear(1, 10, '2026-01-20', 0)).toBe(2027);
+  });
+});
+
+describe('parseListingRange', () => {
+  it('expands a run into its dates', () => {
+    expect(parseListingRange('Feb 6—Feb 9, 2026', '2026-02-18'))
+      .toEqual(['2026-02-06', '2026-02-07', '2026-02-08', '2026-02-09']);
+  });
+
+  it('handles runs across New Year', () => {
+    expect(parseListingRange('Dec 30 – Jan 2', '2026-12-20'))
+      .toEqual(['2026-12-30', '2026-12-31', '2027-01-01', '2027-01-02']);
+  });
+
+  it('ignores text that is not a range', () => {
+    expect(parseListingRange('Wed, Feb 11, 2026', '2026-02-18')).toBeNull();
+  });
+});
+
+describe('weekday helpers', () => {
+  it('parses weekday names', () => {
+    expect(parseWeekday('sat')).toBe(6);
+    expect(parseWeekday('WEDNESDAY')).toBe(3);
+    expect(parseWeekday('Feb 18')).toBeUndefined();
+  });
+
+  it('resolves a weekday tab and its day of month, including across New Year', () => {
+    expect(resolveWeekdayDate(6, 21, '2026-02-18')).toBe('2026-02-21');
+    expect(resolveWeekdayDate(5, 1, '2026-12-30')).toBe('2027-01-01');
+    expect(resolveWeekdayDate(1, 28, '2027-01-02')).toBe('2026-12-28');
+  });
+
+  it('falls back to the nearest weekday', () => {
+    expect(resolveWeekdayDate(6, undefined, '2026-02-18')).toBe('2026-02-21');
+    expect(nearestWeekday(1, '2026-02-18')).toBe('2026-02-16');
+    expect(nearestWeekday(0, '2026-02-19')).toBe('2026-02-22');
+  });
+});
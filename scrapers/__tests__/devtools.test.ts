@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { diffShowtimes, fixtureFileName, probePages, recordingFetch, replayFetch } from '../devtools';
+
+const base: Showtime = {
+  id: 'momi-perf-4002',
+  film: 'The Conversation',
+  theater: 'Museum of the Moving Image',
+  date: '2026-02-21',
+  time: '4:30 PM',
+  ticketUrl: 'https://movingimage.org/event/the-conversation/',
+};
+
+describe('fixtureFileName', () => {
+  it('names a page after its path and query', () => {
+    expect(fixtureFileName('https://filmforum.org/film/bitter-rice')).toBe('film-bitter-rice.html');
+    expect(fixtureFileName('https://www.ifccenter.com/')).toBe('home.html');
+    expect(fixtureFileName('https://anthologyfilmarchives.org/film_screenings/calendar?view=list&month=02&year=2026'))
+      .toBe('film_screenings-calendar-list-02-2026.html');
+    expect(fixtureFileName('https://example.org/events/calendar.ics')).toBe('events-calendar.ics');
+  });
+
+  it('numbers names already taken', () => {
+    const taken = new Set<string>();
+    expect(fixtureFileName('https://bam.org/film', taken)).toBe('film.html');
+    expect(fixtureFileName('https://bam.org/film/', taken)).toBe('film-2.html');
+  });
+});
+
+describe('probePages', () => {
+  it('counts each selector on every HTML page fetched', () => {
+    const probes = probePages([
+      { url: 'https://example.org/', status: 200, contentType: 'text/html', body: '<ul><li class="film">A</li><li class="film">B</li></ul>' },
+      { url: 'https://example.org/cal.ics', status: 200, contentType: 'text/calendar', body: 'BEGIN:VCALENDAR' },
+    ], { films: '.film', times: '.time' });
+    expect(probes).toEqual([
+      { url: 'https://example.org/', status: 200, bytes: 55, hits: { films: 2, times: 0 } },
+      { url: 'https://example.org/cal.ics', status: 200, bytes: 15, hits: {} },
+    ]);
+  });
+});
+
+describe('recordingFetch', () => {
+  it('keeps every page the scraper reads, still readable by the scraper', async () => {
+    const recorder = recordingFetch(replayFetch(new Map([['https://example.org/', '<p>hi</p>']])));
+    expect(await (await recorder.fetch('https://example.org/')).text()).toBe('<p>hi</p>');
+    await recorder.fetch('https://example.org/missing');
+    expect(recorder.pages.map(p => [p.url, p.status, p.body])).toEqual([
+      ['https://example.org/', 200, '<p>hi</p>'],
+      ['https://example.org/missing', 404, 'Not found'],
+    ]);
+  });
+});
+
+describe('diffShowtimes', () => {
+  it('matches showtimes by ID and lists the fields that changed', () => {
+    const added = { ...base, id: 'momi-perf-4010', film: 'Blow Out' };
+    const removed = { ...base, id: 'momi-perf-4020', film: 'The Plains' };
+    const diff = diffShowtimes(
+      [base, removed],
+      [{ ...base, time: '5:00 PM', availability: 'sold_out' }, added]
+    );
+    expect(diff.added).toEqual([added]);
+    expect(diff.removed).toEqual([removed]);
+    expect(diff.changed.map(c => c.fields)).toEqual([['time', 'availability']]);
+  });
+
+  it('finds nothing between identical runs', () => {
+    expect(diffShowtimes([base], [{ ...base }])).toEqual({ added: [], removed: [], changed: [] });
+  });
+});
@@ -0,0 +1,319 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeFilmForum } from '../filmforum';
+import { fixtureContext, withFailedFetches } from './fixtureFetch';
+
+const ROUTES = {
+  'https://filmforum.org/now_playing': 'filmforum/now_playing.html',
+  'https://filmforum.org/film/bitter-rice': 'filmforum/film-bitter-rice.html',
+  'https://filmforum.org/film/taxi-driver': 'filmforum/film-taxi-driver.html',
+  'https://filmforum.org/film/the-conformist': 'filmforum/film-the-conformist.html',
+  'https://filmforum.org/coming_soon': 'filmforum/coming_soon.html',
+  'https://filmforum.org/series/italian-neorealism': 'filmforum/series-italian-neorealism.html',
+  'https://my.filmforum.org/events/bitter-rice': 'filmforum/events-bitter-rice.html',
+  'https://my.filmforum.org/events/taxi-driver-tene': 'filmforum/events-taxi-driver-tene.html',
+};
+
+describe('scrapeFilmForum', () => {
+  it('merges the "Playing This Week" tabs with upcoming dates from detail pages', async () => {
+    const showtimes = await scrapeFilmForum(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('still returns the weekly table when the coming-soon page is gone', async () => {
+    const { 'https://filmforum.org/coming_soon': _, ...routes } = ROUTES;
+    const showtimes = await scrapeFilmForum(fixtureContext(routes));
+    expect(showtimes.some(s => s.film === 'THE CONFORMIST')).toBe(false);
+    expect(showtimes.filter(s => s.date <= '2026-02-19')).toHaveLength(9);
+  });
+
+  it('guesses AM/PM from the running order when ticket pages are unavailable', async () => {
+    const routes = Object.fromEntries(Object.entries(ROUTES).filter(([url]) => !url.includes('my.filmforum.org')));
+    const showtimes = await scrapeFilmForum(fixtureContext(routes));
+    const taxiDriver = showtimes.filter(s => s.film === 'TAXI DRIVER' && s.date === '2026-02-18');
+    expect(taxiDriver.map(s => s.time)).toEqual(['11:00 AM', '4:15 PM', '9:45 PM']);
+    expect(taxiDriver.every(s => s.timeGuessed)).toBe(true);
+
+    // The same screenings keep their IDs whether AM/PM was read or guessed
+    const confirmed = await scrapeFilmForum(fixtureContext(ROUTES));
+    expect(showtimes.map(s => s.id).sort()).toEqual(confirmed.map(s => s.id).sort());
+  });
+
+  it('fails the run when a film detail page fails to load, rather than dropping its later dates', async () => {
+    const ctx = withFailedFetches(fixtureContext(ROUTES), ['https://filmforum.org/film/taxi-driver']);
+    await expect(scrapeFilmForum(ctx)).rejects.toThrow('fetch failed: https://filmforum.org/film/taxi-driver');
+  });
+
+  it('fails the run when a coming-soon or series page fails to load, rather than dropping its films', async () => {
+    const ctx = withFailedFetches(fixtureContext(ROUTES), ['https://filmforum.org/coming_soon']);
+    await expect(scrapeFilmForum(ctx)).rejects.toThrow('fetch failed: https://filmforum.org/coming_soon');
+  });
+
+  it('throws when the now_playing page is unavailable', async () => {
+    await expect(scrapeFilmForum(fixtureContext({}))).rejects.toThrow('Film Forum: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'filmforum-bitter-rice-2026-02-18-1230',
+    film: 'Giuseppe De Santis\' BITTER RICE',
+    theater: 'Film Forum',
+    date: '2026-02-18',
+    time: '12:30 PM',
+    ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+    imageUrl: 'https://filmforum.org/uploads/bitter-rice-hero.jpg',
+    description: 'Silvana Mangano stars as a rice-field worker caught up with a small-time crook in Giuseppe De Santis\' neorealist melodrama of the Po Valley.',
+    directors: ['Giuseppe De Santis'],
+    language: 'Italian',
+    cast: ['Silvana Mangano', 'Vittorio Gassman', 'Raf Vallone'],
+    country: 'Italy',
+    year: 1949,
+    runtimeMinutes: 108,
+    format: 'DCP',
+    series: {
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Shot on the streets with non-professional casts, the films that remade Italian cinema after the war.',
+    },
+  },
+  {
+    id: 'filmforum-bitter-rice-2026-02-18-0245',
+    film: 'Giuseppe De Santis\' BITTER RICE',
+    theater: 'Film Forum',
+    date: '2026-02-18',
+    time: '2:45 PM',
+    ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+    imageUrl: 'https://filmforum.org/uploads/bitter-rice-hero.jpg',
+    description: 'Silvana Mangano stars as a rice-field worker caught up with a small-time crook in Giuseppe De Santis\' neorealist melodrama of the Po Valley.',
+    directors: ['Giuseppe De Santis'],
+    language: 'Italian',
+    cast: ['Silvana Mangano', 'Vittorio Gassman', 'Raf Vallone'],
+    country: 'Italy',
+    year: 1949,
+    runtimeMinutes: 108,
+    format: 'DCP',
+    series: {
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Shot on the streets with non-professional casts, the films that remade Italian cinema after the war.',
+    },
+  },
+  {
+    id: 'filmforum-bitter-rice-2026-02-18-0730',
+    film: 'Giuseppe De Santis\' BITTER RICE',
+    theater: 'Film Forum',
+    date: '2026-02-18',
+    time: '7:30 PM',
+    ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+    imageUrl: 'https://filmforum.org/uploads/bitter-rice-hero.jpg',
+    description: 'Silvana Mangano stars as a rice-field worker caught up with a small-time crook in Giuseppe De Santis\' neorealist melodrama of the Po Valley.',
+    directors: ['Giuseppe De Santis'],
+    language: 'Italian',
+    cast: ['Silvana Mangano', 'Vittorio Gassman', 'Raf Vallone'],
+    country: 'Italy',
+    year: 1949,
+    runtimeMinutes: 108,
+    format: 'DCP',
+    series: {
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Shot on the streets with non-professional casts, the films that remade Italian cinema after the war.',
+    },
+  },
+  {
+    id: 'filmforum-taxi-driver-2026-02-18-1100',
+    film: 'TAXI DRIVER',
+    theater: 'Film Forum',
+    date: '2026-02-18',
+    time: '11:00 AM',
+    ticketUrl: 'https://my.filmforum.org/events/taxi-driver-tene',
+    imageUrl: 'https://filmforum.org/uploads/taxi-driver-hero.jpg',
+    description: 'Robert De Niro is Travis Bickle, a Vietnam vet driving a cab through the night in Martin Scorsese\'s fever dream of 1970s New York.',
+    country: 'U.S.',
+    year: 1976,
+    runtimeMinutes: 114,
+    format: '35mm',
+  },
+  {
+    id: 'filmforum-taxi-driver-2026-02-18-0415',
+    film: 'TAXI DRIVER',
+    theater: 'Film Forum',
+    date: '2026-02-18',
+    time: '4:15 PM',
+    ticketUrl: 'https://my.filmforum.org/events/taxi-driver-tene',
+    imageUrl: 'https://filmforum.org/uploads/taxi-driver-hero.jpg',
+    description: 'Robert De Niro is Travis Bickle, a Vietnam vet driving a cab through the night in Martin Scorsese\'s fever dream of 1970s New York.',
+    country: 'U.S.',
+    year: 1976,
+    runtimeMinutes: 114,
+    format: '35mm',
+  },
+  {
+    id: 'filmforum-taxi-driver-2026-02-18-0945',
+    film: 'TAXI DRIVER',
+    theater: 'Film Forum',
+    date: '2026-02-18',
+    time: '9:45 PM',
+    ticketUrl: 'https://my.filmforum.org/events/taxi-driver-tene',
+    imageUrl: 'https://filmforum.org/uploads/taxi-driver-hero.jpg',
+    description: 'Robert De Niro is Travis Bickle, a Vietnam vet driving a cab through the night in Martin Scorsese\'s fever dream of 1970s New York.',
+    country: 'U.S.',
+    year: 1976,
+    runtimeMinutes: 114,
+    format: '35mm',
+  },
+  {
+    id: 'filmforum-bitter-rice-2026-02-19-0100',
+    film: 'Giuseppe De Santis\' BITTER RICE',
+    theater: 'Film Forum',
+    date: '2026-02-19',
+    time: '1:00 PM',
+    ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+    imageUrl: 'https://filmforum.org/uploads/bitter-rice-hero.jpg',
+    description: 'Silvana Mangano stars as a rice-field worker caught up with a small-time crook in Giuseppe De Santis\' neorealist melodrama of the Po Valley.',
+    directors: ['Giuseppe De Santis'],
+    language: 'Italian',
+    cast: ['Silvana Mangano', 'Vittorio Gassman', 'Raf Vallone'],
+    country: 'Italy',
+    year: 1949,
+    runtimeMinutes: 108,
+    format: 'DCP',
+    series: {
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Shot on the streets with non-professional casts, the films that remade Italian cinema after the war.',
+    },
+  },
+  {
+    id: 'filmforum-bitter-rice-2026-02-19-0810',
+    film: 'Giuseppe De Santis\' BITTER RICE',
+    theater: 'Film Forum',
+    date: '2026-02-19',
+    time: '8:10 PM',
+    ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+    imageUrl: 'https://filmforum.org/uploads/bitter-rice-hero.jpg',
+    description: 'Silvana Mangano stars as a rice-field worker caught up with a small-time crook in Giuseppe De Santis\' neorealist melodrama of the Po Valley.',
+    availability: 'sold_out',
+    directors: ['Giuseppe De Santis'],
+    language: 'Italian',
+    cast: ['Silvana Mangano', 'Vittorio Gassman', 'Raf Vallone'],
+    country: 'Italy',
+    year: 1949,
+    runtimeMinutes: 108,
+    format: 'DCP',
+    series: {
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Shot on the streets with non-professional casts, the films that remade Italian cinema after the war.',
+    },
+  },
+  {
+    id: 'filmforum-taxi-driver-2026-02-19-0600',
+    film: 'TAXI DRIVER',
+    theater: 'Film Forum',
+    date: '2026-02-19',
+    time: '6:00 PM',
+    ticketUrl: 'https://my.filmforum.org/events/taxi-driver-tene',
+    imageUrl: 'https://filmforum.org/uploads/taxi-driver-hero.jpg',
+    description: 'Robert De Niro is Travis Bickle, a Vietnam vet driving a cab through the night in Martin Scorsese\'s fever dream of 1970s New York.',
+    country: 'U.S.',
+    year: 1976,
+    runtimeMinutes: 114,
+    format: '35mm',
+  },
+  {
+    id: 'filmforum-bitter-rice-2026-02-21-0200',
+    film: 'Giuseppe De Santis\' BITTER RICE',
+    theater: 'Film Forum',
+    date: '2026-02-21',
+    time: '2:00 PM',
+    ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+    imageUrl: 'https://filmforum.org/uploads/bitter-rice-hero.jpg',
+    description: 'Silvana Mangano stars as a rice-field worker caught up with a small-time crook in Giuseppe De Santis\' neorealist melodrama of the Po Valley.',
+    directors: ['Giuseppe De Santis'],
+    language: 'Italian',
+    cast: ['Silvana Mangano', 'Vittorio Gassman', 'Raf Vallone'],
+    country: 'Italy',
+    year: 1949,
+    runtimeMinutes: 108,
+    format: 'DCP',
+    series: {
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Shot on the streets with non-professional casts, the films that remade Italian cinema after the war.',
+    },
+  },
+  {
+    id: 'filmforum-bitter-rice-2026-02-21-0430',
+    film: 'Giuseppe De Santis\' BITTER RICE',
+    theater: 'Film Forum',
+    date: '2026-02-21',
+    time: '4:30 PM',
+    ticketUrl: 'https://my.filmforum.org/events/bitter-rice',
+    imageUrl: 'https://filmforum.org/uploads/bitter-rice-hero.jpg',
+    description: 'Silvana Mangano stars as a rice-field worker caught up with a small-time crook in Giuseppe De Santis\' neorealist melodrama of the Po Valley.',
+    directors: ['Giuseppe De Santis'],
+    language: 'Italian',
+    cast: ['Silvana Mangano', 'Vittorio Gassman', 'Raf Vallone'],
+    country: 'Italy',
+    year: 1949,
+    runtimeMinutes: 108,
+    format: 'DCP',
+    series: {
+      name: 'Italian Neorealism',
+      url: 'https://filmforum.org/series/italian-neorealism',
+      description: 'Shot on the streets with non-professional casts, the films that remade Italian cinema after the war.',
+    },
+  },
+  {
+    id: 'filmforum-taxi-driver-2026-02-27-0700',
+    film: 'TAXI DRIVER',
+    theater: 'Film Forum',
+    date: '2026-02-27',
+    time: '7:00 PM',
+    ticketUrl: 'https://my.filmforum.org/events/taxi-driver-tene',
+    imageUrl: 'https://filmforum.org/uploads/taxi-driver-hero.jpg',
+    description: 'Robert De Niro is Travis Bickle, a Vietnam vet driving a cab through the night in Martin Scorsese\'s fever dream of 1970s New York.',
+    country: 'U.S.',
+    year: 1976,
+    runtimeMinutes: 114,
+    format: '35mm',
+  },
+  {
+    id: 'filmforum-the-conformist-2026-03-06-1230',
+    film: 'THE CONFORMIST',
+    theater: 'Film Forum',
+    date: '2026-03-06',
+    time: '12:30 PM',
+    ticketUrl: 'https://my.filmforum.org/events/the-conformist',
+    imageUrl: 'https://filmforum.org/uploads/the-conformist-hero.jpg',
+    description: 'Jean-Louis Trintignant is a Fascist functionary sent to Paris to assassinate his old professor in Bernardo Bertolucci\'s masterpiece.',
+    timeGuessed: true,
+    directors: ['Bernardo Bertolucci'],
+  },
+  {
+    id: 'filmforum-the-conformist-2026-03-06-0250',
+    film: 'THE CONFORMIST',
+    theater: 'Film Forum',
+    date: '2026-03-06',
+    time: '2:50 PM',
+    ticketUrl: 'https://my.filmforum.org/events/the-conformist',
+    imageUrl: 'https://filmforum.org/uploads/the-conformist-hero.jpg',
+    description: 'Jean-Louis Trintignant is a Fascist functionary sent to Paris to assassinate his old professor in Bernardo Bertolucci\'s masterpiece.',
+    timeGuessed: true,
+    directors: ['Bernardo Bertolucci'],
+  },
+  {
+    id: 'filmforum-the-conformist-2026-03-06-0940',
+    film: 'THE CONFORMIST',
+    theater: 'Film Forum',
+    date: '2026-03-06',
+    time: '9:40 PM',
+    ticketUrl: 'https://my.filmforum.org/events/the-conformist',
+    imageUrl: 'https://filmforum.org/uploads/the-conformist-hero.jpg',
+    description: 'Jean-Louis Trintignant is a Fascist functionary sent to Paris to assassinate his old professor in Bernardo Bertolucci\'s masterpiece.',
+    timeGuessed: true,
+    directors: ['Bernardo Bertolucci'],
+  },
+];
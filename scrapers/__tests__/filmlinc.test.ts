@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeFilmLinc } from '../filmlinc';
+import { fixtureContext, withFailedFetches } from './fixtureFetch';
+
+const ROUTES = {
+  'https://www.filmlinc.org/now-playing/': 'filmlinc/now-playing.html',
+  'https://www.filmlinc.org/films/stalker/': 'filmlinc/films-stalker.html',
+  'https://www.filmlinc.org/films/the-secret-agent/': 'filmlinc/films-the-secret-agent.html',
+  'https://www.filmlinc.org/films/blue-heron/': 'filmlinc/films-blue-heron.html',
+  'https://www.filmlinc.org/films/nyff-preview-night/': 'filmlinc/films-nyff-preview-night.html',
+};
+
+describe('scrapeFilmLinc', () => {
+  it('reads screenings, venues and festivals from each film page', async () => {
+    const showtimes = await scrapeFilmLinc(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('fails the run when a detail page fails to load, rather than dropping its screenings', async () => {
+    const ctx = withFailedFetches(fixtureContext(ROUTES), ['https://www.filmlinc.org/films/stalker/']);
+    await expect(scrapeFilmLinc(ctx)).rejects.toThrow('fetch failed: https://www.filmlinc.org/films/stalker/');
+  });
+
+  it('leaves out films whose detail page is gone', async () => {
+    const { 'https://www.filmlinc.org/films/stalker/': _, ...routes } = ROUTES;
+    const showtimes = await scrapeFilmLinc(fixtureContext(routes));
+    expect(showtimes.some(s => s.film === 'Stalker')).toBe(false);
+    expect(showtimes.length).toBeGreaterThan(0);
+  });
+
+  it('throws when the now-playing page is unavailable', async () => {
+    await expect(scrapeFilmLinc(fixtureContext({}))).rejects.toThrow('Film at Lincoln Center: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'filmlinc-perf-70114',
+    film: 'Stalker',
+    theater: 'Film at Lincoln Center',
+    date: '2026-02-18',
+    time: '3:00 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/70114',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/stalker-hero.jpg',
+    description: 'A guide leads a writer and a scientist into the Zone, a forbidden wilderness said to hold a room that grants wishes.',
+    directors: ['Andrei Tarkovsky'],
+    cast: ['Alexander Kaidanovsky', 'Anatoli Solonitsyn', 'Nikolai Grinko'],
+    year: 1979,
+    runtimeMinutes: 161,
+    language: 'Russian',
+    format: '35mm',
+    venue: 'Walter Reade Theater',
+    series: {
+      name: 'Tarkovsky: The Complete Films',
+      url: 'https://www.filmlinc.org/series/tarkovsky/',
+    },
+  },
+  {
+    id: 'filmlinc-perf-70115',
+    film: 'Stalker',
+    theater: 'Film at Lincoln Center',
+    date: '2026-02-18',
+    time: '7:45 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/70115',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/stalker-hero.jpg',
+    description: 'A guide leads a writer and a scientist into the Zone, a forbidden wilderness said to hold a room that grants wishes.',
+    directors: ['Andrei Tarkovsky'],
+    cast: ['Alexander Kaidanovsky', 'Anatoli Solonitsyn', 'Nikolai Grinko'],
+    year: 1979,
+    runtimeMinutes: 161,
+    language: 'Russian',
+    format: '35mm',
+    venue: 'Walter Reade Theater',
+    series: {
+      name: 'Tarkovsky: The Complete Films',
+      url: 'https://www.filmlinc.org/series/tarkovsky/',
+    },
+    availability: 'sold_out',
+  },
+  {
+    id: 'filmlinc-perf-70140',
+    film: 'Stalker',
+    theater: 'Film at Lincoln Center',
+    date: '2026-02-21',
+    time: '1:00 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/70140',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/stalker-hero.jpg',
+    description: 'A guide leads a writer and a scientist into the Zone, a forbidden wilderness said to hold a room that grants wishes.',
+    directors: ['Andrei Tarkovsky'],
+    cast: ['Alexander Kaidanovsky', 'Anatoli Solonitsyn', 'Nikolai Grinko'],
+    year: 1979,
+    runtimeMinutes: 161,
+    language: 'Russian',
+    format: '35mm',
+    venue: 'Walter Reade Theater',
+    series: {
+      name: 'Tarkovsky: The Complete Films',
+      url: 'https://www.filmlinc.org/series/tarkovsky/',
+    },
+  },
+  {
+    id: 'filmlinc-perf-70201',
+    film: 'The Secret Agent',
+    theater: 'Film at Lincoln Center',
+    date: '2026-02-18',
+    time: '4:15 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/70201',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/the-secret-agent-hero.jpg',
+    description: 'Recife, 1977: a technology expert on the run returns home hoping to find his son, and finds the city no safer than what he fled.',
+    directors: ['Kleber Mendonça Filho'],
+    cast: ['Wagner Moura', 'Maria Fernanda Cândido', 'Gabriel Leone'],
+    year: 2025,
+    runtimeMinutes: 158,
+    language: 'Portuguese',
+    format: 'DCP',
+    venue: 'Elinor Bunin Munroe Film Center',
+  },
+  {
+    id: 'filmlinc-perf-70202',
+    film: 'The Secret Agent',
+    theater: 'Film at Lincoln Center',
+    date: '2026-02-18',
+    time: '8:30 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/70202',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/the-secret-agent-hero.jpg',
+    description: 'Recife, 1977: a technology expert on the run returns home hoping to find his son, and finds the city no safer than what he fled.',
+    directors: ['Kleber Mendonça Filho'],
+    cast: ['Wagner Moura', 'Maria Fernanda Cândido', 'Gabriel Leone'],
+    year: 2025,
+    runtimeMinutes: 158,
+    language: 'Portuguese',
+    format: 'DCP',
+    venue: 'Walter Reade Theater',
+  },
+  {
+    id: 'filmlinc-perf-70210',
+    film: 'The Secret Agent',
+    theater: 'Film at Lincoln Center',
+    date: '2026-02-19',
+    time: '6:00 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/70210',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/the-secret-agent-hero.jpg',
+    description: 'Recife, 1977: a technology expert on the run returns home hoping to find his son, and finds the city no safer than what he fled.',
+    directors: ['Kleber Mendonça Filho'],
+    cast: ['Wagner Moura', 'Maria Fernanda Cândido', 'Gabriel Leone'],
+    year: 2025,
+    runtimeMinutes: 158,
+    language: 'Portuguese',
+    format: 'DCP',
+    venue: 'Elinor Bunin Munroe Film Center',
+  },
+  {
+    id: 'filmlinc-perf-71002',
+    film: 'Blue Heron',
+    theater: 'Film at Lincoln Center',
+    date: '2026-04-02',
+    time: '6:15 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/71002',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/blue-heron-hero.jpg',
+    description: 'A family\'s summer on Vancouver Island in the late 1990s, remembered decades later by its youngest daughter.',
+    directors: ['Sophy Romvari'],
+    year: 2025,
+    runtimeMinutes: 90,
+    format: 'DCP',
+    venue: 'Walter Reade Theater',
+    event: 'New Directors/New Films',
+  },
+  {
+    id: 'filmlinc-perf-71031',
+    film: 'Blue Heron',
+    theater: 'Film at Lincoln Center',
+    date: '2026-04-04',
+    time: '2:00 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/71031',
+    imageUrl: 'https://www.filmlinc.org/wp-content/uploads/blue-heron-hero.jpg',
+    description: 'A family\'s summer on Vancouver Island in the late 1990s, remembered decades later by its youngest daughter.',
+    directors: ['Sophy Romvari'],
+    year: 2025,
+    runtimeMinutes: 90,
+    format: 'DCP',
+    venue: 'Elinor Bunin Munroe Film Center',
+    event: 'New Directors/New Films',
+  },
+  {
+    id: 'filmlinc-perf-70305',
+    film: 'NYFF64 Preview Night',
+    theater: 'Film at Lincoln Center',
+    date: '2026-02-20',
+    time: '7:00 PM',
+    ticketUrl: 'https://tickets.filmlinc.org/purchase/performance/70305',
+    description: 'A first look at this fall\'s New York Film Festival, with clips, conversation and a surprise screening.',
+    venue: 'Walter Reade Theater',
+    event: 'New York Film Festival',
+  },
+];
@@ -0,0 +1,50 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createScrapeContext } from '../context';
+import { ScrapeContext } from '@/types/theater';
+
+const FIXTURES_DIR = join(__dirname, '..', '__fixtures__');
+
+/** Noon Eastern on Wednesday, Feb 18, 2026 — the day the fixtures were saved. */
+export const FROZEN_NOW = new Date('2026-02-18T12:00:00-05:00');
+
+/**
+ * A fetch that serves saved HTML from scrapers/__fixtures__ instead of the
+ * network. Routes map absolute URLs to fixture paths; any other URL gets a
+ * 404 so a scraper following an unexpected link fails loudly in the diff.
+ */
+export function fixtureFetch(routes: Record<string, string>): typeof fetch {
+  return async (input) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const fixture = routes[url];
+    if (!fixture) {
+      return new Response('Not found', { status: 404 });
+    }
+    const html = readFileSync(join(FIXTURES_DIR, fixture), 'utf8');
+    return new Response(html, {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  };
+}
+
+/** A scrape context serving the given fixtures with the clock frozen at FROZEN_NOW (or `now`). */
+export function fixtureContext(routes: Record<string, string>, now: Date = FROZEN_NOW): ScrapeContext {
+  return createScrapeContext({ fetch: fixtureFetch(routes), now });
+}
+
+/**
+ * The same context, except fetching any of `urls` rejects the way a
+ * network error that outlasted the HTTP client's retries does.
+ */
+export function withFailedFetches(ctx: ScrapeContext, urls: string[]): ScrapeContext {
+  const failing = new Set(urls);
+  return {
+    ...ctx,
+    fetch: async (input, init) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      if (failing.has(url)) throw new TypeError(`fetch failed: ${url}`);
+      return ctx.fetch(input, init);
+    },
+  };
+}
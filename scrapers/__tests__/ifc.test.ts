@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeIFC } from '../ifc';
+import { fixtureContext } from './fixtureFetch';
+
+const ROUTES = {
+  'https://www.ifccenter.com': 'ifc/home.html',
+  'https://www.ifccenter.com/films/past-lives/': 'ifc/films-past-lives.html',
+};
+
+describe('scrapeIFC', () => {
+  it('parses the homepage daily schedule blocks', async () => {
+    const showtimes = await scrapeIFC(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('throws when the homepage is unavailable', async () => {
+    await expect(scrapeIFC(fixtureContext({}))).rejects.toThrow('IFC Center: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'ifc-perf-101',
+    film: 'Past Lives',
+    theater: 'IFC Center',
+    date: '2026-02-18',
+    time: '12:15 PM',
+    ticketUrl: 'https://tickets.ifccenter.com/websales/pages/ticketsearchcriteria.aspx?evtinfo=101',
+    allTimes: ['12:15 PM', '7:40 PM'],
+    year: 2023,
+    runtimeMinutes: 106,
+    directors: ['Celine Song'],
+    cast: ['Greta Lee', 'Teo Yoo', 'John Magaro'],
+    country: 'USA',
+    language: 'English, Korean',
+  },
+  {
+    id: 'ifc-perf-102',
+    film: 'Past Lives',
+    theater: 'IFC Center',
+    date: '2026-02-18',
+    time: '7:40 PM',
+    ticketUrl: 'https://tickets.ifccenter.com/websales/pages/ticketsearchcriteria.aspx?evtinfo=102',
+    allTimes: ['12:15 PM', '7:40 PM'],
+    availability: 'sold_out',
+    year: 2023,
+    runtimeMinutes: 106,
+    directors: ['Celine Song'],
+    cast: ['Greta Lee', 'Teo Yoo', 'John Magaro'],
+    country: 'USA',
+    language: 'English, Korean',
+  },
+  {
+    id: 'ifc-the-zone-of-interest-2026-02-18-2140',
+    film: 'The Zone of Interest',
+    theater: 'IFC Center',
+    date: '2026-02-18',
+    time: '9:40 PM',
+    ticketUrl: 'https://www.ifccenter.com/films/the-zone-of-interest/',
+    allTimes: ['9:40 PM'],
+  },
+  {
+    id: 'ifc-perf-201',
+    film: 'Past Lives',
+    theater: 'IFC Center',
+    date: '2026-02-19',
+    time: '1:00 PM',
+    ticketUrl: 'https://tickets.ifccenter.com/websales/pages/ticketsearchcriteria.aspx?evtinfo=201',
+    allTimes: ['1:00 PM'],
+    year: 2023,
+    runtimeMinutes: 106,
+    directors: ['Celine Song'],
+    cast: ['Greta Lee', 'Teo Yoo', 'John Magaro'],
+    country: 'USA',
+    language: 'English, Korean',
+  },
+];
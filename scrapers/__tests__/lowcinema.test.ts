@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeLowCinema } from '../lowcinema';
+import { fixtureContext, withFailedFetches } from './fixtureFetch';
+
+const ROUTES = {
+  'https://lowcinema.com/tickets/': 'lowcinema/tickets.html',
+  'https://lowcinema.com/movie/6f1c2a90-0001/': 'lowcinema/movie-vagabond.html',
+  'https://lowcinema.com/movie/6f1c2a90-0002/': 'lowcinema/movie-ratcatcher.html',
+  'https://lowcinema.com/checkout/aa11-0001/': 'lowcinema/checkout-aa11-0001.html',
+  'https://lowcinema.com/checkout/aa11-0003/': 'lowcinema/checkout-aa11-0003.html',
+};
+
+describe('scrapeLowCinema', () => {
+  it('follows /tickets/ to each movie page and parses its showings', async () => {
+    const showtimes = await scrapeLowCinema(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('marks sold-out times listed without a checkout link as sold out', async () => {
+    const showtimes = await scrapeLowCinema(fixtureContext(ROUTES));
+    const ratcatcher = showtimes.filter(s => s.film === 'Ratcatcher');
+    expect(ratcatcher.map(s => [s.time, s.availability])).toEqual([['8:00 PM', undefined], ['10:00 PM', 'sold_out']]);
+  });
+
+  it('fails the run when a movie page fails to load, rather than dropping its screenings', async () => {
+    const ctx = withFailedFetches(fixtureContext(ROUTES), ['https://lowcinema.com/movie/6f1c2a90-0002/']);
+    await expect(scrapeLowCinema(ctx)).rejects.toThrow('fetch failed: https://lowcinema.com/movie/6f1c2a90-0002/');
+  });
+
+  it('leaves out a film whose movie page is gone', async () => {
+    const { 'https://lowcinema.com/movie/6f1c2a90-0002/': _, ...routes } = ROUTES;
+    const showtimes = await scrapeLowCinema(fixtureContext(routes));
+    expect(showtimes.some(s => s.film === 'Ratcatcher')).toBe(false);
+    expect(showtimes.some(s => s.film === 'Vagabond')).toBe(true);
+  });
+
+  it('throws when /tickets/ is unavailable', async () => {
+    await expect(scrapeLowCinema(fixtureContext({}))).rejects.toThrow('Low Cinema: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'lowcinema-perf-aa11-0001',
+    film: 'Vagabond',
+    theater: 'Low Cinema',
+    date: '2026-02-18',
+    time: '7:00 PM',
+    ticketUrl: 'https://lowcinema.com/checkout/aa11-0001/',
+    imageUrl: 'https://lowcinema.com/media/posters/vagabond.jpg',
+    description: 'A young drifter is found frozen in a ditch, and Varda pieces together her final weeks from the people she met on the road.',
+    directors: ['Agnès Varda'],
+    year: 1985,
+    runtimeMinutes: 105,
+    country: 'France',
+    ticketsAvailable: 8,
+    totalCapacity: 48,
+  },
+  {
+    id: 'lowcinema-perf-aa11-0002',
+    film: 'Vagabond',
+    theater: 'Low Cinema',
+    date: '2026-02-18',
+    time: '9:30 PM',
+    ticketUrl: 'https://lowcinema.com/movie/6f1c2a90-0001/',
+    imageUrl: 'https://lowcinema.com/media/posters/vagabond.jpg',
+    description: 'A young drifter is found frozen in a ditch, and Varda pieces together her final weeks from the people she met on the road.',
+    directors: ['Agnès Varda'],
+    year: 1985,
+    runtimeMinutes: 105,
+    country: 'France',
+    availability: 'sold_out',
+  },
+  {
+    id: 'lowcinema-perf-aa11-0003',
+    film: 'Vagabond',
+    theater: 'Low Cinema',
+    date: '2026-02-21',
+    time: '4:15 PM',
+    ticketUrl: 'https://lowcinema.com/checkout/aa11-0003/',
+    imageUrl: 'https://lowcinema.com/media/posters/vagabond.jpg',
+    description: 'A young drifter is found frozen in a ditch, and Varda pieces together her final weeks from the people she met on the road.',
+    directors: ['Agnès Varda'],
+    year: 1985,
+    runtimeMinutes: 105,
+    country: 'France',
+    ticketsAvailable: 30,
+    totalCapacity: 48,
+  },
+  {
+    id: 'lowcinema-perf-bb22-0001',
+    film: 'Ratcatcher',
+    theater: 'Low Cinema',
+    date: '2026-02-19',
+    time: '8:00 PM',
+    ticketUrl: 'https://lowcinema.com/checkout/bb22-0001/',
+    directors: ['Lynne Ramsay'],
+    year: 1999,
+    runtimeMinutes: 94,
+    country: 'UK',
+  },
+  {
+    id: 'lowcinema-ratcatcher-2026-02-19-2200',
+    film: 'Ratcatcher',
+    theater: 'Low Cinema',
+    date: '2026-02-19',
+    time: '10:00 PM',
+    ticketUrl: 'https://lowcinema.com/movie/6f1c2a90-0002/',
+    directors: ['Lynne Ramsay'],
+    year: 1999,
+    runtimeMinutes: 94,
+    country: 'UK',
+    availability: 'sold_out',
+  },
+];
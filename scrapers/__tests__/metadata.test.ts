@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { compactMetadata, parseFormat, parseLanguage, parseRuntime, parseYear, splitNames } from '../metadata';
+
+describe('metadata helpers', () => {
+  it('splits credit lists on commas, ampersands and "and"', () => {
+    expect(splitNames('Greta Lee, Teo Yoo & John Magaro')).toEqual(['Greta Lee', 'Teo Yoo', 'John Magaro']);
+    expect(splitNames('Jean-Pierre Dardenne and Luc Dardenne')).toEqual(['Jean-Pierre Dardenne', 'Luc Dardenne']);
+    expect(splitNames('Wes Anderson')).toEqual(['Wes Anderson']);
+  });
+
+  it('parses years and running times in the formats theaters use', () => {
+    expect(parseYear('1994 / 102min / 35mm')).toBe(1994);
+    expect(parseYear('102min')).toBeUndefined();
+    expect(parseRuntime('1994 / 102min / 35mm')).toBe(102);
+    expect(parseRuntime('Approx. 108 min.')).toBe(108);
+    expect(parseRuntime('106 minutes')).toBe(106);
+    expect(parseRuntime('1h 42m')).toBe(102);
+    expect(parseRuntime('35mm')).toBeUndefined();
+  });
+
+  it('recognizes projection formats and subtitled languages', () => {
+    expect(parseFormat('1975 / 201min / DCP')).toBe('DCP');
+    expect(parseFormat('in 35 mm')).toBe('35mm');
+    expect(parseFormat('Approx. 108 min.')).toBeUndefined();
+    expect(parseLanguage('In Italian with English subtitles.')).toBe('Italian');
+    expect(parseLanguage('Korean and English with English subtitles')).toBe('Korean and English');
+  });
+
+  it('drops empty values', () => {
+    expect(compactMetadata({ directors: [], year: 1985, country: '', format: undefined })).toEqual({ year: 1985 });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeMetrograph } from '../metrograph';
+import { fixtureContext } from './fixtureFetch';
+
+const ROUTES = {
+  'https://metrograph.com/film/': 'metrograph/film.html',
+};
+
+describe('scrapeMetrograph', () => {
+  it('parses film cards and their date/time blocks', async () => {
+    const showtimes = await scrapeMetrograph(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('prefers ScreeningEvent JSON-LD when the page has it', async () => {
+    const showtimes = await scrapeMetrograph(fixtureContext({
+      'https://metrograph.com/film/': 'metrograph/film-jsonld.html',
+    }));
+    // Same screening and ID as the markup gives, minus the synopsis the JSON-LD omits
+    const { description: _, ...first } = EXPECTED[0];
+    expect(showtimes).toEqual([first]);
+  });
+
+  it('throws when the film page is unavailable', async () => {
+    await expect(scrapeMetrograph(fixtureContext({}))).rejects.toThrow('Metrograph: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'metrograph-perf-48211',
+    film: 'Chungking Express',
+    theater: 'Metrograph',
+    date: '2026-02-18',
+    time: '3:00 PM',
+    ticketUrl: 'https://t.metrograph.com/Ticketing/visSelectTickets.aspx?cinemacode=9999&txtSessionId=48211',
+    imageUrl: 'https://metrograph.com/uploads/films/chungking-express.jpg',
+    description: 'Two lovesick Hong Kong cops, a blonde-wigged smuggler and a snack-bar waitress cross paths.',
+    directors: ['Wong Kar-wai'],
+    year: 1994,
+    runtimeMinutes: 102,
+    format: '35mm',
+  },
+  {
+    id: 'metrograph-perf-48212',
+    film: 'Chungking Express',
+    theater: 'Metrograph',
+    date: '2026-02-18',
+    time: '9:15 PM',
+    ticketUrl: 'https://t.metrograph.com/Ticketing/visSelectTickets.aspx?cinemacode=9999&txtSessionId=48212',
+    imageUrl: 'https://metrograph.com/uploads/films/chungking-express.jpg',
+    description: 'Two lovesick Hong Kong cops, a blonde-wigged smuggler and a snack-bar waitress cross paths.',
+    directors: ['Wong Kar-wai'],
+    year: 1994,
+    runtimeMinutes: 102,
+    format: '35mm',
+    availability: 'sold_out',
+  },
+  {
+    id: 'metrograph-chungking-express-2026-02-19-1830',
+    film: 'Chungking Express',
+    theater: 'Metrograph',
+    date: '2026-02-19',
+    time: '6:30 PM',
+    ticketUrl: 'https://metrograph.com/film/?vista_film_id=9999000123',
+    imageUrl: 'https://metrograph.com/uploads/films/chungking-express.jpg',
+    description: 'Two lovesick Hong Kong cops, a blonde-wigged smuggler and a snack-bar waitress cross paths.',
+    directors: ['Wong Kar-wai'],
+    year: 1994,
+    runtimeMinutes: 102,
+    format: '35mm',
+  },
+  {
+    id: 'metrograph-perf-48300',
+    film: 'Jeanne Dielman',
+    theater: 'Metrograph',
+    date: '2026-02-21',
+    time: '1:00 PM',
+    ticketUrl: 'https://t.metrograph.com/Ticketing/visSelectTickets.aspx?cinemacode=9999&txtSessionId=48300',
+    directors: ['Chantal Akerman'],
+    cast: ['Delphine Seyrig', 'Jan Decorte'],
+    year: 1975,
+    runtimeMinutes: 201,
+    format: 'DCP',
+  },
+];
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeMoMI } from '../momi';
+import { fixtureContext } from './fixtureFetch';
+
+const ROUTES = {
+  'https://movingimage.org/whats-on/screenings/': 'momi/screenings.html',
+};
+
+describe('scrapeMoMI', () => {
+  it('reads one showtime per screening card', async () => {
+    const showtimes = await scrapeMoMI(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('throws when the screenings page is unavailable', async () => {
+    await expect(scrapeMoMI(fixtureContext({}))).rejects.toThrow('Museum of the Moving Image: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'momi-perf-4002',
+    film: 'The Conversation',
+    theater: 'Museum of the Moving Image',
+    date: '2026-02-21',
+    time: '4:30 PM',
+    ticketUrl: 'https://tix.movingimage.org/Online/default.asp?performance=4002',
+    imageUrl: 'https://movingimage.org/wp-content/uploads/the-conversation.jpg',
+    directors: ['Francis Ford Coppola'],
+    year: 1974,
+    runtimeMinutes: 113,
+    format: '35mm',
+    series: {
+      name: 'See It Big! Paranoia',
+    },
+  },
+  {
+    id: 'momi-perf-4010',
+    film: 'Blow Out',
+    theater: 'Museum of the Moving Image',
+    date: '2026-02-20',
+    time: '7:00 PM',
+    ticketUrl: 'https://tix.movingimage.org/Online/default.asp?performance=4010',
+    imageUrl: 'https://movingimage.org/wp-content/uploads/blow-out.jpg',
+    description: 'A movie sound-effects man records evidence of a political assassination.',
+    directors: ['Brian De Palma'],
+    year: 1981,
+    runtimeMinutes: 107,
+    format: '35mm',
+    series: {
+      name: 'See It Big! Paranoia',
+    },
+    availability: 'sold_out',
+  },
+  {
+    id: 'momi-perf-4020',
+    film: 'The Plains',
+    theater: 'Museum of the Moving Image',
+    date: '2026-02-19',
+    time: '6:30 PM',
+    ticketUrl: 'https://tix.movingimage.org/Online/default.asp?performance=4020',
+    imageUrl: 'https://movingimage.org/wp-content/uploads/first-look.jpg',
+    directors: ['David Easteal'],
+    year: 2022,
+    runtimeMinutes: 180,
+    format: 'DCP',
+    event: 'First Look',
+  },
+];
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { scrapeNitehawk } from '../nitehawk';
+import { fixtureContext } from './fixtureFetch';
+
+const ROUTES = {
+  'https://nitehawkcinema.com/williamsburg/': 'nitehawk/williamsburg.html',
+  'https://nitehawkcinema.com/prospectpark/': 'nitehawk/prospectpark.html',
+};
+
+describe('scrapeNitehawk', () => {
+  it('reads both locations and tags each screening with its venue', async () => {
+    const showtimes = await scrapeNitehawk(fixtureContext(ROUTES));
+    expect(showtimes).toEqual(EXPECTED);
+  });
+
+  it('throws when either location is unavailable, rather than dropping its screenings', async () => {
+    const { 'https://nitehawkcinema.com/prospectpark/': _, ...routes } = ROUTES;
+    await expect(scrapeNitehawk(fixtureContext(routes))).rejects.toThrow('Nitehawk Cinema: HTTP 404 (Prospect Park)');
+  });
+
+  it('throws when every location is unavailable', async () => {
+    await expect(scrapeNitehawk(fixtureContext({}))).rejects.toThrow('Nitehawk Cinema: HTTP 404');
+  });
+});
+
+const EXPECTED: Showtime[] = [
+  {
+    id: 'nitehawk-williamsburg-perf-81002',
+    film: 'The Shining',
+    theater: 'Nitehawk Cinema',
+    venue: 'Williamsburg',
+    date: '2026-02-20',
+    time: '11:45 PM',
+    ticketUrl: 'https://nitehawkcinema.com/williamsburg/buy-tickets/?txtSessionId=81002',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/the-shining-poster.jpg',
+    description: 'Jack Torrance takes a job as winter caretaker of the isolated Overlook Hotel.',
+    directors: ['Stanley Kubrick'],
+    year: 1980,
+    runtimeMinutes: 146,
+    format: '35mm',
+    series: {
+      name: 'Midnite Movies',
+    },
+  },
+  {
+    id: 'nitehawk-williamsburg-perf-81003',
+    film: 'The Shining',
+    theater: 'Nitehawk Cinema',
+    venue: 'Williamsburg',
+    date: '2026-02-21',
+    time: '11:45 PM',
+    ticketUrl: 'https://nitehawkcinema.com/williamsburg/buy-tickets/?txtSessionId=81003',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/the-shining-poster.jpg',
+    description: 'Jack Torrance takes a job as winter caretaker of the isolated Overlook Hotel.',
+    directors: ['Stanley Kubrick'],
+    year: 1980,
+    runtimeMinutes: 146,
+    format: '35mm',
+    series: {
+      name: 'Midnite Movies',
+    },
+    availability: 'sold_out',
+  },
+  {
+    id: 'nitehawk-williamsburg-perf-81010',
+    film: 'Bugonia',
+    theater: 'Nitehawk Cinema',
+    venue: 'Williamsburg',
+    date: '2026-02-18',
+    time: '1:15 PM',
+    ticketUrl: 'https://nitehawkcinema.com/williamsburg/buy-tickets/?txtSessionId=81010',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/bugonia-poster.jpg',
+    directors: ['Yorgos Lanthimos'],
+    year: 2025,
+    runtimeMinutes: 118,
+  },
+  {
+    id: 'nitehawk-williamsburg-perf-81011',
+    film: 'Bugonia',
+    theater: 'Nitehawk Cinema',
+    venue: 'Williamsburg',
+    date: '2026-02-18',
+    time: '6:30 PM',
+    ticketUrl: 'https://nitehawkcinema.com/williamsburg/buy-tickets/?txtSessionId=81011',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/bugonia-poster.jpg',
+    directors: ['Yorgos Lanthimos'],
+    year: 2025,
+    runtimeMinutes: 118,
+  },
+  {
+    id: 'nitehawk-williamsburg-perf-81012',
+    film: 'Bugonia',
+    theater: 'Nitehawk Cinema',
+    venue: 'Williamsburg',
+    date: '2026-02-18',
+    time: '9:20 PM',
+    ticketUrl: 'https://nitehawkcinema.com/williamsburg/buy-tickets/?txtSessionId=81012',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/bugonia-poster.jpg',
+    directors: ['Yorgos Lanthimos'],
+    year: 2025,
+    runtimeMinutes: 118,
+  },
+  {
+    id: 'nitehawk-williamsburg-perf-81013',
+    film: 'Bugonia',
+    theater: 'Nitehawk Cinema',
+    venue: 'Williamsburg',
+    date: '2026-02-19',
+    time: '7:00 PM',
+    ticketUrl: 'https://nitehawkcinema.com/williamsburg/buy-tickets/?txtSessionId=81013',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/bugonia-poster.jpg',
+    directors: ['Yorgos Lanthimos'],
+    year: 2025,
+    runtimeMinutes: 118,
+  },
+  {
+    id: 'nitehawk-prospectpark-perf-92001',
+    film: 'Bugonia',
+    theater: 'Nitehawk Cinema',
+    venue: 'Prospect Park',
+    date: '2026-02-18',
+    time: '4:00 PM',
+    ticketUrl: 'https://nitehawkcinema.com/prospectpark/buy-tickets/?txtSessionId=92001',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/bugonia-poster.jpg',
+    directors: ['Yorgos Lanthimos'],
+    year: 2025,
+    runtimeMinutes: 118,
+  },
+  {
+    id: 'nitehawk-prospectpark-perf-92002',
+    film: 'Bugonia',
+    theater: 'Nitehawk Cinema',
+    venue: 'Prospect Park',
+    date: '2026-02-18',
+    time: '8:10 PM',
+    ticketUrl: 'https://nitehawkcinema.com/prospectpark/buy-tickets/?txtSessionId=92002',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/bugonia-poster.jpg',
+    directors: ['Yorgos Lanthimos'],
+    year: 2025,
+    runtimeMinutes: 118,
+  },
+  {
+    id: 'nitehawk-prospectpark-perf-92010',
+    film: 'Brunch Screening: Paddington 2',
+    theater: 'Nitehawk Cinema',
+    venue: 'Prospect Park',
+    date: '2026-02-21',
+    time: '11:30 AM',
+    ticketUrl: 'https://nitehawkcinema.com/prospectpark/buy-tickets/?txtSessionId=92010',
+    imageUrl: 'https://nitehawkcinema.com/wp-content/uploads/paddington-2-poster.jpg',
+    directors: ['Paul King'],
+    year: 2017,
+    runtimeMinutes: 103,
+    format: 'DCP',
+    series: {
+      name: 'Brunch Screenings',
+    },
+  },
+];
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { selectorTheater } from '../selectors';
+import { fixtureContext } from './fixtureFetch';
+
+const ROUTES = {
+  'https://example-cinema.test/films/': 'selectors/listing.html',
+};
+
+const theater = selectorTheater(
+  {
+    id: 'example',
+    name: 'Example Cinema',
+    neighborhood: 'Brooklyn',
+    website: 'https://example-cinema.test/films/',
+    color: 'blue',
+  },
+  {
+    url: 'https://example-cinema.test/films/',
+    baseUrl: 'https://example-cinema.test',
+    film: 'section.film',
+    title: 'h2 a',
+    credits: { kind: 'lines', selector: 'p.credits', facts: /\bmin\b/ },
+    dateHeader: 'div.day',
+    dateFormat: 'iso',
+    dateAttribute: 'data-date',
+    time: 'a.time',
+    ticketAttribute: 'data-ticket',
+    sourceIdPattern: /\/buy\/(\d+)/,
+  }
+);
+
+describe('selectorTheater', () => {
+  it('runs a definition with attribute dates and loose time text', async () => {
+    const showtimes = await theater.scrape(fixtureContext(ROUTES));
+    expect(showtimes.map(s => [s.id, s.date, s.time, s.ticketUrl, s.availability])).toEqual([
+      ['example-perf-9001', '2026-02-18', '6:00 PM', 'https://example-cinema.test/buy/9001', undefined],
+      ['example-perf-9002', '2026-02-18', '9:15 PM', 'https://example-cinema.test/buy/9002', 'sold_out'],
+      ['example-perf-9003', '2026-02-19', '12:30 PM', 'https://example-cinema.test/buy/9003', undefined],
+    ]);
+    expect(showtimes[0]).toMatchObject({
+      film: 'La Chimera',
+      directors: ['Alice Rohrwacher'],
+      year: 2023,
+      runtimeMinutes: 130,
+      format: 'DCP',
+    });
+  });
+
+  it('throws when the listing page is unavailable', async () => {
+    await expect(theater.scrape(fixtureContext({}))).rejects.toThrow('Example Cinema: HTTP 404');
+  });
+});
@@ -0,0 +1,113 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { Showtime } from '@/types/showtime';
+import { parseIcsFeed, parseScreeningEvents } from '../structured';
+
+const FIXTURES_DIR = join(__dirname, '..', '__fixtures__', 'structured');
+const TODAY = '2026-02-18';
+
+const THEATER = {
+  id: 'example',
+  name: 'Example Cinema',
+  website: 'https://example-cinema.test/calendar/',
+};
+
+const HINTS = {
+  sourceIdPattern: /[?&]session=(\d+)/,
+  venues: { 'main screen': 'Main Screen', 'screen 2': 'Screen 2' },
+  stripFromTitle: /^Opening Night:\s*/i,
+  baseUrl: 'https://example-cinema.test',
+};
+
+function fixture(name: string): string {
+  return readFileSync(join(FIXTURES_DIR, name), 'utf8');
+}
+
+describe('parseScreeningEvents', () => {
+  it('maps ScreeningEvent and Event blocks onto showtimes', () => {
+    const showtimes = parseScreeningEvents(fixture('screenings.html'), THEATER, TODAY, HINTS);
+    expect(showtimes).toEqual(EXPECTED_JSONLD);
+  });
+
+  it('returns nothing for a page without JSON-LD', () => {
+    expect(parseScreeningEvents('<html><body><h1>Calendar</h1></body></html>', THEATER, TODAY, HINTS)).toEqual([]);
+  });
+});
+
+describe('parseIcsFeed', () => {
+  it('maps VEVENTs onto showtimes', () => {
+    const showtimes = parseIcsFeed(fixture('calendar.ics'), THEATER, TODAY, HINTS);
+    expect(showtimes).toEqual(EXPECTED_ICS);
+  });
+});
+
+const EXPECTED_JSONLD: Showtime[] = [
+  {
+    id: 'example-perf-5001',
+    film: 'Paris, Texas',
+    theater: 'Example Cinema',
+    date: '2026-02-18',
+    time: '7:30 PM',
+    ticketUrl: 'https://example-cinema.test/tickets/?session=5001',
+    imageUrl: 'https://example-cinema.test/images/paris-texas.jpg',
+    description: 'Travis Henderson wanders out of the desert after four years.',
+    directors: ['Wim Wenders'],
+    cast: ['Harry Dean Stanton', 'Nastassja Kinski'],
+    year: 1984,
+    runtimeMinutes: 147,
+    format: '35mm',
+    venue: 'Main Screen',
+    series: { name: 'Wenders on the Road', url: 'https://example-cinema.test/series/wenders/' },
+  },
+  {
+    id: 'example-perf-5002',
+    film: 'Paris, Texas',
+    theater: 'Example Cinema',
+    date: '2026-02-19',
+    time: '9:00 PM',
+    ticketUrl: 'https://example-cinema.test/tickets/?session=5002',
+    directors: ['Wim Wenders'],
+    venue: 'Screen 2',
+    availability: 'sold_out',
+  },
+  {
+    id: 'example-members-sneak-preview-2026-02-22-tba',
+    film: 'Members\' Sneak Preview',
+    theater: 'Example Cinema',
+    date: '2026-02-22',
+    time: 'Times TBA',
+    timesTba: true,
+    ticketUrl: 'https://example-cinema.test/events/sneak-preview/',
+  },
+];
+
+const EXPECTED_ICS: Showtime[] = [
+  {
+    id: 'example-perf-6001',
+    film: 'Alice in the Cities',
+    theater: 'Example Cinema',
+    date: '2026-02-18',
+    time: '7:00 PM',
+    ticketUrl: 'https://example-cinema.test/tickets/?session=6001',
+    description: 'Wim Wenders, 1974. A journalist is left to look after a young girl.',
+    venue: 'Screen 2',
+  },
+  {
+    id: 'example-perf-6002',
+    film: 'Wings of Desire',
+    theater: 'Example Cinema',
+    date: '2026-02-19',
+    time: '9:00 PM',
+    ticketUrl: 'https://example-cinema.test/tickets/?session=6002',
+  },
+  {
+    id: 'example-perf-evt-6003-example-cinema-test',
+    film: 'Secret Screening',
+    theater: 'Example Cinema',
+    date: '2026-02-25',
+    time: 'Times TBA',
+    timesTba: true,
+    ticketUrl: 'https://example-cinema.test/calendar/',
+  },
+];
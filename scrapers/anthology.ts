@@ -0,0 +1,176 @@
+import { ProgramFilm, Showtime } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut } from '@/lib/availability';
+import { localDate } from '@/lib/datetime';
+import { FilmMetadata, compactMetadata, parseFormat, parseRuntime, parseYear, splitNames } from './metadata';
+import { parseListingDate } from './dates';
+import * as cheerio from 'cheerio';
+
+const BASE_URL = 'https://anthologyfilmarchives.org';
+const CALENDAR_URL = `${BASE_URL}/film_screenings/calendar`;
+
+export const anthology: TheaterDescriptor = {
+  id: 'anthology',
+  name: 'Anthology Film Archives',
+  neighborhood: 'East Village, Manhattan',
+  website: `${CALENDAR_URL}?view=list`,
+  color: 'rose',
+  probes: {
+    days: '.day',
+    showings: '.showing',
+    'showing times': '.showing-time',
+    films: 'li.film',
+    'ticket links': 'a.ticket-link',
+  },
+  scrape: scrapeAnthology,
+};
+
+/**
+ * Scraper for Anthology Film Archives (https://anthologyfilmarchives.org)
+ *
+ * The list view of the calendar shows one month per page
+ * (?view=list&month=2&year=2026); we read this month and next.
+ *
+ *   div.day[data-date="2026-02-18"]        – h2.day-header "Wednesday, February 18" if no data-date
+ *     div.showing#showing-59001            – one slot in the calendar
+ *       div.showing-time                   – "7:00 PM"
+ *       div.series a                       – repertory series, if any
+ *       h3.showing-title                   – program title ("MAYA DEREN: SHORTS PROGRAM")
+ *       ul.films > li.film                 – one per film in the slot
+ *         span.film-title                  – "MESHES OF THE AFTERNOON"
+ *         span.film-credits                – "by Maya Deren & Alexander Hammid / 1943 / 14 min / 16mm"
+ *       a.ticket-link                      – class "sold-out" / text "Sold Out" when sold out
+ *
+ * Much of the calendar is shorts programs with several films per slot. A
+ * slot with one film becomes an ordinary showtime carrying that film's
+ * credits; a slot with several is titled after the program and lists its
+ * films in `program`, so director preferences match any film in it.
+ */
+export async function scrapeAnthology(ctx: ScrapeContext = createScrapeContext()): Promise<Showtime[]> {
+  const today = localDate(ctx.now);
+  const [thisMonth, nextMonth] = calendarUrls(today);
+
+  const response = await ctx.fetch(thisMonth);
+  if (!response.ok) {
+    throw new Error(`Anthology Film Archives: HTTP ${response.status}`);
+  }
+  const pages = [await response.text()];
+
+  // Next month's calendar is often not up yet (a 404). Any other failure
+  // fails the run, or next month's screenings would drop out of the
+  // snapshot as if they'd been cancelled.
+  const next = await ctx.fetch(nextMonth);
+  if (next.ok) {
+    pages.push(await next.text());
+  } else if (next.status !== 404) {
+    throw new Error(`Anthology Film Archives: HTTP ${next.status} for ${nextMonth}`);
+  }
+
+  const showtimes: Showtime[] = [];
+  const seenIds = new Set<string>();
+  for (const html of pages) {
+    for (const showtime of parseCalendar(cheerio.load(html), today)) {
+      if (seenIds.has(showtime.id)) continue;
+      seenIds.add(showtime.id);
+      showtimes.push(showtime);
+    }
+  }
+
+  console.log(`Anthology Film Archives: Found ${showtimes.length} showtimes`);
+  return showtimes;
+}
+
+/** List-view calendar URLs for the month containing today and the next one. */
+function calendarUrls(today: string): [string, string] {
+  const year = parseInt(today.slice(0, 4), 10);
+  const month = parseInt(today.slice(5, 7), 10);
+  const url = (y: number, m: number) => `${CALENDAR_URL}?view=list&month=${m}&year=${y}`;
+  return [url(year, month), month === 12 ? url(year + 1, 1) : url(year, month + 1)];
+}
+
+/** Every showing on one month's calendar, from today on. */
+function parseCalendar($: cheerio.CheerioAPI, today: string): Showtime[] {
+  const showtimes: Showtime[] = [];
+
+  $('.day').each((_, dayEl) => {
+    const $day = $(dayEl);
+    const dataDate = $day.attr('data-date') || '';
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(dataDate)
+      ? dataDate
+      : parseListingDate($day.find('.day-header').first().text(), today);
+    if (!date || date < today) return;
+
+    $day.find('.showing').each((_, showingEl) => {
+      const $showing = $(showingEl);
+      const match = $showing.find('.showing-time').first().text().match(/(\d{1,2}:\d{2})\s*([AP])\.?M/i);
+      if (!match) return;
+      const time = `${match[1]} ${match[2].toUpperCase()}M`;
+
+      const films: ProgramFilm[] = [];
+      $showing.find('li.film').each((_, li) => {
+        const title = $(li).find('.film-title').first().text().replace(/\s+/g, ' ').trim();
+        if (!title) return;
+        films.push({ title, ...parseFilmCredits($(li).find('.film-credits').first().text()) });
+      });
+
+      const heading = $showing.find('.showing-title').first().text().replace(/\s+/g, ' ').trim();
+      const film = heading || films[0]?.title;
+      if (!film) return;
+
+      const $tickets = $showing.find('a.ticket-link').first();
+      const href = $tickets.attr('href');
+      const ticketUrl = href ? absoluteUrl(href) : `${CALENDAR_URL}?view=list#${$showing.attr('id') ?? ''}`;
+      // "showing-59001"
+      const sourceId = $showing.attr('id')?.match(/(\d+)$/)?.[1];
+
+      // A single film carries its own credits; a program lists its films
+      const only = films.length === 1 ? films[0] : undefined;
+      const metadata: FilmMetadata = only
+        ? compactMetadata({ directors: only.directors, year: only.year, runtimeMinutes: only.runtimeMinutes, format: only.format })
+        : {};
+      const program = films.length > 1 ? films : undefined;
+
+      showtimes.push({
+        id: showtimeId(anthology.id, { film, directors: metadata.directors, date, time, sourceId }),
+        film,
+        theater: anthology.name,
+        date,
+        time,
+        ticketUrl,
+        description: $showing.find('.showing-notes').first().text().replace(/\s+/g, ' ').trim().slice(0, 300) || undefined,
+        ...metadata,
+        ...(program ? { program } : {}),
+        ...(looksSoldOut($tickets.attr('class'), $tickets.text()) ? { availability: 'sold_out' as const } : {}),
+      });
+    });
+  });
+
+  return showtimes;
+}
+
+/**
+ * "by Maya Deren & Alexander Hammid / 1943 / 14 min / 16mm". Shorts can run
+ * a single-digit number of minutes, which parseRuntime won't read alone.
+ */
+function parseFilmCredits(text: string): Omit<ProgramFilm, 'title'> {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const by = clean.match(/^by\s+([^/]+)/i);
+  const rest = by ? clean.slice(by[0].length) : clean;
+  return compactMetadata({
+    directors: by ? splitNames(by[1]) : undefined,
+    year: parseYear(rest),
+    runtimeMinutes: parseRuntime(rest) ?? shortRuntime(rest),
+    format: parseFormat(rest),
+  });
+}
+
+function shortRuntime(text: string): number | undefined {
+  const match = text.match(/(?:^|\/)\s*(\d{1,2})\s*min\b/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function absoluteUrl(href: string): string {
+  return href.startsWith('http') ? href : `${BASE_URL}${href}`;
+}
@@ -1,6 +1,29 @@
 import { Showtime } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut } from '@/lib/availability';
+import { addDays, localDate } from '@/lib/datetime';
+import { FilmMetadata, compactMetadata, parseFormat, parseLanguage, parseRuntime, parseYear, splitNames } from './metadata';
+import { parseListingDate, parseListingRange } from './dates';
 import * as cheerio from 'cheerio';
 
+export const bam: TheaterDescriptor = {
+  id: 'bam',
+  name: 'BAM Rose Cinemas',
+  neighborhood: 'Fort Greene, Brooklyn',
+  website: 'https://www.bam.org/film',
+  color: 'blue',
+  probes: {
+    'film blocks': '.productionblock[data-sort-genre="Film"]',
+    'detail links': 'a.btn[href^="/film/"]',
+    'performance days': '.performance-day',
+    'performance times': 'a.performance-time',
+    credits: '.production-credits li',
+  },
+  scrape: scrapeBAM,
+};
+
 /**
  * Scraper for BAM Rose Cinemas (https://www.bam.org/film)
  * 
@@ -17,95 +40,216 @@ import * as cheerio from 'cheerio';
  *   - a.btn[href^="/film/"]: detail page link
  *   - picture img: film poster
  * 
- * Note: Specific showtimes (times of day) are loaded client-side and not
- * available in the server-rendered HTML. We create entries for each date
- * in the film's run with a "See Times" placeholder.
+ * The listing only has the date range, so we follow each production's
+ * detail page, which lists every screening server-side:
+ *   div.performance-day[data-date="2026-02-18"]   – one per date
+ *     h4                                         – "Wed, Feb 18" (if data-date is missing)
+ *     a.performance-time                         – time text ("4:30PM") + per-performance ticket link
+ *                                                  (class "sold-out" when sold out)
+ *   ul.production-credits > li                   – "Directed by …", "With …",
+ *                                                  "2023 · 133min · Italian with English subtitles · DCP"
+ *
+ * When a production's detail page lists no times (or it has none), we fall
+ * back to one entry per date in the run, flagged `timesTba`. A run whose
+ * dates can't be read ("Now Playing") is left out rather than guessed. A
+ * detail page that fails to load fails the scrape, so the previous snapshot
+ * keeps its real times; one that's gone (404) leaves its production out.
  */
-export async function scrapeBAM(): Promise<Showtime[]> {
-  try {
-    const url = 'https://www.bam.org/film';
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-      }
-    });
-
-    if (!response.ok) {
-      console.error(`BAM: HTTP ${response.status}`);
-      return [];
-    }
-
-    const html = await response.text();
-    const $ = cheerio.load(html);
-    const showtimes: Showtime[] = [];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Select all film production blocks
-    $('.productionblock[data-sort-genre="Film"]').each((_, element) => {
-      try {
-        const $el = $(element);
+export async function scrapeBAM(ctx: ScrapeContext = createScrapeContext()): Promise<Showtime[]> {
+  const url = 'https://www.bam.org/film';
+  const response = await ctx.fetch(url);
 
-        // Extract film title from data attribute (most reliable)
-        const film = $el.attr('data-sort-title')?.trim();
-        if (!film) return;
+  if (!response.ok) {
+    throw new Error(`BAM: HTTP ${response.status}`);
+  }
 
-        // Extract date range text
-        const dateText = $el.find('.bam-block-2x2-date').first().text().trim();
+  const html = await response.text();
+  const $ = cheerio.load(html);
+  const today = localDate(ctx.now);
 
-        // Extract description
-        const description = $el.find('.bam-block-2x2-hover-content-body').first().text().trim();
+  // Only include dates from today onward (within 2 weeks)
+  const twoWeeksOut = addDays(today, 14);
+  const inWindow = (date: string) => date >= today && date <= twoWeeksOut;
 
-        // Extract ticket URL
-        const ticketUrl = $el.find('a.buy-button').first().attr('href') || '';
+  // Step 1: Collect film productions from the listing
+  const productions: BamProduction[] = [];
+  $('.productionblock[data-sort-genre="Film"]').each((_, element) => {
+    try {
+      const $el = $(element);
 
-        // Extract detail page URL
-        const detailPath = $el.find('a.btn[href^="/film/"]').first().attr('href') || '';
-        const detailUrl = detailPath ? `https://www.bam.org${detailPath}` : url;
+      // Extract film title from data attribute (most reliable)
+      const film = $el.attr('data-sort-title')?.trim();
+      if (!film) return;
 
-        // Extract image URL
-        const imgEl = $el.find('.bam-block-2x2-top img').first();
-        let imageUrl = imgEl.attr('src') || '';
-        if (imageUrl && !imageUrl.startsWith('http')) {
-          imageUrl = `https://www.bam.org${imageUrl}`;
-        }
-        // Clean up query params for a nicer image
-        if (imageUrl) {
-          imageUrl = imageUrl.split('?')[0];
-        }
+      // Extract detail page URL
+      const detailPath = $el.find('a.btn[href^="/film/"]').first().attr('href') || '';
 
-        // Parse the date range to generate individual date entries
-        const dates = parseDateRange(dateText, $el.attr('data-sort-date') || '');
+      // Extract image URL
+      const imgEl = $el.find('.bam-block-2x2-top img').first();
+      let imageUrl = imgEl.attr('src') || '';
+      if (imageUrl && !imageUrl.startsWith('http')) {
+        imageUrl = `https://www.bam.org${imageUrl}`;
+      }
+      // Clean up query params for a nicer image
+      if (imageUrl) {
+        imageUrl = imageUrl.split('?')[0];
+      }
 
-        // Filter to only include dates from today onward (within 2 weeks)
-        const twoWeeksOut = new Date(today);
-        twoWeeksOut.setDate(twoWeeksOut.getDate() + 14);
+      productions.push({
+        film: decodeHtmlEntities(film),
+        dateText: $el.find('.bam-block-2x2-date').first().text().trim(),
+        description: $el.find('.bam-block-2x2-hover-content-body').first().text().trim() || undefined,
+        ticketUrl: $el.find('a.buy-button').first().attr('href') || '',
+        detailUrl: detailPath ? `https://www.bam.org${detailPath}` : undefined,
+        imageUrl: imageUrl || undefined,
+      });
+    } catch (err) {
+      console.error('BAM: Error parsing production block', err);
+    }
+  });
 
-        for (const date of dates) {
-          const dateObj = new Date(date + 'T00:00:00');
-          if (dateObj < today || dateObj > twoWeeksOut) continue;
+  // Step 2: Follow each detail page for real performance times
+  const perProduction = await Promise.all(
+    productions.map(async (production) => {
+      const page = production.detailUrl
+        ? await scrapeProductionPage(ctx, production.detailUrl, today)
+        : { performances: [], metadata: {} };
+      if (!page) {
+        console.warn(`BAM: Detail page for ${production.film} not found, leaving it out`);
+        return [];
+      }
+      const { performances, metadata } = page;
+      const showtimes: Showtime[] = [];
 
+      if (performances.length > 0) {
+        for (const { date, time, ticketUrl, performanceId, soldOut } of performances) {
+          if (!inWindow(date)) continue;
           showtimes.push({
-            id: `bam-${film}-${date}`.replace(/\s+/g, '-').replace(/[^a-z0-9-]/gi, '').toLowerCase(),
-            film: decodeHtmlEntities(film),
-            theater: 'BAM Rose Cinemas',
+            id: showtimeId(bam.id, { film: production.film, directors: metadata.directors, date, time, sourceId: performanceId }),
+            film: production.film,
+            theater: bam.name,
             date,
-            time: 'See Times',
-            ticketUrl: ticketUrl || detailUrl,
-            imageUrl: imageUrl || undefined,
-            description: description || undefined,
+            time,
+            ticketUrl,
+            imageUrl: production.imageUrl,
+            description: production.description,
+            ...metadata,
+            ...(soldOut ? { availability: 'sold_out' as const } : {}),
           });
         }
-      } catch (err) {
-        console.error('BAM: Error parsing production block', err);
+        return showtimes;
       }
-    });
 
-    return showtimes;
-  } catch (error) {
-    console.error('BAM scraper error:', error);
-    return [];
+      // Fallback: no times published — one "times TBA" entry per date in the run
+      const dates = parseDateRange(production.dateText, today);
+      if (dates.length === 0) {
+        console.warn(`BAM: No times or dates for ${production.film} ("${production.dateText}"), leaving it out`);
+      }
+      for (const date of dates) {
+        if (!inWindow(date)) continue;
+        showtimes.push({
+          id: showtimeId(bam.id, { film: production.film, directors: metadata.directors, date, time: TIMES_TBA, timesTba: true }),
+          film: production.film,
+          theater: bam.name,
+          date,
+          time: TIMES_TBA,
+          timesTba: true,
+          ticketUrl: production.ticketUrl || production.detailUrl || url,
+          imageUrl: production.imageUrl,
+          description: production.description,
+          ...metadata,
+        });
+      }
+      return showtimes;
+    })
+  );
+
+  return perProduction.flat();
+}
+
+const TIMES_TBA = 'Times TBA';
+
+interface BamProduction {
+  film: string;
+  dateText: string;
+  description?: string;
+  ticketUrl: string;
+  detailUrl?: string;
+  imageUrl?: string;
+}
+
+interface BamPerformance {
+  date: string;      // ISO date
+  time: string;      // e.g. "7:30 PM"
+  ticketUrl: string; // per-performance ticket link
+  performanceId?: string; // BAM's ID for the performance, from the ticket link
+  soldOut: boolean;
+}
+
+/**
+ * Fetch a production's detail page and read its listed performances and
+ * credits. Returns null if the page doesn't exist; throws if it fails to
+ * load, so a flaky page can't pass for one with no times.
+ */
+async function scrapeProductionPage(
+  ctx: ScrapeContext,
+  detailUrl: string,
+  today: string
+): Promise<{ performances: BamPerformance[]; metadata: FilmMetadata } | null> {
+  const res = await ctx.fetch(detailUrl);
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`BAM: HTTP ${res.status} for ${detailUrl}`);
   }
+  const $ = cheerio.load(await res.text());
+  const performances: BamPerformance[] = [];
+
+  $('.performance-day').each((_, dayEl) => {
+    const $day = $(dayEl);
+    const dataDate = $day.attr('data-date') || '';
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(dataDate)
+      ? dataDate
+      : parseListingDate($day.find('h4').first().text(), today);
+    if (!date) return;
+
+    $day.find('a.performance-time').each((_, timeEl) => {
+      const $time = $(timeEl);
+      const match = $time.text().match(/(\d{1,2}:\d{2})\s*([AP]M)/i);
+      if (!match) return;
+      const href = $time.attr('href') || detailUrl;
+      performances.push({
+        date,
+        time: `${match[1]} ${match[2].toUpperCase()}`,
+        ticketUrl: href.startsWith('http') ? href : `https://www.bam.org${href}`,
+        // ".../performance/10481" or ".../tickets/10485"
+        performanceId: href.match(/\/(\d+)\/?(?:[?#].*)?$/)?.[1],
+        soldOut: looksSoldOut($time.attr('class'), $time.text()),
+      });
+    });
+  });
+
+  return { performances, metadata: parseCredits($) };
+}
+
+/** Read "Directed by", "With" and the year/runtime/language/format line. */
+function parseCredits($: cheerio.CheerioAPI): FilmMetadata {
+  const metadata: FilmMetadata = {};
+  $('.production-credits li').each((_, li) => {
+    const text = $(li).text().replace(/\s+/g, ' ').trim();
+    const directed = text.match(/^Directed by\s+(.+)$/i);
+    const cast = text.match(/^With\s+(.+)$/i);
+    if (directed) {
+      metadata.directors = splitNames(directed[1]);
+    } else if (cast) {
+      metadata.cast = splitNames(cast[1]);
+    } else {
+      metadata.year ??= parseYear(text);
+      metadata.runtimeMinutes ??= parseRuntime(text);
+      metadata.language ??= parseLanguage(text);
+      metadata.format ??= parseFormat(text);
+    }
+  });
+  return compactMetadata(metadata);
 }
 
 /**
@@ -114,72 +258,16 @@ export async function scrapeBAM(): Promise<Showtime[]> {
  * Handles formats like:
  *   - "Feb 6—Feb 19, 2026" (date range)
  *   - "Wed, Feb 11, 2026" (single date)
- *   - "Now Playing" (use data-sort-date as start, assume 2 weeks)
+ *
+ * Anything else ("Now Playing") says nothing about which days it plays,
+ * so no dates are returned.
  */
-function parseDateRange(dateText: string, sortDate: string): string[] {
-  const dates: string[] = [];
-  const currentYear = new Date().getFullYear();
-
-  // Try range format: "Feb 6—Feb 19, 2026" or "Feb 6 — Feb 19, 2026"
-  const rangeMatch = dateText.match(
-    /([A-Z][a-z]+)\s+(\d{1,2})\s*[—–-]\s*([A-Z][a-z]+)\s+(\d{1,2}),?\s*(\d{4})/
-  );
-  if (rangeMatch) {
-    const [, startMonth, startDay, endMonth, endDay, year] = rangeMatch;
-    const start = new Date(`${startMonth} ${startDay}, ${year}`);
-    const end = new Date(`${endMonth} ${endDay}, ${year}`);
-    
-    if (!isNaN(start.getTime()) && !isNaN(end.getTime())) {
-      const d = new Date(start);
-      while (d <= end) {
-        dates.push(formatISO(d));
-        d.setDate(d.getDate() + 1);
-      }
-      return dates;
-    }
-  }
-
-  // Try single date format: "Wed, Feb 11, 2026"
-  const singleMatch = dateText.match(
-    /(?:[A-Z][a-z]+,?\s+)?([A-Z][a-z]+)\s+(\d{1,2}),?\s*(\d{4})/
-  );
-  if (singleMatch) {
-    const [, month, day, year] = singleMatch;
-    const d = new Date(`${month} ${day}, ${year}`);
-    if (!isNaN(d.getTime())) {
-      dates.push(formatISO(d));
-      return dates;
-    }
-  }
-
-  // Fallback: "Now Playing" or unrecognized — use data-sort-date
-  if (sortDate) {
-    // sortDate format: "2025-11-26-00:00:00"
-    const datePartMatch = sortDate.match(/^(\d{4}-\d{2}-\d{2})/);
-    if (datePartMatch) {
-      const start = new Date(datePartMatch[1] + 'T00:00:00');
-      // For "Now Playing", generate dates for next 7 days from today
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const d = new Date(today);
-      for (let i = 0; i < 7; i++) {
-        dates.push(formatISO(d));
-        d.setDate(d.getDate() + 1);
-      }
-      return dates;
-    }
-  }
-
-  // Last resort: just today
-  dates.push(formatISO(new Date()));
-  return dates;
-}
+function parseDateRange(dateText: string, today: string): string[] {
+  const range = parseListingRange(dateText, today);
+  if (range) return range;
 
-function formatISO(date: Date): string {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
+  const single = parseListingDate(dateText, today);
+  return single ? [single] : [];
 }
 
 function decodeHtmlEntities(str: string): string {
@@ -0,0 +1,218 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import { Showtime } from '@/types/showtime';
+import { TheaterDescriptor } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { THEATERS, enrichShowtimes, sortShowtimes } from './index';
+import {
+  FetchedPage,
+  diffShowtimes,
+  fixtureFileName,
+  formatDiff,
+  formatProbes,
+  formatTable,
+  probePages,
+  recordingFetch,
+  replayFetch,
+} from './devtools';
+
+/**
+ * Scraper developer CLI: run one theater (or all of them) outside the app
+ * and see exactly what it returns.
+ *
+ *   npm run -s scrape -- [theater ...] [options]
+ */
+
+const FIXTURES_DIR = join(__dirname, '__fixtures__');
+
+const USAGE = `Usage: npm run -s scrape -- [theater ...] [options]
+
+Runs the named scrapers (all of them when none are named) and prints what
+each returned.
+
+Options:
+  --json          print showtimes as JSON, keyed by theater, instead of a table
+  --out FILE      also save this run to FILE, for a later --diff
+  --diff FILE     compare with a run saved by --out (or --json)
+  --diff replay   compare with a scrape of the recorded fixtures
+  --record        save every page fetched under scrapers/__fixtures__/<theater>/
+  --force         let --record overwrite fixtures that already exist
+  --replay        scrape the recorded fixtures instead of the live site
+  --probe         print selector hit counts for every page fetched; automatic
+                  for a theater that fails or finds nothing
+  --list          list theater IDs and exit
+  -h, --help      show this help
+
+Theaters: ${THEATERS.map(t => t.id).join(', ')}`;
+
+/** A saved run, as written by --out and --json. */
+interface SavedRun {
+  savedAt: string;
+  theaters: Record<string, Showtime[]>;
+}
+
+/** What record writes beside the pages: the routes a fixture test needs. */
+interface Recording {
+  savedAt: string;
+  routes: Record<string, string>; // URL → path under scrapers/__fixtures__
+}
+
+interface TheaterRun {
+  theater: TheaterDescriptor;
+  showtimes: Showtime[];
+  pages: FetchedPage[];
+  error?: string;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      out: { type: 'string' },
+      diff: { type: 'string' },
+      record: { type: 'boolean' },
+      force: { type: 'boolean' },
+      replay: { type: 'boolean' },
+      probe: { type: 'boolean' },
+      list: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.info(USAGE);
+    return 0;
+  }
+  if (values.list) {
+    for (const t of THEATERS) console.info(`${t.id.padEnd(12)} ${t.name}`);
+    return 0;
+  }
+  if (values.record && values.replay) {
+    throw new Error('--record and --replay cannot be combined');
+  }
+
+  const theaters = positionals.length === 0 ? THEATERS : positionals.map((id) => {
+    const theater = THEATERS.find(t => t.id === id);
+    if (!theater) throw new Error(`Unknown theater "${id}". Known: ${THEATERS.map(t => t.id).join(', ')}`);
+    return theater;
+  });
+
+  // Scrapers log progress with console.log; keep stdout for results
+  const print = console.log;
+  console.log = console.error;
+
+  const runs: TheaterRun[] = [];
+  for (const theater of theaters) {
+    const run = values.replay ? await replay(theater) : await scrape(theater, createScrapeContext().fetch, new Date());
+    runs.push(run);
+    if (values.record && !run.error) record(theater, run.pages, values.force ?? false);
+  }
+
+  const saved: SavedRun = {
+    savedAt: new Date().toISOString(),
+    theaters: Object.fromEntries(runs.map(r => [r.theater.id, r.showtimes])),
+  };
+  if (values.out) {
+    writeFileSync(values.out, JSON.stringify(saved, null, 2) + '\n');
+    console.error(`Saved ${values.out}`);
+  }
+  if (values.json) print(JSON.stringify(saved, null, 2));
+
+  const baseline = values.diff === 'replay'
+    ? Object.fromEntries(await Promise.all(theaters.map(async t => [t.id, (await replay(t)).showtimes] as const)))
+    : values.diff ? (JSON.parse(readFileSync(values.diff, 'utf8')) as SavedRun).theaters : undefined;
+
+  for (const run of runs) {
+    const { theater, showtimes, pages, error } = run;
+    if (!values.json) {
+      print(`\n${theater.name} (${theater.id}): ${error ? `FAILED — ${error}` : `${showtimes.length} showtimes`}`);
+      if (showtimes.length > 0) print(formatTable(showtimes));
+    }
+    if (values.probe || error || showtimes.length === 0) {
+      console.error(`\n${theater.name}: ${pages.length} page${pages.length !== 1 ? 's' : ''} fetched`);
+      if (pages.length > 0) console.error(formatProbes(probePages(pages, theater.probes ?? {})));
+    }
+    if (baseline) {
+      const before = baseline[theater.id];
+      if (!before) {
+        print(`\n${theater.name}: nothing to compare against`);
+        continue;
+      }
+      const diff = formatDiff(diffShowtimes(before, showtimes));
+      print(`\n${theater.name} vs ${values.diff}:${diff ? '' : ' no changes'}`);
+      if (diff) print(diff);
+    }
+  }
+
+  return runs.some(r => r.error) ? 1 : 0;
+}
+
+/** Run one scraper through a recording fetch, catching its failure. */
+async function scrape(theater: TheaterDescriptor, fetch: typeof globalThis.fetch, now: Date): Promise<TheaterRun> {
+  const recorder = recordingFetch(fetch);
+  try {
+    const showtimes = await theater.scrape(createScrapeContext({ fetch: recorder.fetch, now }));
+    return { theater, showtimes: sortShowtimes(enrichShowtimes(showtimes)), pages: recorder.pages };
+  } catch (error) {
+    return {
+      theater,
+      showtimes: [],
+      pages: recorder.pages,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/** Scrape a theater's recorded pages, with the clock at the time they were saved. */
+async function replay(theater: TheaterDescriptor): Promise<TheaterRun> {
+  const file = join(FIXTURES_DIR, theater.id, 'routes.json');
+  if (!existsSync(file)) {
+    return { theater, showtimes: [], pages: [], error: `No recording at ${relative(process.cwd(), file)}; run with --record first` };
+  }
+  const recording = JSON.parse(readFileSync(file, 'utf8')) as Recording;
+  const bodies = new Map(Object.entries(recording.routes).map(
+    ([url, path]) => [url, readFileSync(join(FIXTURES_DIR, path), 'utf8')]
+  ));
+  return scrape(theater, replayFetch(bodies), new Date(recording.savedAt));
+}
+
+/**
+ * Save the pages a scraper fetched as fixtures, plus a routes.json mapping
+ * each URL to its file — ready to paste into a fixture test's ROUTES.
+ */
+function record(theater: TheaterDescriptor, pages: FetchedPage[], force: boolean): void {
+  const dir = join(FIXTURES_DIR, theater.id);
+  const taken = new Set<string>(['routes.json']);
+  const routes: Record<string, string> = {};
+  const files: [string, string][] = [];
+
+  for (const page of pages) {
+    if (page.status !== 200 || page.url in routes) continue;
+    const name = fixtureFileName(page.url, taken);
+    routes[page.url] = `${theater.id}/${name}`;
+    files.push([join(dir, name), page.body]);
+  }
+
+  const recording: Recording = { savedAt: new Date().toISOString(), routes };
+  files.push([join(dir, 'routes.json'), JSON.stringify(recording, null, 2) + '\n']);
+
+  const existing = files.filter(([path]) => existsSync(path));
+  if (existing.length > 0 && !force) {
+    console.error(`${theater.name}: not recording; would overwrite ${existing.map(([path]) => relative(process.cwd(), path)).join(', ')} (use --force)`);
+    return;
+  }
+
+  mkdirSync(dir, { recursive: true });
+  for (const [path, body] of files) writeFileSync(path, body);
+  console.error(`${theater.name}: recorded ${files.length - 1} page${files.length !== 2 ? 's' : ''} to ${relative(process.cwd(), dir)}/`);
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+);
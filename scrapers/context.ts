@@ -0,0 +1,22 @@
+import { ScrapeContext } from '@/types/theater';
+import { createHttpClient } from '@/lib/http';
+
+/**
+ * Shared across scrape runs so per-host concurrency caps apply to every
+ * scraper at once and the conditional-GET cache survives between runs in
+ * a warm process.
+ */
+const scraperFetch = createHttpClient();
+
+/**
+ * Build the context scrapers run with: the shared resilient HTTP client and
+ * the current time, with any fields overridden (e.g. a fixture fetch in
+ * tests).
+ */
+export function createScrapeContext(overrides: Partial<ScrapeContext> = {}): ScrapeContext {
+  return {
+    fetch: scraperFetch,
+    now: new Date(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,120 @@
+import { addDays, dayOfWeek, daysBetween, isoDate } from '@/lib/datetime';
+
+/**
+ * Turning theater date text into ISO dates.
+ *
+ * Listings rarely print a year ("Tue Feb 17", "SAT FEB 21"), so it is
+ * inferred from today: a date is taken in the earliest year that doesn't
+ * put it more than LOOKBACK_DAYS in the past. "Jan 2" seen on Dec 28 is
+ * next January; "Dec 30" seen on Jan 3 is last week. When the text names a
+ * weekday too, that settles any remaining doubt.
+ *
+ * `today` is always a New York ISO date (see lib/datetime).
+ */
+
+/** How far in the past a listed date may be before it's read as next year. */
+const LOOKBACK_DAYS = 30;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MONTH_DAY = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s*(\d{4})\b)?/i;
+const WEEKDAY = /\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*\b/i;
+
+/** "Wed", "WEDNESDAY", "wed." → 3 (0 = Sunday); undefined if no weekday. */
+export function parseWeekday(text: string): number | undefined {
+  const match = text.match(WEEKDAY);
+  return match ? WEEKDAYS.indexOf(match[1].toLowerCase()) : undefined;
+}
+
+/** ISO date for a 1-based month and day, or null if the day doesn't exist. */
+function calendarDate(year: number, month: number, day: number): string | null {
+  const date = isoDate(year, month, day);
+  return day >= 1 && addDays(date, 0) === date ? date : null;
+}
+
+/**
+ * The year a month/day falls in, relative to today. Pass the weekday when
+ * the listing gives one.
+ */
+export function inferYear(month: number, day: number, today: string, weekday?: number): number | null {
+  const thisYear = parseInt(today.slice(0, 4), 10);
+  const candidates = [thisYear - 1, thisYear, thisYear + 1]
+    .map(year => ({ year, date: calendarDate(year, month, day) }))
+    .filter((c): c is { year: number; date: string } => c.date !== null)
+    .filter(c => daysBetween(today, c.date) >= -LOOKBACK_DAYS);
+
+  const match = weekday === undefined
+    ? candidates[0]
+    : candidates.find(c => dayOfWeek(c.date) === weekday) ?? candidates[0];
+  return match?.year ?? null;
+}
+
+/**
+ * Parse a listed date — "Tue Feb 17", "SAT FEB 21", "February 17",
+ * "Wed, Feb 11, 2026" — into an ISO date. An explicit year is used as
+ * written; otherwise it's inferred from today.
+ */
+export function parseListingDate(text: string, today: string): string | null {
+  const match = text.match(MONTH_DAY);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+  const day = parseInt(match[2], 10);
+  const year = match[3] ? parseInt(match[3], 10) : inferYear(month, day, today, parseWeekday(text));
+  return year === null ? null : calendarDate(year, month, day);
+}
+
+/**
+ * Parse a run like "Feb 6—Feb 19, 2026" or "Dec 26 – Jan 8" into every
+ * date it covers. A range whose end is before its start crosses New Year.
+ */
+export function parseListingRange(text: string, today: string): string[] | null {
+  const [startText, endText] = text.split(/\s*[—–-]\s*/);
+  if (!endText) return null;
+  const end = parseListingDate(endText, today);
+  const startMatch = startText.match(MONTH_DAY);
+  if (!end || !startMatch) return null;
+
+  // The start takes the end's year unless it names its own
+  const month = MONTHS.indexOf(startMatch[1].toLowerCase()) + 1;
+  const day = parseInt(startMatch[2], 10);
+  const endYear = parseInt(end.slice(0, 4), 10);
+  let start = startMatch[3]
+    ? calendarDate(parseInt(startMatch[3], 10), month, day)
+    : calendarDate(endYear, month, day);
+  if (start && start > end && !startMatch[3]) start = calendarDate(endYear - 1, month, day);
+  if (!start || start > end) return null;
+
+  return datesFrom(start, daysBetween(start, end) + 1);
+}
+
+/** `count` consecutive ISO dates starting at `start`. */
+export function datesFrom(start: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => addDays(start, i));
+}
+
+/**
+ * The date near today with the given weekday and day of month, e.g. a
+ * "Sat" tab marked "21". Looks a week either side of today; if nothing
+ * matches, falls back to the nearest such weekday.
+ */
+export function resolveWeekdayDate(weekday: number, dayOfMonth: number | undefined, today: string): string {
+  if (dayOfMonth !== undefined) {
+    for (let offset = -6; offset <= 7; offset++) {
+      const candidate = addDays(today, offset);
+      if (dayOfWeek(candidate) === weekday && parseInt(candidate.slice(8), 10) === dayOfMonth) {
+        return candidate;
+      }
+    }
+  }
+  return nearestWeekday(weekday, today);
+}
+
+/**
+ * The occurrence of a weekday in the current week window: up to three days
+ * back, otherwise ahead.
+ */
+export function nearestWeekday(weekday: number, today: string): string {
+  const diff = weekday - dayOfWeek(today);
+  return addDays(today, diff < -3 ? diff + 7 : diff);
+}
@@ -0,0 +1,179 @@
+import { Showtime } from '@/types/showtime';
+import * as cheerio from 'cheerio';
+
+/**
+ * Helpers behind the scraper CLI (scrapers/cli.ts): recording and
+ * replaying the pages a scraper fetches, counting selector hits on them,
+ * and printing or diffing the showtimes it returns.
+ */
+
+/** A page a scraper fetched, as the theater served it. */
+export interface FetchedPage {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Wrap a fetch so every response a scraper reads is also kept in `pages`,
+ * in request order.
+ */
+export function recordingFetch(inner: typeof fetch): { fetch: typeof fetch; pages: FetchedPage[] } {
+  const pages: FetchedPage[] = [];
+  const recording: typeof fetch = async (input, init) => {
+    const response = await inner(input, init);
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    pages.push({
+      url,
+      status: response.status,
+      contentType: response.headers.get('content-type') ?? '',
+      body: await response.clone().text(),
+    });
+    return response;
+  };
+  return { fetch: recording, pages };
+}
+
+/** A fetch serving saved bodies by URL; anything else is a 404, as in the fixture tests. */
+export function replayFetch(bodies: Map<string, string>): typeof fetch {
+  return async (input) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const body = bodies.get(url);
+    if (body === undefined) return new Response('Not found', { status: 404 });
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+  };
+}
+
+/**
+ * A fixture file name for a URL in the repo's style: its path, with
+ * slashes as dashes ("/film/bitter-rice" → "film-bitter-rice.html"), plus
+ * any query values. Names already in `taken` get a numeric suffix.
+ */
+export function fixtureFileName(url: string, taken: Set<string> = new Set()): string {
+  const { pathname, searchParams } = new URL(url);
+  const parts = [
+    ...pathname.split('/'),
+    ...Array.from(searchParams.values()),
+  ].map(part => part.toLowerCase().replace(/\.(html?|ics)$/, '').replace(/[^a-z0-9_]+/g, '-').replace(/^-+|-+$/g, ''));
+  const base = parts.filter(Boolean).join('-') || 'home';
+  const extension = /\.ics$/i.test(pathname) ? 'ics' : 'html';
+
+  let name = `${base}.${extension}`;
+  for (let n = 2; taken.has(name); n++) name = `${base}-${n}.${extension}`;
+  taken.add(name);
+  return name;
+}
+
+/** Selector hit counts on one fetched page. */
+export interface PageProbe {
+  url: string;
+  status: number;
+  bytes: number;
+  hits: Record<string, number>; // probe label → matching elements; empty for non-HTML pages
+}
+
+/** Count each probe's matches on every HTML page fetched. */
+export function probePages(pages: FetchedPage[], probes: Record<string, string>): PageProbe[] {
+  return pages.map((page) => {
+    const hits: Record<string, number> = {};
+    if (/html/i.test(page.contentType) || /^\s*</.test(page.body)) {
+      const $ = cheerio.load(page.body);
+      for (const [label, selector] of Object.entries(probes)) {
+        hits[label] = $(selector).length;
+      }
+    }
+    return { url: page.url, status: page.status, bytes: page.body.length, hits };
+  });
+}
+
+/** One screening as the table shows it: start, title and anything notable. */
+export function formatTable(showtimes: Showtime[]): string {
+  const rows = showtimes.map(s => [
+    s.date,
+    s.time,
+    truncate(s.film, 40),
+    s.venue ?? '',
+    flagsOf(s).join(' '),
+    s.id,
+  ]);
+  return formatColumns(['DATE', 'TIME', 'FILM', 'VENUE', 'FLAGS', 'ID'], rows);
+}
+
+/** Probe results as a table: one row per page, one column per probe. */
+export function formatProbes(probes: PageProbe[]): string {
+  const labels = Array.from(new Set(probes.flatMap(p => Object.keys(p.hits))));
+  const rows = probes.map(p => [
+    truncate(p.url, 60),
+    String(p.status),
+    String(p.bytes),
+    ...labels.map(label => (label in p.hits ? String(p.hits[label]) : '-')),
+  ]);
+  return formatColumns(['PAGE', 'STATUS', 'BYTES', ...labels.map(label => label.toUpperCase())], rows);
+}
+
+/** How two runs of a theater differ, matching showtimes by ID. */
+export interface ShowtimeDiff {
+  added: Showtime[];
+  removed: Showtime[];
+  changed: { before: Showtime; after: Showtime; fields: (keyof Showtime)[] }[];
+}
+
+export function diffShowtimes(before: Showtime[], after: Showtime[]): ShowtimeDiff {
+  const previous = new Map(before.map(s => [s.id, s]));
+  const current = new Map(after.map(s => [s.id, s]));
+  const diff: ShowtimeDiff = { added: [], removed: [], changed: [] };
+
+  for (const s of after) {
+    const old = previous.get(s.id);
+    if (!old) {
+      diff.added.push(s);
+      continue;
+    }
+    const keys = new Set([...Object.keys(old), ...Object.keys(s)] as (keyof Showtime)[]);
+    const fields = Array.from(keys).filter(key => JSON.stringify(old[key]) !== JSON.stringify(s[key]));
+    if (fields.length > 0) diff.changed.push({ before: old, after: s, fields });
+  }
+  for (const s of before) {
+    if (!current.has(s.id)) diff.removed.push(s);
+  }
+  return diff;
+}
+
+/** "+", "-" and "~" lines for a diff; empty when the runs match. */
+export function formatDiff(diff: ShowtimeDiff): string {
+  const line = (mark: string, s: Showtime) => `${mark} ${s.date} ${s.time.padEnd(8)} ${s.film}  (${s.id})`;
+  return [
+    ...diff.added.map(s => line('+', s)),
+    ...diff.removed.map(s => line('-', s)),
+    ...diff.changed.flatMap(({ before, after, fields }) => [
+      line('~', after),
+      ...fields.map(field => `    ${field}: ${preview(before[field])} → ${preview(after[field])}`),
+    ]),
+  ].join('\n');
+}
+
+function flagsOf(s: Showtime): string[] {
+  return [
+    ...(s.timesTba ? ['TBA'] : []),
+    ...(s.timeGuessed ? ['am/pm?'] : []),
+    ...(s.availability && s.availability !== 'available' ? [s.availability] : []),
+    ...(s.event ? [`event:${s.event}`] : []),
+    ...(s.series ? [`series:${s.series.name}`] : []),
+    ...(s.tags ?? []),
+  ];
+}
+
+function formatColumns(header: string[], rows: string[][]): string {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [format(header), ...rows.map(format)].join('\n');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function preview(value: unknown): string {
+  return value === undefined ? '(none)' : truncate(JSON.stringify(value), 80);
+}
@@ -1,19 +1,39 @@
-import { Showtime } from '@/types/showtime';
+import { Showtime, ShowtimeSeries } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut } from '@/lib/availability';
+import { localDate } from '@/lib/datetime';
+import {
+  FilmMetadata,
+  compactMetadata,
+  parseFormat,
+  parseLanguage,
+  parseRuntime,
+  parseYear,
+  splitNames,
+} from './metadata';
+import { parseListingDate, parseWeekday, resolveWeekdayDate } from './dates';
 import * as cheerio from 'cheerio';
 
 const BASE_URL = 'https://filmforum.org';
 const NOW_PLAYING_URL = `${BASE_URL}/now_playing`;
 
-const HEADERS = {
-  'User-Agent':
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-  'Accept-Language': 'en-US,en;q=0.5',
-};
-
-/** Day-of-week names to JS Date day index (0=Sun). */
-const DOW_MAP: Record<string, number> = {
-  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+export const filmForum: TheaterDescriptor = {
+  id: 'filmforum',
+  name: 'Film Forum',
+  neighborhood: 'West Houston St, Manhattan',
+  website: 'https://filmforum.org/now_playing',
+  color: 'amber',
+  probes: {
+    'day tabs': '#tabs > ul > li',
+    'weekly films': '#tabs strong > a[href*="/film/"]',
+    'ticket links': 'a[href*="my.filmforum.org/events/"]',
+    'series links': 'a[href*="/series/"]',
+    'upcoming dates': '.upcoming-dates li',
+    'ticket page times': 'time[datetime]',
+  },
+  scrape: scrapeFilmForum,
 };
 
 /**
@@ -44,298 +64,541 @@ const DOW_MAP: Record<string, number> = {
  *   </div>
  *
  * This gives us exact showtimes for every film for each day of the current week.
+ *
+ * Screenings further out are harvested from each film's detail page (see
+ * parseUpcomingDates). Films not playing this week are found through the
+ * coming-soon and series pages linked from now_playing, then merged and
+ * de-duplicated with the weekly table.
+ *
+ * Films in a series (a retrospective like "Italian Neorealism") link to the
+ * series page next to their title; the series' name, link and blurb are
+ * attached to each showtime as its series.
+ *
+ * Both list bare times ("9:45") without AM/PM. The period is read from each
+ * film's ticket page (see parseTicketTimes) where possible; otherwise it is
+ * guessed from cinema hours and the running order, and the showtime is
+ * flagged with timeGuessed.
  */
-export async function scrapeFilmForum(): Promise<Showtime[]> {
-  try {
-    const response = await fetch(NOW_PLAYING_URL, { headers: HEADERS });
-    if (!response.ok) {
-      console.error(`Film Forum: HTTP ${response.status}`);
-      return [];
+export async function scrapeFilmForum(ctx: ScrapeContext = createScrapeContext()): Promise<Showtime[]> {
+  const response = await ctx.fetch(NOW_PLAYING_URL);
+  if (!response.ok) {
+    throw new Error(`Film Forum: HTTP ${response.status}`);
+  }
+
+  const html = await response.text();
+  console.log(`Film Forum: Fetched now_playing page (${html.length} bytes)`);
+  const $ = cheerio.load(html);
+
+  // ----------------------------------------------------------------
+  // Step 1: Build ordered list of day-of-week from tab headers
+  // Tab list: <li class=sat><a href="#tabs-0">SAT</a></li> ...
+  // ----------------------------------------------------------------
+  const tabDays: { tabId: string; dow: number }[] = [];
+  $('#tabs > ul > li').each((_, li) => {
+    const $li = $(li);
+    const href = $li.find('a').attr('href') || '';
+    const tabId = href.replace('#', ''); // e.g., "tabs-0"
+    // The class on the <li> is the day abbreviation (e.g., "sat")
+    const classAttr = $li.attr('class') || '';
+    const dow = parseWeekday(classAttr.trim());
+    if (dow !== undefined && tabId) {
+      tabDays.push({ tabId, dow });
     }
+  });
+
+  if (tabDays.length === 0) {
+    logDiagnostics($, html);
+    throw new Error('Film Forum: Could not find tab day-of-week headers');
+  }
 
-    const html = await response.text();
-    console.log(`Film Forum: Fetched now_playing page (${html.length} bytes)`);
-    const $ = cheerio.load(html);
+  console.log(`Film Forum: Found ${tabDays.length} day tabs: ${tabDays.map(t => t.tabId).join(', ')}`);
+
+  // ----------------------------------------------------------------
+  // Step 1b: Build film-slug → ticket URL map from the main listing
+  // The page has links like: <a href="https://my.filmforum.org/events/bitter-rice">SHOWTIMES & TICKETS</a>
+  // near film links like: <a href="/film/bitter-rice">BITTER RICE</a>
+  // The ticket slug often differs from the film slug (e.g., billy-preston vs billy-preston-thats-the-way-god-planned-it)
+  // ----------------------------------------------------------------
+  const ticketUrlMap = new Map<string, string>();
+  $('a[href*="my.filmforum.org/events/"]').each((_, el) => {
+    const ticketHref = $(el).attr('href') || '';
+    // Find the nearest film link — walk up and look for an <a href="/film/...">
+    const $container = $(el).parent();
+    const filmLink = $container.find('a[href*="/film/"]').first().attr('href')
+      || $container.prev().find('a[href*="/film/"]').first().attr('href')
+      || $container.prevAll().find('a[href*="/film/"]').first().attr('href') || '';
+    const filmSlug = filmLink.split('/').pop() || '';
+    if (filmSlug && ticketHref) {
+      ticketUrlMap.set(filmSlug, ticketHref);
+    }
+  });
+  console.log(`Film Forum: Found ${ticketUrlMap.size} ticket URL mappings`);
+
+  // ----------------------------------------------------------------
+  // Step 2: For each tab, resolve the actual calendar date
+  // Each tab div has an HTML comment like <!-- 21 --> with the day number
+  // ----------------------------------------------------------------
+  const today = localDate(ctx.now);
+
+  // Film detail URL → title as the weekly table lists it (empty for films
+  // found elsewhere); used to title upcoming dates from detail pages
+  const filmTitles = new Map<string, string>();
+  // Film detail URL → the series it's programmed in
+  const filmSeries = new Map<string, ShowtimeSeries>();
+  // Directors named in a weekly-table title prefix, used when the detail page has none
+  const prefixDirectors = new Map<string, string[]>();
+
+  // Screenings as listed, before AM/PM is known; the first listing of a
+  // film/date/time wins, so the weekly table beats detail pages
+  const listed = new Map<string, ListedScreening>();
+  const addListing = (screening: ListedScreening) => {
+    const { filmUrl, date, clock } = screening;
+    const key = `${filmUrl}|${date}|${clock.hour}:${clock.minute}:${clock.period ?? ''}`;
+    if (!listed.has(key)) listed.set(key, screening);
+  };
+
+  for (const { tabId, dow } of tabDays) {
+    const $tab = $(`#${tabId}`);
+    if (!$tab.length) continue;
+
+    // Extract day-of-month from HTML comment (e.g., <!-- 21 -->)
+    const tabHtml = $tab.html() || '';
+    // Without one, fall back to the day-of-week relative to today
+    const commentMatch = tabHtml.match(/<!--\s*(\d{1,2})\s*-->/);
+    const tabDate = resolveWeekdayDate(dow, commentMatch ? parseInt(commentMatch[1], 10) : undefined, today);
 
     // ----------------------------------------------------------------
-    // Step 1: Build ordered list of day-of-week from tab headers
-    // Tab list: <li class=sat><a href="#tabs-0">SAT</a></li> ...
+    // Step 3: Parse film entries within this tab
+    // Each <p> has: <strong><a href="/film/...">TITLE</a></strong><br /><span>TIME</span>...
+    // Some also have a series link before the film title
     // ----------------------------------------------------------------
-    const tabDays: { tabId: string; dow: number }[] = [];
-    $('#tabs > ul > li').each((_, li) => {
-      const $li = $(li);
-      const href = $li.find('a').attr('href') || '';
-      const tabId = href.replace('#', ''); // e.g., "tabs-0"
-      // The class on the <li> is the day abbreviation (e.g., "sat")
-      const classAttr = $li.attr('class') || '';
-      const dowKey = classAttr.trim().toLowerCase();
-      const dow = DOW_MAP[dowKey];
-      if (dow !== undefined && tabId) {
-        tabDays.push({ tabId, dow });
+    $tab.find('p').each((_, p) => {
+      const $p = $(p);
+
+      // Film title: the <strong><a> text (last <strong> if there's a series prefix)
+      const $titleLink = $p.find('strong > a[href*="/film/"]').last();
+      if (!$titleLink.length) return;
+
+      // Clean up film title (remove <br> artifacts)
+      const rawFilm = $titleLink.text().replace(/\s+/g, ' ').trim();
+      if (!rawFilm) return;
+
+      // Check for director prefix (e.g., "Giuseppe De Santis' BITTER RICE")
+      // The <strong> may contain text before the <a>
+      const $strong = $titleLink.closest('strong');
+      const strongText = $strong.text().replace(/\s+/g, ' ').trim();
+      const film = strongText.length > rawFilm.length ? strongText : rawFilm;
+      const prefix = strongText.slice(0, strongText.length - rawFilm.length).trim();
+      const directors = prefix ? splitNames(prefix.replace(/['’]s?$/, '')) : undefined;
+
+      // Film detail URL
+      const filmUrl = absoluteUrl($titleLink.attr('href') || '');
+
+      // Ticket URL: look up the pre-scraped ticket link, fall back to the film detail page
+      const filmSlug = filmUrl.split('/').pop() || '';
+      const ticketUrl = ticketUrlMap.get(filmSlug) || filmUrl;
+
+      // Series link (optional)
+      const $seriesLink = $p.find('a[href*="/series/"]').first();
+      const seriesName = $seriesLink.text().replace(/\s+/g, ' ').trim();
+      if (seriesName && !filmSeries.has(filmUrl)) {
+        filmSeries.set(filmUrl, { name: seriesName, url: absoluteUrl($seriesLink.attr('href') || '') });
       }
-    });
 
-    if (tabDays.length === 0) {
-      console.error('Film Forum: Could not find tab day-of-week headers');
-      logDiagnostics($, html);
-      return [];
-    }
+      // Extract showtimes from <span> elements (class "sold-out" when sold out)
+      let timeCount = 0;
+      $p.find('span').each((_, span) => {
+        const timeText = $(span).text().trim();
+        const clock = parseListedTime(timeText);
+        if (!clock) return;
+        timeCount++;
+        addListing({
+          filmUrl,
+          film,
+          directors,
+          date: tabDate,
+          clock,
+          soldOut: looksSoldOut($(span).attr('class'), timeText),
+          ticketUrl,
+        });
+      });
 
-    console.log(`Film Forum: Found ${tabDays.length} day tabs: ${tabDays.map(t => t.tabId).join(', ')}`);
+      if (timeCount === 0) return;
 
-    // ----------------------------------------------------------------
-    // Step 1b: Build film-slug → ticket URL map from the main listing
-    // The page has links like: <a href="https://my.filmforum.org/events/bitter-rice">SHOWTIMES & TICKETS</a>
-    // near film links like: <a href="/film/bitter-rice">BITTER RICE</a>
-    // The ticket slug often differs from the film slug (e.g., billy-preston vs billy-preston-thats-the-way-god-planned-it)
-    // ----------------------------------------------------------------
-    const ticketUrlMap = new Map<string, string>();
-    $('a[href*="my.filmforum.org/events/"]').each((_, el) => {
-      const ticketHref = $(el).attr('href') || '';
-      // Find the nearest film link — walk up and look for an <a href="/film/...">
-      const $container = $(el).parent();
-      const filmLink = $container.find('a[href*="/film/"]').first().attr('href')
-        || $container.prev().find('a[href*="/film/"]').first().attr('href')
-        || $container.prevAll().find('a[href*="/film/"]').first().attr('href') || '';
-      const filmSlug = filmLink.split('/').pop() || '';
-      if (filmSlug && ticketHref) {
-        ticketUrlMap.set(filmSlug, ticketHref);
+      if (!filmTitles.has(filmUrl)) {
+        filmTitles.set(filmUrl, film);
+        if (directors) prefixDirectors.set(filmUrl, directors);
       }
     });
-    console.log(`Film Forum: Found ${ticketUrlMap.size} ticket URL mappings`);
-
-    // ----------------------------------------------------------------
-    // Step 2: For each tab, resolve the actual calendar date
-    // Each tab div has an HTML comment like <!-- 21 --> with the day number
-    // ----------------------------------------------------------------
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Collect film detail URLs → OG image map for enrichment later
-    const filmImageCache = new Map<string, string>();
+  }
 
-    const showtimes: Showtime[] = [];
+  console.log(`Film Forum: Found ${listed.size} showtimes from week schedule`);
 
-    for (const { tabId, dow } of tabDays) {
-      const $tab = $(`#${tabId}`);
-      if (!$tab.length) continue;
+  // ----------------------------------------------------------------
+  // Step 4: Discover films playing beyond this week from the
+  // coming-soon and series pages the now_playing page links to
+  // ----------------------------------------------------------------
+  const listingUrls = new Set<string>();
+  $('a[href*="/coming_soon"], a[href*="/series/"]').each((_, el) => {
+    listingUrls.add(absoluteUrl($(el).attr('href') || ''));
+  });
 
-      // Extract day-of-month from HTML comment (e.g., <!-- 21 -->)
-      const tabHtml = $tab.html() || '';
-      const commentMatch = tabHtml.match(/<!--\s*(\d{1,2})\s*-->/);
-      let isoDate: string;
-      if (commentMatch) {
-        const dayOfMonth = parseInt(commentMatch[1], 10);
-        isoDate = resolveDate(dow, dayOfMonth, today);
-      } else {
-        // Fallback: compute date from day-of-week relative to today
-        isoDate = isoDateForDow(dow, today);
+  // Series pages name and describe the series; every film on one is in it.
+  // Films found only here would drop out of the snapshot if a page failed
+  // to load, so that fails the run; a page that's gone (404) is skipped.
+  const seriesPages = new Map<string, ShowtimeSeries>();
+  await Promise.all(
+    Array.from(listingUrls).map(async (listingUrl) => {
+      const res = await ctx.fetch(listingUrl);
+      if (res.status === 404) return;
+      if (!res.ok) {
+        throw new Error(`Film Forum: HTTP ${res.status} for ${listingUrl}`);
       }
-
-      // ----------------------------------------------------------------
-      // Step 3: Parse film entries within this tab
-      // Each <p> has: <strong><a href="/film/...">TITLE</a></strong><br /><span>TIME</span>...
-      // Some also have a series link before the film title
-      // ----------------------------------------------------------------
-      $tab.find('p').each((_, p) => {
-        const $p = $(p);
-
-        // Film title: the <strong><a> text (last <strong> if there's a series prefix)
-        const $titleLink = $p.find('strong > a[href*="/film/"]').last();
-        if (!$titleLink.length) return;
-
-        // Clean up film title (remove <br> artifacts)
-        const rawFilm = $titleLink.text().replace(/\s+/g, ' ').trim();
-        if (!rawFilm) return;
-
-        // Check for director prefix (e.g., "Giuseppe De Santis' BITTER RICE")
-        // The <strong> may contain text before the <a>
-        const $strong = $titleLink.closest('strong');
-        const strongText = $strong.text().replace(/\s+/g, ' ').trim();
-        const film = strongText.length > rawFilm.length ? strongText : rawFilm;
-
-        // Film detail URL
-        const filmHref = $titleLink.attr('href') || '';
-        const filmUrl = filmHref.startsWith('http') ? filmHref : `${BASE_URL}${filmHref}`;
-
-        // Ticket URL: look up the pre-scraped ticket link, fall back to the film detail page
-        const filmSlug = filmHref.split('/').pop() || '';
-        const ticketUrl = ticketUrlMap.get(filmSlug) || filmUrl;
-
-        // Series name (optional)
-        const seriesLink = $p.find('a[href*="/series/"]').first();
-        const series = seriesLink.length ? seriesLink.text().trim() : undefined;
-
-        // Extract showtimes from <span> elements
-        const times: string[] = [];
-        $p.find('span').each((_, span) => {
-          const timeText = $(span).text().trim();
-          const parsed = parseTime(timeText);
-          if (parsed) times.push(parsed);
+      const $listing = cheerio.load(await res.text());
+      const seriesName = listingUrl.includes('/series/')
+        ? $listing('.main-title').first().text().replace(/\s+/g, ' ').trim()
+        : '';
+      if (seriesName) {
+        const description = $listing('.copy > p').first().text().replace(/\s+/g, ' ').trim().slice(0, 300);
+        seriesPages.set(listingUrl, {
+          name: seriesName,
+          url: listingUrl,
+          ...(description ? { description } : {}),
         });
+      }
+      $listing('.main-column a[href*="/film/"]').each((_, el) => {
+        const filmUrl = absoluteUrl($listing(el).attr('href') || '');
+        if (!filmTitles.has(filmUrl)) filmTitles.set(filmUrl, '');
+        if (seriesName && !filmSeries.has(filmUrl)) filmSeries.set(filmUrl, seriesPages.get(listingUrl)!);
+      });
+    })
+  );
+  console.log(`Film Forum: ${filmTitles.size} film pages to visit`);
+  // Past the cap, films' later dates (or, for films not playing this week,
+  // every screening) would quietly drop out of the snapshot
+  if (filmTitles.size > MAX_DETAIL_PAGES) {
+    throw new Error(`Film Forum: ${filmTitles.size} film pages, more than the ${MAX_DETAIL_PAGES} a run may visit`);
+  }
 
-        if (times.length === 0) return;
-
-        // Create a showtime entry for each time
-        for (const time of times) {
-          const displayFilm = series ? `${film} (${series})` : film;
-          const id = `filmforum-${film}-${isoDate}-${time}`
-            .replace(/\s+/g, '-')
-            .replace(/[^a-z0-9-]/gi, '')
-            .toLowerCase();
-
-          if (!showtimes.some(s => s.id === id)) {
-            showtimes.push({
-              id,
-              film: displayFilm,
-              theater: 'Film Forum',
-              date: isoDate,
-              time,
-              ticketUrl,
-              imageUrl: undefined, // Will try to enrich below
-              description: undefined,
-            });
-          }
-        }
-
-        // Track film URL for enrichment, keyed by the film slug for matching
-        if (filmUrl && !filmImageCache.has(filmUrl)) {
-          filmImageCache.set(filmUrl, film); // store the film title for matching
-        }
+  // ----------------------------------------------------------------
+  // Step 5: Visit each film detail page for its upcoming dates, plus
+  // OG images, descriptions, credits and ticket URLs. Each detail page has
+  // a BUY TICKETS link with the correct my.filmforum.org/events/... URL.
+  // ----------------------------------------------------------------
+  // A detail page that fails to load fails the run: its film's later dates
+  // would otherwise drop out of the snapshot as if they'd been cancelled.
+  // A 404 is a film the site no longer has a page for, and is skipped.
+  const uniqueFilmUrls = Array.from(filmTitles.keys());
+  const detailPages = await Promise.all(
+    uniqueFilmUrls.map(async (url) => {
+      const res = await ctx.fetch(url);
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw new Error(`Film Forum: HTTP ${res.status} for ${url}`);
+      }
+      const detailHtml = await res.text();
+      const $detail = cheerio.load(detailHtml);
+      const title = $detail('.main-title').first().text().replace(/\s+/g, ' ').trim();
+      const ogImage = $detail('meta[property="og:image"]').attr('content') || '';
+      const imageUrl = ogImage.startsWith('http') ? ogImage : ogImage ? `${BASE_URL}${ogImage}` : '';
+      // Grab description from .copy p
+      const description = $detail('.copy > p').first().text().trim().slice(0, 300);
+      // Extract BUY TICKETS link (e.g., https://my.filmforum.org/events/taxi-driver-tene)
+      const buyTicketsHref = $detail('a[href*="my.filmforum.org/events/"]').first().attr('href') || '';
+      const metadata = parseCredits($detail);
+      const upcoming = parseUpcomingDates($detail, today);
+      return { url, title, imageUrl, description, ticketUrl: buyTicketsHref, metadata, upcoming };
+    })
+  );
+  const detailResults = detailPages.filter(page => page !== null);
+
+  // Build lookup maps
+  const imageMap = new Map<string, string>();
+  const descMap = new Map<string, string>();
+  const detailTicketMap = new Map<string, string>();
+  const metadataMap = new Map<string, FilmMetadata>();
+  let upcomingCount = 0;
+  for (const { url, title, imageUrl, description, ticketUrl, metadata, upcoming } of detailResults) {
+    metadataMap.set(url, metadata);
+    if (imageUrl) imageMap.set(url, imageUrl);
+    if (description) descMap.set(url, description);
+    if (ticketUrl) detailTicketMap.set(url, ticketUrl);
+
+    // Merge upcoming dates; the weekly table wins where both list a screening
+    const film = filmTitles.get(url) || title;
+    if (!film) continue;
+    const before = listed.size;
+    for (const { date, clock } of upcoming) {
+      addListing({
+        filmUrl: url,
+        film,
+        directors: prefixDirectors.get(url),
+        date,
+        clock,
+        soldOut: false,
+        ticketUrl: url,
       });
     }
-
-    console.log(`Film Forum: Found ${showtimes.length} showtimes from week schedule`);
-
-    // ----------------------------------------------------------------
-    // Step 4: Enrich with OG images, descriptions, and ticket URLs
-    // from film detail pages. Each detail page has a BUY TICKETS link
-    // with the correct my.filmforum.org/events/... URL.
-    // ----------------------------------------------------------------
-    if (showtimes.length > 0) {
-      const uniqueFilmUrls = Array.from(filmImageCache.keys()).slice(0, 25);
-      const detailResults = await Promise.allSettled(
-        uniqueFilmUrls.map(async (url) => {
-          try {
-            const res = await fetch(url, { headers: HEADERS });
-            if (!res.ok) return { url, imageUrl: '', description: '', ticketUrl: '' };
-            const detailHtml = await res.text();
-            const $detail = cheerio.load(detailHtml);
-            const ogImage = $detail('meta[property="og:image"]').attr('content') || '';
-            const imageUrl = ogImage.startsWith('http') ? ogImage : ogImage ? `${BASE_URL}${ogImage}` : '';
-            // Grab description from .copy p
-            const description = $detail('.copy > p').first().text().trim().slice(0, 300);
-            // Extract BUY TICKETS link (e.g., https://my.filmforum.org/events/taxi-driver-tene)
-            const buyTicketsHref = $detail('a[href*="my.filmforum.org/events/"]').first().attr('href') || '';
-            return { url, imageUrl, description, ticketUrl: buyTicketsHref };
-          } catch {
-            return { url, imageUrl: '', description: '', ticketUrl: '' };
-          }
-        })
-      );
-
-      // Build lookup maps
-      const imageMap = new Map<string, string>();
-      const descMap = new Map<string, string>();
-      const detailTicketMap = new Map<string, string>();
-      for (const result of detailResults) {
-        if (result.status === 'fulfilled') {
-          const { url, imageUrl, description, ticketUrl } = result.value;
-          if (imageUrl) imageMap.set(url, imageUrl);
-          if (description) descMap.set(url, description);
-          if (ticketUrl) detailTicketMap.set(url, ticketUrl);
+    upcomingCount += listed.size - before;
+  }
+  console.log(`Film Forum: Added ${upcomingCount} showtimes from film detail pages`);
+
+  // ----------------------------------------------------------------
+  // Step 6: Read AM/PM from each film's ticket page, then turn the
+  // listings into showtimes. A ticket page that fails only leaves its
+  // film's periods guessed; IDs leave the period out, so they don't move.
+  // ----------------------------------------------------------------
+  const ticketUrlOf = (screening: ListedScreening) =>
+    detailTicketMap.get(screening.filmUrl) ?? screening.ticketUrl;
+  const ticketPages = new Set(
+    Array.from(listed.values()).map(ticketUrlOf).filter(url => url.includes('my.filmforum.org/events/'))
+  );
+  const ticketTimes = new Map<string, Set<string>>();
+  await Promise.all(
+    Array.from(ticketPages).slice(0, MAX_DETAIL_PAGES).map(async (url) => {
+      try {
+        const res = await ctx.fetch(url);
+        if (res.ok) {
+          ticketTimes.set(url, parseTicketTimes(cheerio.load(await res.text())));
+        } else {
+          console.warn(`Film Forum: HTTP ${res.status} for ${url}, guessing AM/PM`);
         }
+      } catch (err) {
+        console.error(`Film Forum: Error fetching ${url}`, err);
       }
+    })
+  );
+  console.log(`Film Forum: Read times from ${ticketTimes.size} ticket pages`);
+
+  // Resolve each film's day in listing order, so a guess can lean on the
+  // times before it
+  const byFilmDay = new Map<string, ListedScreening[]>();
+  for (const screening of listed.values()) {
+    const key = `${screening.filmUrl}|${screening.date}`;
+    if (!byFilmDay.has(key)) byFilmDay.set(key, []);
+    byFilmDay.get(key)!.push(screening);
+  }
 
-      // Apply images, descriptions, and ticket URLs to showtimes
-      // filmImageCache maps URL → film title from the schedule parsing
-      for (const s of showtimes) {
-        for (const [url, filmTitle] of filmImageCache) {
-          // Match by film title (the showtime film may include a series suffix)
-          if (filmTitle && s.film.includes(filmTitle)) {
-            const img = imageMap.get(url);
-            if (img) s.imageUrl = img;
-            const desc = descMap.get(url);
-            if (desc) s.description = desc;
-            const detailTicket = detailTicketMap.get(url);
-            if (detailTicket) s.ticketUrl = detailTicket;
-            break;
-          }
-        }
-      }
-    }
+  const showtimes: Showtime[] = [];
+  const filmUrlOf = new Map<Showtime, string>();
+  const seen = new Set<string>();
+  for (const screenings of byFilmDay.values()) {
+    const { date } = screenings[0];
+    const known = ticketTimes.get(ticketUrlOf(screenings[0])) ?? new Set<string>();
+    const resolved = resolvePeriods(screenings.map(s => s.clock), date, known);
+    screenings.forEach((screening, i) => {
+      const { time, guessed } = resolved[i];
+      const id = showtimeId(filmForum.id, {
+        film: screening.film,
+        directors: screening.directors,
+        date,
+        time,
+        ignorePeriod: true,
+      });
+      if (seen.has(id)) return;
+      seen.add(id);
+      const showtime: Showtime = {
+        id,
+        film: screening.film,
+        theater: filmForum.name,
+        date,
+        time,
+        ticketUrl: screening.ticketUrl,
+        imageUrl: undefined, // Will try to enrich below
+        description: undefined,
+        ...(guessed ? { timeGuessed: true } : {}),
+        ...(screening.soldOut ? { availability: 'sold_out' as const } : {}),
+      };
+      showtimes.push(showtime);
+      filmUrlOf.set(showtime, screening.filmUrl);
+    });
+  }
 
-    return showtimes;
-  } catch (error) {
-    console.error('Film Forum scraper error:', error);
-    return [];
+  // Apply images, descriptions, credits, ticket URLs and series to showtimes
+  for (const s of showtimes) {
+    const url = filmUrlOf.get(s)!;
+    const metadata = metadataMap.get(url) ?? {};
+    Object.assign(s, compactMetadata({
+      ...metadata,
+      directors: metadata.directors ?? prefixDirectors.get(url),
+    }));
+    const img = imageMap.get(url);
+    if (img) s.imageUrl = img;
+    const desc = descMap.get(url);
+    if (desc) s.description = desc;
+    const detailTicket = detailTicketMap.get(url);
+    if (detailTicket) s.ticketUrl = detailTicket;
+    const series = filmSeries.get(url);
+    if (series) s.series = { ...series, ...seriesPages.get(series.url!) };
   }
+
+  return showtimes;
 }
 
 /**
- * Resolve a calendar date from day-of-week + day-of-month, using today as anchor.
+ * Read credits from the detail page's copy, which follows the synopsis:
  *
- * Film Forum's schedule runs Fri–Thu (or Sat–Fri). We find the date that matches
- * both the given day-of-week and day-of-month within ±7 days of today.
+ *   <p>Directed by Giuseppe De Santis<br />Starring Silvana Mangano, ...</p>
+ *   <p>Italy, 1949. Approx. 108 min. DCP. In Italian with English subtitles.</p>
  */
-function resolveDate(dow: number, dayOfMonth: number, today: Date): string {
-  // Try offsets from -6 to +7 days from today
-  for (let offset = -6; offset <= 7; offset++) {
-    const candidate = new Date(today);
-    candidate.setDate(today.getDate() + offset);
-    if (candidate.getDay() === dow && candidate.getDate() === dayOfMonth) {
-      return formatISO(candidate);
+function parseCredits($: cheerio.CheerioAPI): FilmMetadata {
+  const metadata: FilmMetadata = {};
+  $('.copy > p').slice(1).each((_, p) => {
+    // Treat <br> as a line break so each credit is its own line
+    const lines = ($(p).html() || '')
+      .split(/<br\s*\/?>/i)
+      .map(line => cheerio.load(line).text().replace(/\s+/g, ' ').trim());
+    for (const line of lines) {
+      const directed = line.match(/^Directed by\s+(.+)$/i);
+      const starring = line.match(/^(?:Starring|With)\s+(.+)$/i);
+      const country = line.match(/^([A-Z][A-Za-z .'/-]+?),\s*(\d{4})\./);
+      if (directed) metadata.directors = splitNames(directed[1]);
+      if (starring) metadata.cast = splitNames(starring[1]);
+      if (country) {
+        metadata.country = country[1];
+        metadata.year = parseYear(country[2]);
+        metadata.runtimeMinutes = parseRuntime(line);
+        metadata.format = parseFormat(line);
+      }
+      metadata.language ??= parseLanguage(line);
     }
-  }
-  // Fallback: just use day-of-week relative to today
-  return isoDateForDow(dow, today);
+  });
+  return compactMetadata(metadata);
 }
 
+/** Cap on detail pages fetched per run (weekly films plus coming soon/series). */
+const MAX_DETAIL_PAGES = 40;
+
 /**
- * Return the ISO date of the nearest occurrence of a given day-of-week,
- * within ±3 days of today (the current week window).
+ * Parse the upcoming-dates list on a film detail page:
+ *
+ *   <div class="module upcoming-dates">
+ *     <ul>
+ *       <li><strong>SAT FEB 21</strong> <span>2:00</span> <span>4:30</span></li>
+ *       ...
+ *     </ul>
+ *   </div>
+ *
+ * Dates before today are dropped.
  */
-function isoDateForDow(dow: number, today: Date): string {
-  const diff = dow - today.getDay();
-  const d = new Date(today);
-  d.setDate(today.getDate() + diff);
-  if (diff < -3) d.setDate(d.getDate() + 7);
-  return formatISO(d);
+function parseUpcomingDates($: cheerio.CheerioAPI, today: string): { date: string; clock: ListedTime }[] {
+  const results: { date: string; clock: ListedTime }[] = [];
+  $('.upcoming-dates li').each((_, li) => {
+    const $li = $(li);
+    const date = parseListingDate($li.find('strong').first().text(), today);
+    if (!date || date < today) return;
+    $li.find('span').each((_, span) => {
+      const clock = parseListedTime($(span).text().trim());
+      if (clock) results.push({ date, clock });
+    });
+  });
+  return results;
+}
+
+function absoluteUrl(href: string): string {
+  return href.startsWith('http') ? href : `${BASE_URL}${href}`;
 }
 
 /**
- * Parse a bare time string like "12:15" or "2:30" into 12-hour format.
- * Film Forum uses bare hours without AM/PM — we assume cinema hours (before 12 = PM matinee if ≥ 1, else AM).
+ * Read the performances on a my.filmforum.org ticket page, whose times are
+ * machine-readable:
+ *
+ *   <li class="performance">
+ *     <time datetime="2026-02-18T21:45">Wed Feb 18, 9:45 PM</time> ...
+ *   </li>
+ *
+ * Returns "YYYY-MM-DDTHH:MM" keys in 24-hour time.
  */
-function parseTime(text: string): string | null {
-  const match = text.match(/^(\d{1,2}):(\d{2})$/);
+function parseTicketTimes($: cheerio.CheerioAPI): Set<string> {
+  const times = new Set<string>();
+  $('time[datetime]').each((_, el) => {
+    const match = ($(el).attr('datetime') || '').match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/);
+    if (match) times.add(`${match[1]}T${match[2]}`);
+  });
+  return times;
+}
+
+type Period = 'AM' | 'PM';
+
+/** A time as Film Forum prints it; period is set only when the text says. */
+interface ListedTime {
+  hour: number; // 1–12
+  minute: number;
+  period?: Period;
+}
+
+/** A screening as listed, before its AM/PM is resolved. */
+interface ListedScreening {
+  filmUrl: string;
+  film: string;
+  directors?: string[];
+  date: string;
+  clock: ListedTime;
+  soldOut: boolean;
+  ticketUrl: string;
+}
+
+/**
+ * Parse a listed time: usually bare ("12:15", "9:45"), occasionally with a
+ * period ("9:45pm") or in 24-hour form ("21:45").
+ */
+function parseListedTime(text: string): ListedTime | null {
+  const match = text.match(/^(\d{1,2}):(\d{2})\s*(?:([ap])\.?m\.?)?$/i);
   if (!match) return null;
   const h = parseInt(match[1], 10);
-  const min = match[2];
-  if (h < 0 || h > 23) return null;
-
-  // Film Forum bare times: 9-11 = AM, 12+ = PM, 1-8 = PM (afternoon/evening)
-  let period: string;
-  let h12: number;
-  if (h >= 12) {
-    period = 'PM';
-    h12 = h > 12 ? h - 12 : 12;
-  } else if (h >= 9) {
-    period = 'AM';
-    h12 = h;
-  } else {
-    // 1:00–8:59 → PM (matinee/evening)
-    period = 'PM';
-    h12 = h;
+  const minute = parseInt(match[2], 10);
+  if (h > 23 || minute > 59) return null;
+  if (match[3]) {
+    if (h < 1 || h > 12) return null;
+    return { hour: h, minute, period: match[3].toLowerCase() === 'a' ? 'AM' : 'PM' };
   }
-  return `${h12}:${min} ${period}`;
+  if (h === 0 || h > 12) return { hour: h % 12 || 12, minute, period: h < 12 ? 'AM' : 'PM' };
+  return { hour: h, minute };
 }
 
-function formatISO(date: Date): string {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
+/** Minutes past midnight for a listed time in the given period. */
+function minutesOf(clock: ListedTime, period: Period): number {
+  return ((clock.hour % 12) + (period === 'PM' ? 12 : 0)) * 60 + clock.minute;
+}
+
+/** "2026-02-18T21:45" key for a listed time in the given period. */
+function ticketKey(date: string, clock: ListedTime, period: Period): string {
+  const minutes = minutesOf(clock, period);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${date}T${hh}:${mm}`;
+}
+
+/**
+ * Settle AM/PM for one film's listed times on one day, in listing order.
+ * The period comes from the text, else from the ticket page's times, else
+ * it's guessed: 9–11 is a morning show and 12–8 afternoon or evening,
+ * unless that would put it before the screening listed ahead of it (so a
+ * 9:45 after a 7:30 is 9:45 PM).
+ */
+function resolvePeriods(
+  clocks: ListedTime[],
+  date: string,
+  ticketTimes: Set<string>
+): { time: string; guessed: boolean }[] {
+  let previous = -1;
+  return clocks.map((clock) => {
+    let period = clock.period;
+    let guessed = false;
+    if (!period) {
+      const am = ticketTimes.has(ticketKey(date, clock, 'AM'));
+      const pm = ticketTimes.has(ticketKey(date, clock, 'PM'));
+      if (am !== pm) {
+        period = am ? 'AM' : 'PM';
+      } else {
+        guessed = true;
+        period = clock.hour >= 9 && clock.hour <= 11 ? 'AM' : 'PM';
+        if (minutesOf(clock, period) < previous) period = 'PM';
+      }
+    }
+    previous = minutesOf(clock, period);
+    return { time: `${clock.hour}:${String(clock.minute).padStart(2, '0')} ${period}`, guessed };
+  });
 }
 
 /** Log diagnostic information if parsing fails. */
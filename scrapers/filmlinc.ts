@@ -0,0 +1,236 @@
+import { Showtime } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor, VenueInfo } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut } from '@/lib/availability';
+import { localDate } from '@/lib/datetime';
+import { FilmMetadata, compactMetadata, parseFormat, parseLanguage, parseRuntime, parseYear, splitNames } from './metadata';
+import { parseListingDate } from './dates';
+import * as cheerio from 'cheerio';
+
+const BASE_URL = 'https://www.filmlinc.org';
+const NOW_PLAYING_URL = `${BASE_URL}/now-playing/`;
+
+/** FLC's two buildings; the Munroe Film Center has several screens of its own. */
+const WALTER_READE: VenueInfo = {
+  id: 'walter-reade',
+  name: 'Walter Reade Theater',
+  address: '165 W 65th St',
+  borough: 'Manhattan',
+};
+const MUNROE: VenueInfo = {
+  id: 'munroe',
+  name: 'Elinor Bunin Munroe Film Center',
+  address: '144 W 65th St',
+  borough: 'Manhattan',
+};
+
+export const filmLinc: TheaterDescriptor = {
+  id: 'filmlinc',
+  name: 'Film at Lincoln Center',
+  neighborhood: 'Lincoln Square, Manhattan',
+  website: NOW_PLAYING_URL,
+  color: 'sky',
+  venues: [WALTER_READE, MUNROE],
+  probes: {
+    'film cards': 'article.film-card',
+    'card titles': '.film-card__title',
+    'showtime days': '.showtimes__day',
+    showtimes: 'li.showtime a.showtime__time',
+    credits: '.film-details li',
+  },
+  scrape: scrapeFilmLinc,
+};
+
+/**
+ * Scraper for Film at Lincoln Center (https://www.filmlinc.org)
+ *
+ * The now-playing page lists one card per film:
+ *   article.film-card
+ *     a.film-card__link[href="/films/…/"]   – detail page
+ *       img.film-card__image                – poster
+ *       h3.film-card__title                 – title
+ *     p.film-card__series                   – series or festival, if any ("NYFF64")
+ *
+ * Every screening is on the film's detail page:
+ *   div.film-series                         – series or festival label
+ *   h1.film-title
+ *   ul.film-details > li                    – "Directed by …", "With …",
+ *                                             "1979 · 161 minutes · Russian with English subtitles · 35mm"
+ *   div.film-synopsis p
+ *   div.showtimes__day[data-date]           – one per date (h4 "Wednesday, February 18" if no data-date)
+ *     li.showtime                           – class "showtime--sold-out" when sold out
+ *       a.showtime__time                    – "7:45 PM" + per-performance ticket link
+ *       span.showtime__venue                – auditorium, e.g. "Walter Reade Theater"
+ *
+ * Screenings in festival programming (NYFF, New Directors/New Films) are
+ * marked with the festival as their event; any other series label is a
+ * repertory series ("Tarkovsky: The Complete Films") and becomes the
+ * showtime's series.
+ *
+ * A detail page that fails to load fails the scrape, so the previous
+ * snapshot keeps the film's screenings; one that's gone (404) leaves the
+ * film out.
+ */
+export async function scrapeFilmLinc(ctx: ScrapeContext = createScrapeContext()): Promise<Showtime[]> {
+  const response = await ctx.fetch(NOW_PLAYING_URL);
+  if (!response.ok) {
+    throw new Error(`Film at Lincoln Center: HTTP ${response.status}`);
+  }
+
+  const $ = cheerio.load(await response.text());
+  const today = localDate(ctx.now);
+
+  // Step 1: Collect films from the now-playing cards
+  const films: FlcFilm[] = [];
+  const seenUrls = new Set<string>();
+  $('article.film-card').each((_, card) => {
+    const $card = $(card);
+    const href = $card.find('a.film-card__link').first().attr('href') || '';
+    const film = $card.find('.film-card__title').first().text().replace(/\s+/g, ' ').trim();
+    if (!href || !film) return;
+    const detailUrl = absoluteUrl(href);
+    if (seenUrls.has(detailUrl)) return;
+    seenUrls.add(detailUrl);
+
+    const image = $card.find('img.film-card__image').first().attr('src');
+    films.push({
+      film,
+      detailUrl,
+      imageUrl: image ? absoluteUrl(image).split('?')[0] : undefined,
+      series: $card.find('.film-card__series').first().text().trim() || undefined,
+    });
+  });
+  console.log(`Film at Lincoln Center: Found ${films.length} films`);
+
+  // Step 2: Read each film's screenings from its detail page
+  const perFilm = await Promise.all(films.map(film => scrapeFilmPage(ctx, film, today)));
+  const showtimes = perFilm.flat();
+  console.log(`Film at Lincoln Center: Found ${showtimes.length} showtimes`);
+  return showtimes;
+}
+
+interface FlcFilm {
+  film: string;
+  detailUrl: string;
+  imageUrl?: string;
+  series?: string; // label from the listing card
+}
+
+/**
+ * Fetch a film's detail page and build a showtime for each screening from
+ * today on. Returns nothing if the page is gone (404); throws if it fails
+ * to load, since every screening comes from here and a flaky page would
+ * otherwise read as the film being dropped.
+ */
+async function scrapeFilmPage(ctx: ScrapeContext, listing: FlcFilm, today: string): Promise<Showtime[]> {
+  const res = await ctx.fetch(listing.detailUrl);
+  if (res.status === 404) {
+    console.warn(`Film at Lincoln Center: Detail page for ${listing.film} not found, leaving it out`);
+    return [];
+  }
+  if (!res.ok) {
+    throw new Error(`Film at Lincoln Center: HTTP ${res.status} for ${listing.detailUrl}`);
+  }
+  const $ = cheerio.load(await res.text());
+
+  const film = $('h1.film-title').first().text().replace(/\s+/g, ' ').trim() || listing.film;
+  const ogImage = $('meta[property="og:image"]').attr('content');
+  const imageUrl = ogImage ? absoluteUrl(ogImage) : listing.imageUrl;
+  const description = $('.film-synopsis p').first().text().replace(/\s+/g, ' ').trim().slice(0, 300) || undefined;
+  const metadata = parseCredits($);
+  const $series = $('.film-series').first();
+  const seriesLabel = $series.text().replace(/\s+/g, ' ').trim() || listing.series || '';
+  const event = festivalName(seriesLabel);
+  const seriesHref = $series.find('a').first().attr('href');
+  const series = !event && seriesLabel
+    ? { name: seriesLabel, ...(seriesHref ? { url: absoluteUrl(seriesHref) } : {}) }
+    : undefined;
+
+  const showtimes: Showtime[] = [];
+  $('.showtimes__day').each((_, dayEl) => {
+    const $day = $(dayEl);
+    const dataDate = $day.attr('data-date') || '';
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(dataDate)
+      ? dataDate
+      : parseListingDate($day.find('h4').first().text(), today);
+    if (!date || date < today) return;
+
+    $day.find('li.showtime').each((_, li) => {
+      const $li = $(li);
+      const $time = $li.find('a.showtime__time').first();
+      const match = $time.text().match(/(\d{1,2}:\d{2})\s*([AP])\.?M/i);
+      if (!match) return;
+      const time = `${match[1]} ${match[2].toUpperCase()}M`;
+      const href = $time.attr('href');
+      const ticketUrl = href ? absoluteUrl(href) : listing.detailUrl;
+      // ".../purchase/performance/70114"
+      const performanceId = ticketUrl.match(/\/performance\/(\d+)/)?.[1];
+      const venue = venueFor($li.find('.showtime__venue').first().text());
+
+      showtimes.push({
+        id: showtimeId(filmLinc.id, { film, directors: metadata.directors, date, time, sourceId: performanceId }),
+        film,
+        theater: filmLinc.name,
+        date,
+        time,
+        ticketUrl,
+        imageUrl,
+        description,
+        ...metadata,
+        ...(venue ? { venue: venue.name } : {}),
+        ...(event ? { event } : {}),
+        ...(series ? { series } : {}),
+        ...(looksSoldOut($li.attr('class'), $li.find('.showtime__status').text()) ? { availability: 'sold_out' as const } : {}),
+      });
+    });
+  });
+  return showtimes;
+}
+
+/** Read "Directed by", "With" and the year/runtime/language/format line. */
+function parseCredits($: cheerio.CheerioAPI): FilmMetadata {
+  const metadata: FilmMetadata = {};
+  $('.film-details li').each((_, li) => {
+    const text = $(li).text().replace(/\s+/g, ' ').trim();
+    const directed = text.match(/^Directed by\s+(.+)$/i);
+    const cast = text.match(/^With\s+(.+)$/i);
+    if (directed) {
+      metadata.directors = splitNames(directed[1]);
+    } else if (cast) {
+      metadata.cast = splitNames(cast[1]);
+    } else {
+      metadata.year ??= parseYear(text);
+      metadata.runtimeMinutes ??= parseRuntime(text);
+      metadata.language ??= parseLanguage(text);
+      metadata.format ??= parseFormat(text);
+    }
+  });
+  return compactMetadata(metadata);
+}
+
+/**
+ * Which building a screening is in. The Munroe Film Center's screens are
+ * listed by name ("Francesca Beale Theater", "Howard Gilman Theater",
+ * "Amphitheater"), usually after the building's own name.
+ */
+function venueFor(text: string): VenueInfo | undefined {
+  if (/walter\s+reade/i.test(text)) return WALTER_READE;
+  if (/munroe|francesca\s+beale|howard\s+gilman|amphitheater/i.test(text)) return MUNROE;
+  return undefined;
+}
+
+/**
+ * The festival a series label belongs to, if it is one: "NYFF64" → "New
+ * York Film Festival"; "New Directors/New Films 2026" → "New
+ * Directors/New Films". Ordinary repertory series aren't events.
+ */
+function festivalName(label: string): string | undefined {
+  if (/\bNYFF\d*\b|New York Film Festival/i.test(label)) return 'New York Film Festival';
+  if (/New Directors\s*\/\s*New Films|\bND\/?NF\b/i.test(label)) return 'New Directors/New Films';
+  return undefined;
+}
+
+function absoluteUrl(href: string): string {
+  return href.startsWith('http') ? href : `${BASE_URL}${href}`;
+}
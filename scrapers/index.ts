@@ -1,72 +1,123 @@
 import { Showtime } from '@/types/showtime';
-import { scrapeMetrograph } from './metrograph';
-import { scrapeBAM } from './bam';
-import { scrapeLowCinema } from './lowcinema';
-import { scrapeIFC } from './ifc';
-import { scrapeFilmForum } from './filmforum';
+import { TheaterDescriptor, TheaterInfo } from '@/types/theater';
+import { applyAvailability } from '@/lib/availability';
+import { applyTags } from '@/lib/tags';
+import { to24Hour, zonedStart } from '@/lib/datetime';
+import { createScrapeContext } from './context';
+import { metrograph } from './metrograph';
+import { bam } from './bam';
+import { lowCinema } from './lowcinema';
+import { ifc } from './ifc';
+import { filmForum } from './filmforum';
+import { filmLinc } from './filmlinc';
+import { anthology } from './anthology';
+import { momi } from './momi';
+import { nitehawk } from './nitehawk';
 
 /**
- * Aggregates showtimes from all theater scrapers.
- * 
- * This function runs all scrapers concurrently using Promise.allSettled,
- * which means that if one scraper fails, the others will still complete.
- * This ensures that the app remains functional even if one theater's
- * website is down or has changed its structure.
- * 
- * @returns Promise<Showtime[]> - Array of all showtimes sorted by date and time
+ * Registry of every theater we scrape. Adding a venue means adding a module
+ * that exports a TheaterDescriptor and listing it here; the API, tabs,
+ * cards and footer are all driven from this array.
  */
-export async function getAllShowtimes(): Promise<Showtime[]> {
-  // Run all scrapers concurrently
-  const results = await Promise.allSettled([
-    scrapeMetrograph(),
-    scrapeBAM(),
-    scrapeLowCinema(),
-    scrapeIFC(),
-    scrapeFilmForum(),
-  ]);
+export const THEATERS: TheaterDescriptor[] = [
+  metrograph,
+  bam,
+  lowCinema,
+  ifc,
+  filmForum,
+  filmLinc,
+  anthology,
+  momi,
+  nitehawk,
+];
 
-  // Collect successful results and log failures
-  const allShowtimes: Showtime[] = [];
-  
-  results.forEach((result, index) => {
-    const theaterNames = ['Metrograph', 'BAM Rose Cinemas', 'Low Cinema', 'IFC Center', 'Film Forum'];
-    
-    if (result.status === 'fulfilled') {
-      allShowtimes.push(...result.value);
-      console.log(`✓ ${theaterNames[index]}: ${result.value.length} showtimes`);
-    } else {
-      console.error(`✗ ${theaterNames[index]} failed:`, result.reason);
-    }
-  });
+/**
+ * Theater metadata without the scrape functions, for sending to the client.
+ */
+export function getTheaterInfo(): TheaterInfo[] {
+  return THEATERS.map(({ id, name, neighborhood, website, color, venues }) => ({
+    id,
+    name,
+    neighborhood,
+    website,
+    color,
+    ...(venues ? { venues } : {}),
+  }));
+}
 
-  // Sort by date, then by time
-  allShowtimes.sort((a, b) => {
-    const dateCompare = a.date.localeCompare(b.date);
-    if (dateCompare !== 0) return dateCompare;
-    
-    // Convert time to 24-hour format for proper sorting
-    const timeA = convertTo24Hour(a.time);
-    const timeB = convertTo24Hour(b.time);
-    return timeA.localeCompare(timeB);
-  });
+export interface TheaterScrapeResult {
+  theater: TheaterDescriptor;
+  startedAt: Date;
+  finishedAt: Date;
+  showtimes: Showtime[];
+  error?: string; // set when the scraper threw
+}
 
-  return allShowtimes;
+/**
+ * Runs every registered scraper concurrently and reports each theater's
+ * outcome separately, including timing and any error, so callers can
+ * record per-theater health.
+ */
+export async function scrapeAllTheaters(): Promise<TheaterScrapeResult[]> {
+  // One shared context so every theater agrees on "today"
+  const ctx = createScrapeContext();
+
+  return Promise.all(
+    THEATERS.map(async (theater) => {
+      const startedAt = new Date();
+      try {
+        const showtimes = enrichShowtimes(await theater.scrape(ctx));
+        console.log(`✓ ${theater.name}: ${showtimes.length} showtimes`);
+        return { theater, startedAt, finishedAt: new Date(), showtimes };
+      } catch (error) {
+        console.error(`✗ ${theater.name} failed:`, error);
+        return {
+          theater,
+          startedAt,
+          finishedAt: new Date(),
+          showtimes: [],
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    })
+  );
 }
 
 /**
- * Converts 12-hour time format to 24-hour format for sorting
+ * What every scraper's output gets before it's stored: availability and
+ * popularity, special-event tags, and start instants. Updates the
+ * showtimes in place.
  */
-function convertTo24Hour(time12h: string): string {
-  const [time, modifier] = time12h.split(' ');
-  let [hours, minutes] = time.split(':');
-  
-  if (hours === '12') {
-    hours = '00';
-  }
-  
-  if (modifier === 'PM') {
-    hours = String(parseInt(hours, 10) + 12);
+export function enrichShowtimes(showtimes: Showtime[]): Showtime[] {
+  applyTags(applyAvailability(showtimes));
+  for (const s of showtimes) {
+    s.startsAt = zonedStart(s.date, s.time)?.toISOString();
   }
-  
-  return `${hours.padStart(2, '0')}:${minutes}`;
+  return showtimes;
+}
+
+/**
+ * Aggregates showtimes from all registered theater scrapers.
+ * 
+ * Scrapers run concurrently and each one's failure is caught on its own,
+ * so if one theater's website is down or has changed its structure the
+ * others still complete and the app remains functional.
+ * 
+ * @returns Promise<Showtime[]> - Array of all showtimes sorted by date and time
+ */
+export async function getAllShowtimes(): Promise<Showtime[]> {
+  const results = await scrapeAllTheaters();
+  return sortShowtimes(results.flatMap((r) => r.showtimes));
+}
+
+/**
+ * Sorts showtimes in place by date, then by time of day.
+ * Placeholders like "Times TBA" sort after every real time.
+ */
+export function sortShowtimes(showtimes: Showtime[]): Showtime[] {
+  return showtimes.sort((a, b) => {
+    const dateCompare = a.date.localeCompare(b.date);
+    if (dateCompare !== 0) return dateCompare;
+    return (to24Hour(a.time) ?? '99:99').localeCompare(to24Hour(b.time) ?? '99:99');
+  });
 }
@@ -1,4 +1,11 @@
 import { Showtime } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { localDate } from '@/lib/datetime';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut, parseSeatCounts } from '@/lib/availability';
+import { FilmMetadata, compactMetadata, parseRuntime, parseYear, splitNames } from './metadata';
+import { parseListingDate } from './dates';
 import * as cheerio from 'cheerio';
 
 /**
@@ -14,37 +21,52 @@ import * as cheerio from 'cheerio';
  *       h3                            – date label ("SAT FEB 21")
  *       div.showtimes-list
  *         a.showtime-link             – time text + /checkout/{uuid}/ link
+ *                                       (also class "showtime-sold-out" when sold out)
  *         span.showtime-sold-out      – sold-out time (no link)
  *
  * Movie info (first <p>): "Dir. Name, YYYY, XXmin. COUNTRY"
+ *
+ * Checkout pages (/checkout/{uuid}/) show the seats left for a screening:
+ *   p.seats-remaining                 – "8 of 48 seats left"
+ *
+ * A movie page that fails to load fails the scrape, so its film's
+ * screenings stay in the previous snapshot.
  */
 
-const MONTH_MAP: Record<string, string> = {
-  jan: '01', feb: '02', mar: '03', apr: '04',
-  may: '05', jun: '06', jul: '07', aug: '08',
-  sep: '09', oct: '10', nov: '11', dec: '12',
+export const lowCinema: TheaterDescriptor = {
+  id: 'lowcinema',
+  name: 'Low Cinema',
+  neighborhood: 'Ridgewood, Queens',
+  website: 'https://lowcinema.com/tickets/',
+  color: 'violet',
+  probes: {
+    'movie cards': 'div.movie-card',
+    'movie links': 'div.movie-card h2 a',
+    'date groups': 'div.showing-date-group',
+    'showtime links': '.showtimes-list .showtime-link',
+    'sold-out times': '.showtimes-list .showtime-sold-out',
+    'seat counts': '.seats-remaining',
+  },
+  scrape: scrapeLowCinema,
 };
 
-/** Parse "SAT FEB 21" → "2026-02-21" */
-function parseLowDate(dateText: string): string | null {
-  const match = dateText.match(/([A-Za-z]+)\s+(\d{1,2})/);
-  if (!match) return null;
-
-  const monthStr = match[1].toLowerCase().slice(0, 3);
-  const month = MONTH_MAP[monthStr];
-  if (!month) return null;
-
-  const day = match[2].padStart(2, '0');
-  const now = new Date();
-  let year = now.getFullYear();
-
-  // If the month is much earlier than the current month, it's likely next year
-  const monthNum = parseInt(month);
-  if (monthNum < now.getMonth() - 1) {
-    year += 1;
+/**
+ * Parse the movie info line "Dir. Name, YYYY, XXmin. COUNTRY". If it
+ * doesn't follow that shape, keep just the director.
+ */
+function parseInfoLine(text: string): FilmMetadata {
+  const match = text.match(/Dir\.\s*(.+?),\s*(\d{4})\s*,\s*([^.]+)\.\s*(.*)$/i);
+  if (!match) {
+    const dirMatch = text.match(/Dir\.\s*([^,]+)/i);
+    return compactMetadata({ directors: dirMatch ? splitNames(dirMatch[1]) : undefined });
   }
-
-  return `${year}-${month}-${day}`;
+  const [, directors, year, runtime, country] = match;
+  return compactMetadata({
+    directors: splitNames(directors),
+    year: parseYear(year),
+    runtimeMinutes: parseRuntime(runtime),
+    country: country.trim() || undefined,
+  });
 }
 
 /** Normalize "6 PM" or "8:15 PM" → "6:00 PM" or "8:15 PM" */
@@ -58,133 +80,145 @@ function normalizeTime(raw: string): string | null {
   return `${hours}:${minutes} ${period}`;
 }
 
-export async function scrapeLowCinema(): Promise<Showtime[]> {
-  try {
-    // Step 1: Get list of current films from /tickets/
-    const ticketsUrl = 'https://lowcinema.com/tickets/';
-    const ticketsRes = await fetch(ticketsUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-    });
-
-    if (!ticketsRes.ok) {
-      console.error(`Low Cinema: HTTP ${ticketsRes.status}`);
-      return [];
-    }
+export async function scrapeLowCinema(ctx: ScrapeContext = createScrapeContext()): Promise<Showtime[]> {
+  // Step 1: Get list of current films from /tickets/
+  const ticketsUrl = 'https://lowcinema.com/tickets/';
+  const ticketsRes = await ctx.fetch(ticketsUrl);
 
-    const ticketsHtml = await ticketsRes.text();
-    const $t = cheerio.load(ticketsHtml);
-
-    // Collect unique movie URLs from .movie-card links
-    const movieUrls = new Map<string, string>(); // path → title
-    $t('div.movie-card').each((_, el) => {
-      const $card = $t(el);
-      const title = $card.find('h2 a').text().trim();
-      const href = $card.find('h2 a').attr('href');
-      if (title && href) {
-        movieUrls.set(href, title);
-      }
-    });
+  if (!ticketsRes.ok) {
+    throw new Error(`Low Cinema: HTTP ${ticketsRes.status}`);
+  }
 
-    if (movieUrls.size === 0) {
-      console.log('Low Cinema: No films found on /tickets/');
-      return [];
+  const ticketsHtml = await ticketsRes.text();
+  const $t = cheerio.load(ticketsHtml);
+
+  // Collect unique movie URLs from .movie-card links
+  const movieUrls = new Map<string, string>(); // path → title
+  $t('div.movie-card').each((_, el) => {
+    const $card = $t(el);
+    const title = $card.find('h2 a').text().trim();
+    const href = $card.find('h2 a').attr('href');
+    if (title && href) {
+      movieUrls.set(href, title);
     }
+  });
 
-    // Step 2: Fetch each movie page in parallel
-    const showtimes: Showtime[] = [];
-
-    const movieFetches = Array.from(movieUrls.entries()).map(
-      async ([path, fallbackTitle]) => {
-        try {
-          const movieUrl = `https://lowcinema.com${path}`;
-          const res = await fetch(movieUrl, {
-            headers: {
-              'User-Agent':
-                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            },
-          });
-          if (!res.ok) return;
-
-          const html = await res.text();
-          const $ = cheerio.load(html);
-
-          // Film title from movie-info section (not the site header)
-          const film =
-            $('div.movie-info h1').first().text().trim() ||
-            $('div.movie-detail h1').first().text().trim() ||
-            fallbackTitle;
-
-          // Movie info: "Dir. Name, YYYY, XXmin. COUNTRY" (in .movie-description)
-          const infoText = $('div.movie-description p').first().text().trim();
-          const dirMatch = infoText.match(/Dir\.\s*([^,]+)/i);
-          const director = dirMatch ? dirMatch[1].trim() : undefined;
-
-          // Image from movie poster
-          const imageUrl =
-            $('div.movie-poster img').first().attr('src') || undefined;
-
-          // Description: second paragraph in movie-description
-          const paragraphs = $('div.movie-description p')
-            .map((_, el) => $(el).text().trim())
-            .get()
-            .filter((t) => t.length > 30 && !t.startsWith('Dir.') && !t.startsWith('All sales'));
-          const description = paragraphs.length > 0 ? paragraphs[0] : undefined;
-
-          // Parse showings
-          $('div.showing-date-group').each((_, group) => {
-            const $group = $(group);
-            const dateText = $group.find('h3').text().trim();
-            const date = parseLowDate(dateText);
-            if (!date) return;
-
-            // Both available and sold-out showtimes
-            $group
-              .find('.showtimes-list .showtime-link')
-              .each((_, timeEl) => {
-                const $time = $(timeEl);
-                const rawTime = $time.text().trim();
-                const time = normalizeTime(rawTime);
-                if (!time) return;
-
-                const isSoldOut = $time.hasClass('showtime-sold-out');
-                const checkoutHref = $time.attr('href') || '';
-                const ticketUrl = isSoldOut
-                  ? movieUrl
-                  : checkoutHref.startsWith('http')
-                    ? checkoutHref
-                    : `https://lowcinema.com${checkoutHref}`;
-
-                showtimes.push({
-                  id: `lowcinema-${film}-${date}-${time}`
-                    .replace(/\s+/g, '-')
-                    .replace(/[^a-z0-9\-]/gi, '')
-                    .toLowerCase(),
-                  film,
-                  theater: 'Low Cinema',
-                  date,
-                  time,
-                  ticketUrl,
-                  imageUrl,
-                  description: director
-                    ? `${director}${description ? ' — ' + description : ''}`
-                    : description,
-                });
-              });
-          });
-        } catch (err) {
-          console.error(`Low Cinema: Error fetching movie page ${path}`, err);
-        }
+  if (movieUrls.size === 0) {
+    console.log('Low Cinema: No films found on /tickets/');
+    return [];
+  }
+
+  // Step 2: Fetch each movie page in parallel (the HTTP client caps
+  // how many hit the site at once)
+  const showtimes: Showtime[] = [];
+  const checkoutUrls = new Map<Showtime, string>();
+
+  const movieFetches = Array.from(movieUrls.entries()).map(
+    async ([path, fallbackTitle]) => {
+      const movieUrl = `https://lowcinema.com${path}`;
+      const res = await ctx.fetch(movieUrl);
+      // A movie page that's gone drops the film; any other failure fails
+      // the run rather than reading as every screening being cancelled
+      if (res.status === 404) {
+        console.warn(`Low Cinema: Movie page ${path} not found, leaving it out`);
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(`Low Cinema: HTTP ${res.status} for ${movieUrl}`);
       }
-    );
 
-    await Promise.all(movieFetches);
+      const html = await res.text();
+      const $ = cheerio.load(html);
+
+      // Film title from movie-info section (not the site header)
+      const film =
+        $('div.movie-info h1').first().text().trim() ||
+        $('div.movie-detail h1').first().text().trim() ||
+        fallbackTitle;
+
+      // Movie info: "Dir. Name, YYYY, XXmin. COUNTRY" (in .movie-description)
+      const infoText = $('div.movie-description p').first().text().trim();
+      const metadata = parseInfoLine(infoText);
+
+      // Image from movie poster
+      const imageUrl =
+        $('div.movie-poster img').first().attr('src') || undefined;
+
+      // Description: second paragraph in movie-description
+      const paragraphs = $('div.movie-description p')
+        .map((_, el) => $(el).text().trim())
+        .get()
+        .filter((t) => t.length > 30 && !t.startsWith('Dir.') && !t.startsWith('All sales'));
+      const description = paragraphs.length > 0 ? paragraphs[0] : undefined;
+
+      // Parse showings
+      $('div.showing-date-group').each((_, group) => {
+        const $group = $(group);
+        const dateText = $group.find('h3').text().trim();
+        const date = parseListingDate(dateText, localDate(ctx.now));
+        if (!date) return;
+
+        // Both available and sold-out showtimes, linked or not
+        $group
+          .find('.showtimes-list .showtime-link, .showtimes-list .showtime-sold-out')
+          .each((_, timeEl) => {
+            const $time = $(timeEl);
+            const rawTime = $time.text().trim();
+            const time = normalizeTime(rawTime);
+            if (!time) return;
+
+            const isSoldOut = looksSoldOut($time.attr('class'), rawTime);
+            const checkoutHref = $time.attr('href') || '';
+            const ticketUrl = isSoldOut
+              ? movieUrl
+              : checkoutHref.startsWith('http')
+                ? checkoutHref
+                : `https://lowcinema.com${checkoutHref}`;
+
+            // Checkout links name the screening: /checkout/{uuid}/
+            const screeningId = checkoutHref.match(/\/checkout\/([^/?#]+)/)?.[1];
+
+            const showtime: Showtime = {
+              id: showtimeId(lowCinema.id, {
+                film,
+                directors: metadata.directors,
+                date,
+                time,
+                sourceId: screeningId,
+              }),
+              film,
+              theater: lowCinema.name,
+              date,
+              time,
+              ticketUrl,
+              imageUrl,
+              description,
+              ...metadata,
+              ...(isSoldOut ? { availability: 'sold_out' as const } : {}),
+            };
+            showtimes.push(showtime);
+            if (!isSoldOut && screeningId) checkoutUrls.set(showtime, ticketUrl);
+          });
+      });
+    }
+  );
+
+  await Promise.all(movieFetches);
+
+  // Step 3: Follow checkout pages for seat counts
+  await Promise.all(
+    Array.from(checkoutUrls.entries()).map(async ([showtime, checkoutUrl]) => {
+      try {
+        const res = await ctx.fetch(checkoutUrl);
+        if (!res.ok) return;
+        const $ = cheerio.load(await res.text());
+        Object.assign(showtime, parseSeatCounts($('.seats-remaining').first().text()));
+      } catch (err) {
+        console.error(`Low Cinema: Error fetching checkout page ${checkoutUrl}`, err);
+      }
+    })
+  );
 
-    console.log(`Low Cinema: Found ${showtimes.length} showtimes`);
-    return showtimes;
-  } catch (error) {
-    console.error('Low Cinema scraper error:', error);
-    return [];
-  }
+  console.log(`Low Cinema: Found ${showtimes.length} showtimes`);
+  return showtimes;
 }
@@ -0,0 +1,69 @@
+import { Showtime } from '@/types/showtime';
+
+/** The structured film details a scraper can attach to a showtime. */
+export type FilmMetadata = Pick<
+  Showtime,
+  'directors' | 'cast' | 'year' | 'runtimeMinutes' | 'country' | 'language' | 'format'
+>;
+
+/**
+ * Split a credit list like "Joel Coen, Ethan Coen & Frances McDormand" or
+ * "Jean-Pierre and Luc Dardenne" into individual names.
+ */
+export function splitNames(text: string): string[] {
+  return text
+    .split(/\s*(?:,|&|\band\b|\/)\s*/i)
+    .map(name => name.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/** Find a plausible release year (1880–2099) anywhere in the text. */
+export function parseYear(text: string): number | undefined {
+  const match = text.match(/\b(18[89]\d|19\d\d|20\d\d)\b/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Parse a running time: "105min", "108 min.", "106 minutes", "1h 42m",
+ * "2 hrs 5 mins".
+ */
+export function parseRuntime(text: string): number | undefined {
+  const hm = text.match(/\b(\d)\s*h(?:rs?|ours?)?\.?\s*(\d{1,2})\s*m(?:in(?:ute)?s?)?\b/i);
+  if (hm) return parseInt(hm[1], 10) * 60 + parseInt(hm[2], 10);
+  const min = text.match(/\b(\d{2,3})\s*(?:min(?:ute)?s?|mins?\.?|m)\b/i);
+  return min ? parseInt(min[1], 10) : undefined;
+}
+
+const FORMATS: [RegExp, string][] = [
+  [/\b70\s*mm\b/i, '70mm'],
+  [/\b35\s*mm\b/i, '35mm'],
+  [/\b16\s*mm\b/i, '16mm'],
+  [/\bDCP\b/, 'DCP'],
+  [/\b4K\b/, '4K'],
+  [/\bVHS\b/i, 'VHS'],
+  [/\bdigital\b/i, 'Digital'],
+];
+
+/** Recognize a projection format ("35mm", "DCP", ...) in the text. */
+export function parseFormat(text: string): string | undefined {
+  return FORMATS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * Parse "In Italian with English subtitles" / "Italian with English
+ * subtitles" into the spoken language.
+ */
+export function parseLanguage(text: string): string | undefined {
+  const match = text.match(/\b(?:in\s+)?([A-Z][a-z]+(?:(?:,\s*|\s+and\s+)[A-Z][a-z]+)*)\s+with\s+English\s+subtitles/);
+  return match ? match[1] : undefined;
+}
+
+/** Drop undefined and empty values so fixtures and payloads stay tidy. */
+export function compactMetadata(metadata: FilmMetadata): FilmMetadata {
+  const result: FilmMetadata = {};
+  for (const [key, value] of Object.entries(metadata) as [keyof FilmMetadata, unknown][]) {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    (result as Record<string, unknown>)[key] = value;
+  }
+  return result;
+}
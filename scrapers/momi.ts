@@ -0,0 +1,120 @@
+import { Showtime } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut } from '@/lib/availability';
+import { localDate } from '@/lib/datetime';
+import { FilmMetadata, compactMetadata, parseFormat, parseRuntime, parseYear, splitNames } from './metadata';
+import { parseListingDate } from './dates';
+import * as cheerio from 'cheerio';
+
+const BASE_URL = 'https://movingimage.org';
+const SCREENINGS_URL = `${BASE_URL}/whats-on/screenings/`;
+
+export const momi: TheaterDescriptor = {
+  id: 'momi',
+  name: 'Museum of the Moving Image',
+  neighborhood: 'Astoria, Queens',
+  website: SCREENINGS_URL,
+  color: 'teal',
+  // A single location, listed so cards and emails can show its address
+  venues: [{ id: 'astoria', name: 'Astoria', address: '36-01 35 Ave', borough: 'Queens' }],
+  probes: {
+    'event cards': 'article.event-card',
+    titles: '.event-card__title',
+    dates: '.event-card__date',
+    'ticket links': 'a.event-card__tickets',
+  },
+  scrape: scrapeMoMI,
+};
+
+/**
+ * Scraper for Museum of the Moving Image (https://movingimage.org)
+ *
+ * The screenings page lists every upcoming screening as its own card, so a
+ * film shown twice has two cards:
+ *   article.event-card
+ *     a.event-card__link[href]         – event page
+ *       img.event-card__image
+ *       h3.event-card__title
+ *     div.event-card__series           – series or festival ("First Look 2026")
+ *     div.event-card__date             – "Tuesday, February 17, 2026, 7:00 pm"
+ *     div.event-card__location         – auditorium (Redstone Theater, Bartos Screening Room)
+ *     p.event-card__credits            – "Dir. Francis Ford Coppola. 1974. 113 mins. 35mm."
+ *     p.event-card__summary
+ *     a.event-card__tickets            – ticketing link (?performance=…); "Sold Out" when sold out
+ *
+ * Screenings in the First Look festival are marked with it as their event;
+ * other series labels ("See It Big! Paranoia") become the showtime's series.
+ */
+export async function scrapeMoMI(ctx: ScrapeContext = createScrapeContext()): Promise<Showtime[]> {
+  const response = await ctx.fetch(SCREENINGS_URL);
+  if (!response.ok) {
+    throw new Error(`Museum of the Moving Image: HTTP ${response.status}`);
+  }
+
+  const $ = cheerio.load(await response.text());
+  const today = localDate(ctx.now);
+  const showtimes: Showtime[] = [];
+
+  $('article.event-card').each((_, card) => {
+    const $card = $(card);
+    const film = $card.find('.event-card__title').first().text().replace(/\s+/g, ' ').trim();
+    if (!film) return;
+
+    const when = $card.find('.event-card__date').first().text().replace(/\s+/g, ' ').trim();
+    const date = parseListingDate(when, today);
+    const match = when.match(/(\d{1,2}:\d{2})\s*([ap])\.?m/i);
+    if (!date || !match || date < today) return;
+    const time = `${match[1]} ${match[2].toUpperCase()}M`;
+
+    const eventUrl = $card.find('a.event-card__link').first().attr('href');
+    const $tickets = $card.find('a.event-card__tickets').first();
+    const ticketUrl = absoluteUrl($tickets.attr('href') || eventUrl || SCREENINGS_URL);
+    const sourceId = ticketUrl.match(/performance=(\d+)/)?.[1];
+    const image = $card.find('img.event-card__image').first().attr('src');
+    const metadata = parseCredits($card.find('.event-card__credits').first().text());
+    const seriesLabel = $card.find('.event-card__series').first().text().replace(/\s+/g, ' ').trim();
+    const event = festivalName(seriesLabel);
+
+    showtimes.push({
+      id: showtimeId(momi.id, { film, directors: metadata.directors, date, time, sourceId }),
+      film,
+      theater: momi.name,
+      date,
+      time,
+      ticketUrl,
+      imageUrl: image ? absoluteUrl(image).split('?')[0] : undefined,
+      description: $card.find('.event-card__summary').first().text().replace(/\s+/g, ' ').trim().slice(0, 300) || undefined,
+      ...metadata,
+      ...(event ? { event } : {}),
+      ...(!event && seriesLabel ? { series: { name: seriesLabel } } : {}),
+      ...(looksSoldOut($tickets.attr('class'), $tickets.text()) ? { availability: 'sold_out' as const } : {}),
+    });
+  });
+
+  console.log(`Museum of the Moving Image: Found ${showtimes.length} showtimes`);
+  return showtimes;
+}
+
+/** "Dir. Francis Ford Coppola. 1974. 113 mins. 35mm." */
+function parseCredits(text: string): FilmMetadata {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const directed = clean.match(/^Dir\.?\s+(.+?)\.\s/i);
+  const rest = directed ? clean.slice(directed[0].length) : clean;
+  return compactMetadata({
+    directors: directed ? splitNames(directed[1]) : undefined,
+    year: parseYear(rest),
+    runtimeMinutes: parseRuntime(rest),
+    format: parseFormat(rest),
+  });
+}
+
+/** MoMI's annual First Look festival; other series aren't events. */
+function festivalName(label: string): string | undefined {
+  return /\bFirst Look\b/i.test(label) ? 'First Look' : undefined;
+}
+
+function absoluteUrl(href: string): string {
+  return href.startsWith('http') ? href : `${BASE_URL}${href}`;
+}
@@ -0,0 +1,152 @@
+import { Showtime } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor, VenueInfo } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut } from '@/lib/availability';
+import { localDate } from '@/lib/datetime';
+import { FilmMetadata, compactMetadata, parseFormat, parseRuntime, parseYear, splitNames } from './metadata';
+import { parseListingDate } from './dates';
+import * as cheerio from 'cheerio';
+
+const BASE_URL = 'https://nitehawkcinema.com';
+
+const WILLIAMSBURG: VenueInfo = {
+  id: 'williamsburg',
+  name: 'Williamsburg',
+  address: '136 Metropolitan Ave',
+  borough: 'Brooklyn',
+};
+const PROSPECT_PARK: VenueInfo = {
+  id: 'prospectpark',
+  name: 'Prospect Park',
+  address: '188 Prospect Park West',
+  borough: 'Brooklyn',
+};
+
+export const nitehawk: TheaterDescriptor = {
+  id: 'nitehawk',
+  name: 'Nitehawk Cinema',
+  neighborhood: 'Williamsburg & Prospect Park, Brooklyn',
+  website: BASE_URL,
+  color: 'orange',
+  venues: [WILLIAMSBURG, PROSPECT_PARK],
+  probes: {
+    shows: '.show',
+    titles: '.show-title',
+    dates: 'li.show-date',
+    times: 'a.showtime',
+  },
+  scrape: scrapeNitehawk,
+};
+
+/**
+ * Scraper for Nitehawk Cinema (https://nitehawkcinema.com)
+ *
+ * Each location has its own now-playing page (/williamsburg/,
+ * /prospectpark/; the path is the venue id), with one block per film:
+ *   div.show
+ *     a.show-link[href]              – film page
+ *       img.show-poster
+ *       h3.show-title
+ *     p.show-series                  – series, e.g. "Midnite Movies"
+ *     p.show-meta                    – "Dir. Stanley Kubrick · 1980 · 146 min · 35mm"
+ *     p.show-synopsis
+ *     ul.show-dates > li.show-date[data-date]  – span.show-day "Tue, Feb 17" if no data-date
+ *       a.showtime                   – "11:45 pm", links to the session's
+ *                                      checkout (?txtSessionId=…); class "sold-out"
+ *
+ * A film's series label ("Midnite Movies") becomes the showtime's series.
+ *
+ * The same film playing at both locations yields separate showtimes, each
+ * carrying its location as the venue.
+ */
+export async function scrapeNitehawk(ctx: ScrapeContext = createScrapeContext()): Promise<Showtime[]> {
+  const today = localDate(ctx.now);
+  // Either location failing fails the run: the snapshot is saved per
+  // theater, so returning only the other's schedule would drop every
+  // screening at the failed one as if it had been cancelled
+  const results = await Promise.all(
+    nitehawk.venues!.map(venue => scrapeLocation(ctx, venue, today))
+  );
+  const showtimes = results.flat();
+  console.log(`Nitehawk Cinema: Found ${showtimes.length} showtimes`);
+  return showtimes;
+}
+
+/** Every screening on one location's now-playing page, from today on. */
+async function scrapeLocation(ctx: ScrapeContext, venue: VenueInfo, today: string): Promise<Showtime[]> {
+  const response = await ctx.fetch(`${BASE_URL}/${venue.id}/`);
+  if (!response.ok) {
+    throw new Error(`Nitehawk Cinema: HTTP ${response.status} (${venue.name})`);
+  }
+
+  const $ = cheerio.load(await response.text());
+  const showtimes: Showtime[] = [];
+
+  $('.show').each((_, showEl) => {
+    const $show = $(showEl);
+    const film = $show.find('.show-title').first().text().replace(/\s+/g, ' ').trim();
+    if (!film) return;
+    const href = $show.find('a.show-link').first().attr('href');
+    const filmUrl = href ? absoluteUrl(href) : `${BASE_URL}/${venue.id}/`;
+    const poster = $show.find('img.show-poster').first().attr('src');
+    const imageUrl = poster ? absoluteUrl(poster).split('?')[0] : undefined;
+    const description = $show.find('.show-synopsis').first().text().replace(/\s+/g, ' ').trim().slice(0, 300) || undefined;
+    const metadata = parseMeta($show.find('.show-meta').first().text());
+    const seriesName = $show.find('.show-series').first().text().replace(/\s+/g, ' ').trim();
+
+    $show.find('li.show-date').each((_, dayEl) => {
+      const $day = $(dayEl);
+      const dataDate = $day.attr('data-date') || '';
+      const date = /^\d{4}-\d{2}-\d{2}$/.test(dataDate)
+        ? dataDate
+        : parseListingDate($day.find('.show-day').first().text(), today);
+      if (!date || date < today) return;
+
+      $day.find('a.showtime').each((_, a) => {
+        const $a = $(a);
+        const match = $a.text().match(/(\d{1,2}:\d{2})\s*([ap])\.?m/i);
+        if (!match) return;
+        const time = `${match[1]} ${match[2].toUpperCase()}M`;
+        const ticketHref = $a.attr('href');
+        const ticketUrl = ticketHref ? absoluteUrl(ticketHref) : filmUrl;
+        const sourceId = ticketUrl.match(/txtSessionId=(\d+)/)?.[1];
+
+        showtimes.push({
+          // Session ids are only unique within a location
+          id: showtimeId(`${nitehawk.id}-${venue.id}`, { film, directors: metadata.directors, date, time, sourceId }),
+          film,
+          theater: nitehawk.name,
+          venue: venue.name,
+          date,
+          time,
+          ticketUrl,
+          imageUrl,
+          description,
+          ...metadata,
+          ...(seriesName ? { series: { name: seriesName } } : {}),
+          ...(looksSoldOut($a.attr('class'), $a.text()) ? { availability: 'sold_out' as const } : {}),
+        });
+      });
+    });
+  });
+
+  return showtimes;
+}
+
+/** "Dir. Stanley Kubrick · 1980 · 146 min · 35mm" */
+function parseMeta(text: string): FilmMetadata {
+  const parts = text.split('·').map(part => part.replace(/\s+/g, ' ').trim());
+  const directed = parts.find(part => /^Dir\.?\s/i.test(part));
+  const rest = parts.filter(part => part !== directed).join(' · ');
+  return compactMetadata({
+    directors: directed ? splitNames(directed.replace(/^Dir\.?\s+/i, '')) : undefined,
+    year: parseYear(rest),
+    runtimeMinutes: parseRuntime(rest),
+    format: parseFormat(rest),
+  });
+}
+
+function absoluteUrl(href: string): string {
+  return href.startsWith('http') ? href : `${BASE_URL}${href}`;
+}
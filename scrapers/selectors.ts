@@ -0,0 +1,316 @@
+import { Showtime } from '@/types/showtime';
+import { ScrapeContext, TheaterDescriptor, TheaterInfo } from '@/types/theater';
+import { createScrapeContext } from './context';
+import { showtimeId } from '@/lib/showtimeId';
+import { looksSoldOut } from '@/lib/availability';
+import { localDate } from '@/lib/datetime';
+import { FilmMetadata, compactMetadata, parseFormat, parseRuntime, parseYear, splitNames } from './metadata';
+import { parseListingDate } from './dates';
+import { StructuredHints, parseScreeningEvents } from './structured';
+import * as cheerio from 'cheerio';
+
+/**
+ * Declarative scrapers for listing pages.
+ *
+ * Some theater sites are one listing page of film containers, each with a
+ * title link, date headers and time links that go to checkout. A
+ * SelectorDefinition describes where those are; `selectorTheater` turns it
+ * into a TheaterDescriptor whose scraper runs the definition. A redesign is
+ * then a selector edit checked by the theater's fixture test.
+ *
+ * Every time and ticket link must be on the listing page. `follow` only
+ * enriches showtimes with credits from film pages, so sites that list times
+ * on per-film or ticket pages (BAM, Film Forum, Low Cinema) keep their own
+ * scrapers.
+ *
+ * Dates are found one of two ways:
+ * - `dateScope` set: the page is grouped by day. The header is read from
+ *   the film container's closest `dateScope` ancestor (IFC's daily blocks).
+ * - otherwise: headers and time links are interleaved inside the film
+ *   container, and each time belongs to the header before it (Metrograph).
+ */
+
+/** A cheerio selection of any nodes. */
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+/** How to read credits from a set of elements. */
+export type CreditsRule =
+  /**
+   * Free-text lines: "Director: …", "Cast: …"/"Starring: …", and a facts
+   * line ("1994 / 102min / 35mm") recognized by `facts`.
+   */
+  | { kind: 'lines'; selector: string; facts: RegExp }
+  /** Label/value items, e.g. <li><strong>Director</strong> Celine Song</li>. */
+  | { kind: 'labels'; selector: string; label: string };
+
+export interface SelectorDefinition {
+  url: string;               // listing page
+  baseUrl: string;           // for relative links
+  /** Tried first; the selectors are only used when the page has no ScreeningEvent JSON-LD. */
+  structuredData?: StructuredHints;
+
+  film: string;              // one container per film (per film and day, for day-grouped pages)
+  title: string;             // within the container; its href is the film page unless `link` is set
+  link?: string;
+  image?: string;            // img within the container
+  description?: string;
+  credits?: CreditsRule;     // credits printed on the listing itself
+
+  dateHeader: string;        // see the module comment for how headers are scoped
+  dateScope?: string;
+  dateFormat: 'listing' | 'iso'; // "Tue Feb 17" (year inferred) or "2026-02-17"
+  dateAttribute?: string;    // read the date from this attribute instead of the header text
+
+  time: string;              // time links
+  ticketAttribute: string;   // attribute holding the ticket URL, usually "href"
+  soldOutOn?: 'time' | 'parent'; // element whose class marks a sold-out time (default "time")
+  sourceIdPattern?: RegExp;  // the theater's performance ID in the ticket URL (first group)
+  groupTimes?: boolean;      // attach each film's times that day as allTimes
+
+  /** Enrichment: fetch each film page and read credits from it (never times). */
+  follow?: { credits: CreditsRule };
+}
+
+/** A theater scraped by running a SelectorDefinition. */
+export function selectorTheater(info: TheaterInfo, definition: SelectorDefinition): TheaterDescriptor {
+  return {
+    ...info,
+    probes: selectorProbes(definition),
+    scrape: (ctx: ScrapeContext = createScrapeContext()) => runSelectorDefinition(info, definition, ctx),
+  };
+}
+
+/** The definition's selectors as page-wide probes for the scraper CLI. */
+function selectorProbes(definition: SelectorDefinition): Record<string, string> {
+  const dateScope = definition.dateScope ?? definition.film;
+  return {
+    films: definition.film,
+    titles: within(definition.film, definition.title),
+    'date headers': within(dateScope, definition.dateHeader),
+    times: within(definition.film, definition.time),
+    ...(definition.structuredData ? { 'JSON-LD blocks': 'script[type="application/ld+json"]' } : {}),
+    ...(definition.follow ? { 'film page credits': definition.follow.credits.selector } : {}),
+  };
+}
+
+/** Scope every alternative of a selector list: ("a", "b, > c") → "a b, a > c". */
+function within(scope: string, selector: string): string {
+  return selector.split(',').map(part => `${scope} ${part.trim()}`).join(', ');
+}
+
+export async function runSelectorDefinition(
+  theater: Pick<TheaterInfo, 'id' | 'name' | 'website'>,
+  definition: SelectorDefinition,
+  ctx: ScrapeContext
+): Promise<Showtime[]> {
+  const response = await ctx.fetch(definition.url);
+  if (!response.ok) {
+    throw new Error(`${theater.name}: HTTP ${response.status}`);
+  }
+
+  const html = await response.text();
+  const today = localDate(ctx.now);
+
+  if (definition.structuredData) {
+    const structured = parseScreeningEvents(html, theater, today, definition.structuredData);
+    if (structured.length > 0) {
+      console.log(`${theater.name}: Found ${structured.length} showtimes (JSON-LD)`);
+      return structured;
+    }
+  }
+
+  const $ = cheerio.load(html);
+  const showtimes: Showtime[] = [];
+  const filmUrlOf = new Map<Showtime, string>();
+
+  $(definition.film).each((_, container) => {
+    try {
+      const $film = $(container);
+      const $title = $film.find(definition.title).first();
+      const film = $title.text().trim();
+      if (!film) return;
+
+      const filmHref = (definition.link ? $film.find(definition.link).first() : $title).attr('href') || '';
+      const filmUrl = absoluteUrl(filmHref, definition.baseUrl);
+      const image = definition.image ? $film.find(definition.image).first().attr('src') : undefined;
+      const description = definition.description
+        ? $film.find(definition.description).text().trim() || undefined
+        : undefined;
+      const metadata = definition.credits ? readCredits($, $film, definition.credits) : {};
+
+      const listed = timesIn($, $film, definition, today);
+      const allTimes = definition.groupTimes ? listed.map(t => t.time) : undefined;
+
+      for (const { date, time, $time } of listed) {
+        const ticketHref = $time.attr(definition.ticketAttribute) || filmUrl;
+        const ticketUrl = absoluteUrl(ticketHref, definition.baseUrl);
+        const sourceId = definition.sourceIdPattern ? ticketUrl.match(definition.sourceIdPattern)?.[1] : undefined;
+        const $soldOut = definition.soldOutOn === 'parent' ? $time.parent() : $time;
+
+        const showtime: Showtime = {
+          id: showtimeId(theater.id, { film, directors: metadata.directors, date, time, sourceId }),
+          film,
+          theater: theater.name,
+          date,
+          time,
+          ticketUrl,
+          ...(image ? { imageUrl: absoluteUrl(image, definition.baseUrl) } : {}),
+          ...(description ? { description } : {}),
+          ...metadata,
+          ...(allTimes ? { allTimes } : {}),
+          ...(looksSoldOut($soldOut.attr('class'), $time.text()) ? { availability: 'sold_out' as const } : {}),
+        };
+        showtimes.push(showtime);
+        filmUrlOf.set(showtime, filmUrl);
+      }
+    } catch (err) {
+      console.error(`${theater.name}: Error parsing film entry`, err);
+    }
+  });
+
+  if (definition.follow) {
+    const rule = definition.follow.credits;
+    const filmUrls = Array.from(new Set(filmUrlOf.values()));
+    const credits = new Map(
+      await Promise.all(filmUrls.map(async url => [url, await followCredits(ctx, theater, url, rule)] as const))
+    );
+    for (const showtime of showtimes) {
+      Object.assign(showtime, credits.get(filmUrlOf.get(showtime)!));
+    }
+  }
+
+  console.log(`${theater.name}: Found ${showtimes.length} showtimes`);
+  return showtimes;
+}
+
+interface ListedTime {
+  date: string;
+  time: string;
+  $time: Selection;
+}
+
+/** Every dated time link in a film container, in page order. */
+function timesIn(
+  $: cheerio.CheerioAPI,
+  $film: Selection,
+  definition: SelectorDefinition,
+  today: string
+): ListedTime[] {
+  const listed: ListedTime[] = [];
+  const push = ($time: Selection, date: string | null) => {
+    const time = normalizeTime($time.text());
+    if (date && time) listed.push({ date, time, $time });
+  };
+
+  if (definition.dateScope) {
+    const $header = $film.closest(definition.dateScope).find(definition.dateHeader).first();
+    const date = readDate($header, definition, today);
+    $film.find(definition.time).each((_, el) => push($(el), date));
+    return listed;
+  }
+
+  let currentDate: string | null = null;
+  $film.find(`${definition.dateHeader}, ${definition.time}`).each((_, el) => {
+    const $el = $(el);
+    if ($el.is(definition.dateHeader)) {
+      currentDate = readDate($el, definition, today);
+    } else {
+      push($el, currentDate);
+    }
+  });
+  return listed;
+}
+
+function readDate($header: Selection, definition: SelectorDefinition, today: string): string | null {
+  const text = (definition.dateAttribute ? $header.attr(definition.dateAttribute) : $header.text())?.trim() ?? '';
+  if (definition.dateFormat === 'iso') {
+    return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null;
+  }
+  return parseListingDate(text, today);
+}
+
+/** "3:00pm", "8:15 PM", "6 PM" → "3:00 PM", "8:15 PM", "6:00 PM" */
+function normalizeTime(text: string): string | null {
+  const match = text.match(/(\d{1,2})(?::(\d{2}))?\s*([AP])\.?M\b/i);
+  if (!match) return null;
+  return `${match[1]}:${match[2] ?? '00'} ${match[3].toUpperCase()}M`;
+}
+
+function readCredits($: cheerio.CheerioAPI, $scope: Selection, rule: CreditsRule): FilmMetadata {
+  const metadata: FilmMetadata = {};
+
+  if (rule.kind === 'lines') {
+    $scope.find(rule.selector).each((_, el) => {
+      const text = $(el).text().trim();
+      const directed = text.match(/Directors?:\s*(.+)/i);
+      const cast = text.match(/(?:Cast|Starring):\s*(.+)/i);
+      if (directed) {
+        metadata.directors = splitNames(directed[1]);
+      } else if (cast) {
+        metadata.cast = splitNames(cast[1]);
+      } else if (rule.facts.test(text)) {
+        metadata.year = parseYear(text);
+        metadata.runtimeMinutes = parseRuntime(text);
+        metadata.format = parseFormat(text);
+      }
+    });
+    return compactMetadata(metadata);
+  }
+
+  $scope.find(rule.selector).each((_, el) => {
+    const $item = $(el);
+    const label = $item.find(rule.label).first().text().trim().toLowerCase();
+    const value = $item.clone().children(rule.label).remove().end().text().replace(/\s+/g, ' ').trim();
+    if (!value) return;
+    switch (label) {
+      case 'director':
+      case 'directors':
+        metadata.directors = splitNames(value);
+        break;
+      case 'cast':
+        metadata.cast = splitNames(value);
+        break;
+      case 'year':
+        metadata.year = parseYear(value);
+        break;
+      case 'running time':
+        metadata.runtimeMinutes = parseRuntime(value);
+        break;
+      case 'country':
+        metadata.country = value;
+        break;
+      case 'language':
+        metadata.language = value;
+        break;
+      case 'format':
+        metadata.format = parseFormat(value) ?? value;
+        break;
+    }
+  });
+  return compactMetadata(metadata);
+}
+
+/**
+ * Read credits from a film page. Returns no metadata if the page is
+ * unavailable.
+ */
+async function followCredits(
+  ctx: ScrapeContext,
+  theater: Pick<TheaterInfo, 'name'>,
+  url: string,
+  rule: CreditsRule
+): Promise<FilmMetadata> {
+  try {
+    const res = await ctx.fetch(url);
+    if (!res.ok) return {};
+    const $ = cheerio.load(await res.text());
+    return readCredits($, $.root(), rule);
+  } catch (err) {
+    console.error(`${theater.name}: Error fetching film page ${url}`, err);
+    return {};
+  }
+}
+
+function absoluteUrl(href: string, baseUrl: string): string {
+  return href.startsWith('http') ? href : `${baseUrl}${href}`;
+}
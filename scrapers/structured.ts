@@ -0,0 +1,374 @@
+import { Availability, Showtime, ShowtimeSeries } from '@/types/showtime';
+import { TheaterInfo } from '@/types/theater';
+import { showtimeId } from '@/lib/showtimeId';
+import { clockTime, isoDate, localDate, localTime } from '@/lib/datetime';
+import { FilmMetadata, compactMetadata, parseFormat, parseRuntime, parseYear, splitNames } from './metadata';
+import * as cheerio from 'cheerio';
+
+/**
+ * Showtimes from structured data instead of page markup.
+ *
+ * Many cinema sites embed schema.org JSON-LD (`ScreeningEvent`, or plain
+ * `Event`) for search engines, or publish an iCalendar feed. Both change far
+ * less often than CSS classes, so a scraper can try `parseScreeningEvents`
+ * on a page it already fetched before falling back to its own parsing (see
+ * SelectorDefinition.structuredData), or read a feed with `parseIcsFeed`.
+ *
+ * Times without a UTC offset (JSON-LD "2026-02-18T19:30", iCal floating or
+ * TZID times) are read as New York wall-clock times; times with one are
+ * converted. Past and cancelled screenings are dropped. A JSON-LD event's
+ * `superEvent` (an EventSeries) is the showtime's series.
+ */
+
+/** Per-theater adjustments to how structured data maps onto showtimes. */
+export interface StructuredHints {
+  /** Extracts the theater's performance ID from a ticket URL (first capture group). */
+  sourceIdPattern?: RegExp;
+  /** Location name fragments (case-insensitive) → Showtime.venue. */
+  venues?: Record<string, string>;
+  /** Removed from titles, e.g. /^Opening Night: /i. */
+  stripFromTitle?: RegExp;
+  /** Site root, for resolving relative URLs. */
+  baseUrl?: string;
+}
+
+/** The theater fields structured showtimes are built from. */
+export type StructuredTheater = Pick<TheaterInfo, 'id' | 'name' | 'website'>;
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+
+type JsonLdNode = Record<string, unknown>;
+
+const EVENT_TYPES = ['ScreeningEvent', 'Event'];
+
+/**
+ * Every ScreeningEvent/Event in a page's JSON-LD blocks, as showtimes.
+ * Returns an empty array if the page has none (or only malformed JSON).
+ */
+export function parseScreeningEvents(
+  html: string,
+  theater: StructuredTheater,
+  today: string,
+  hints: StructuredHints = {}
+): Showtime[] {
+  const $ = cheerio.load(html);
+  const events: JsonLdNode[] = [];
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      collectEvents(JSON.parse($(script).text()), events);
+    } catch {
+      // Sites ship broken JSON-LD now and then; skip that block
+    }
+  });
+
+  const showtimes: Showtime[] = [];
+  const seenIds = new Set<string>();
+  for (const event of events) {
+    const showtime = showtimeFromEvent(event, theater, today, hints);
+    if (!showtime || seenIds.has(showtime.id)) continue;
+    seenIds.add(showtime.id);
+    showtimes.push(showtime);
+  }
+  return showtimes;
+}
+
+/** Walk arrays, @graph and ItemLists for event nodes. */
+function collectEvents(value: unknown, into: JsonLdNode[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectEvents(item, into);
+    return;
+  }
+  if (!isNode(value)) return;
+  if (typesOf(value).some(type => EVENT_TYPES.includes(type))) {
+    into.push(value);
+    return;
+  }
+  if (value['@graph']) collectEvents(value['@graph'], into);
+  for (const element of asArray(value.itemListElement)) {
+    collectEvents(isNode(element) && element.item ? element.item : element, into);
+  }
+}
+
+function showtimeFromEvent(
+  event: JsonLdNode,
+  theater: StructuredTheater,
+  today: string,
+  hints: StructuredHints
+): Showtime | null {
+  if (/Cancelled|Postponed/i.test(textOf(event.eventStatus) ?? '')) return null;
+  const start = parseIsoStart(textOf(event.startDate) ?? '');
+  if (!start || start.date < today) return null;
+
+  const work = asArray(event.workPresented).find(isNode);
+  const film = cleanTitle(textOf(work?.name) ?? textOf(event.name) ?? '', hints);
+  if (!film) return null;
+
+  const offers = asArray(event.offers).filter(isNode);
+  const offerUrl = offers.map(offer => textOf(offer.url)).find(Boolean);
+  const ticketUrl = absoluteUrl(offerUrl ?? textOf(event.url) ?? theater.website, hints);
+  const metadata = work ? workMetadata(work) : {};
+  const format = parseFormat(textOf(event.videoFormat) ?? '');
+  const venue = venueFor(textOf(event.location), hints);
+  const availability = offerAvailability(offers);
+  const image = imageOf(work?.image) ?? imageOf(event.image);
+  const description = clean(textOf(event.description) ?? textOf(work?.description) ?? '').slice(0, 300);
+  const series = seriesOf(event.superEvent, hints);
+
+  return {
+    id: showtimeId(theater.id, {
+      film,
+      directors: metadata.directors,
+      date: start.date,
+      time: start.time,
+      timesTba: start.timesTba,
+      sourceId: sourceIdOf(ticketUrl, hints) ?? textOf(event.identifier),
+    }),
+    film,
+    theater: theater.name,
+    date: start.date,
+    time: start.time,
+    ...(start.timesTba ? { timesTba: true } : {}),
+    ticketUrl,
+    ...(image ? { imageUrl: absoluteUrl(image, hints) } : {}),
+    ...(description ? { description } : {}),
+    ...metadata,
+    ...(format ? { format } : {}),
+    ...(venue ? { venue } : {}),
+    ...(series ? { series } : {}),
+    ...(availability ? { availability } : {}),
+  };
+}
+
+/** The series a superEvent names, given as an EventSeries node or just its name. */
+function seriesOf(value: unknown, hints: StructuredHints): ShowtimeSeries | undefined {
+  const node = asArray(value).find(isNode);
+  const name = clean(textOf(value) ?? '');
+  if (!name) return undefined;
+  const url = textOf(node?.url);
+  const description = clean(textOf(node?.description) ?? '').slice(0, 300);
+  return {
+    name,
+    ...(url ? { url: absoluteUrl(url, hints) } : {}),
+    ...(description ? { description } : {}),
+  };
+}
+
+/** Credits from a schema.org Movie. */
+function workMetadata(work: JsonLdNode): FilmMetadata {
+  const duration = textOf(work.duration) ?? '';
+  return compactMetadata({
+    directors: namesOf(work.director),
+    cast: namesOf(work.actor),
+    year: parseYear(textOf(work.dateCreated) ?? textOf(work.datePublished) ?? ''),
+    runtimeMinutes: isoDurationMinutes(duration) ?? parseRuntime(duration),
+    country: textOf(work.countryOfOrigin),
+  });
+}
+
+/** "https://schema.org/SoldOut" → sold_out; InStock and friends say nothing. */
+function offerAvailability(offers: JsonLdNode[]): Availability | undefined {
+  const states = offers.map(offer => textOf(offer.availability) ?? '');
+  if (states.length > 0 && states.every(state => /SoldOut/i.test(state))) return 'sold_out';
+  if (states.some(state => /LimitedAvailability/i.test(state))) return 'limited';
+  return undefined;
+}
+
+/** "PT1H45M" → 105 */
+function isoDurationMinutes(text: string): number | undefined {
+  const match = text.match(/^PT(?:(\d+)H)?(?:(\d+)M)?/i);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  return parseInt(match[1] ?? '0', 10) * 60 + parseInt(match[2] ?? '0', 10);
+}
+
+interface StructuredStart {
+  date: string;
+  time: string;
+  timesTba?: boolean;
+}
+
+/**
+ * "2026-02-18T19:30:00-05:00" / "2026-02-19T00:30:00Z" (converted),
+ * "2026-02-18T19:30" (New York wall clock), "2026-02-18" (times TBA).
+ */
+function parseIsoStart(text: string): StructuredStart | null {
+  const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, zone] = match;
+  if (h === undefined) return { date: `${y}-${mo}-${d}`, time: 'Times TBA', timesTba: true };
+  if (zone) {
+    const instant = new Date(text.trim());
+    return { date: localDate(instant), time: localTime(instant) };
+  }
+  return { date: `${y}-${mo}-${d}`, time: clockTime(parseInt(h, 10), parseInt(mi, 10)) };
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Every VEVENT in an iCal feed, as showtimes. */
+export function parseIcsFeed(
+  ics: string,
+  theater: StructuredTheater,
+  today: string,
+  hints: StructuredHints = {}
+): Showtime[] {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = ics.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const showtimes: Showtime[] = [];
+  let current: Map<string, IcsProperty> | null = null;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = new Map();
+    } else if (line === 'END:VEVENT') {
+      const showtime = current && showtimeFromVevent(current, theater, today, hints);
+      if (showtime) showtimes.push(showtime);
+      current = null;
+    } else if (current) {
+      const property = parseIcsLine(line);
+      if (property && !current.has(property.name)) current.set(property.name, property);
+    }
+  }
+  return showtimes;
+}
+
+/** "DTSTART;TZID=America/New_York:20260218T193000" */
+function parseIcsLine(line: string): (IcsProperty & { name: string }) | null {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function showtimeFromVevent(
+  props: Map<string, IcsProperty>,
+  theater: StructuredTheater,
+  today: string,
+  hints: StructuredHints
+): Showtime | null {
+  if (/CANCELLED/i.test(props.get('STATUS')?.value ?? '')) return null;
+  const start = parseIcsStart(props.get('DTSTART'));
+  if (!start || start.date < today) return null;
+  const film = cleanTitle(unescapeIcs(props.get('SUMMARY')?.value ?? ''), hints);
+  if (!film) return null;
+
+  const description = unescapeIcs(props.get('DESCRIPTION')?.value ?? '');
+  const linkedUrl = props.get('URL')?.value ?? description.match(/https?:\/\/\S+/)?.[0];
+  const ticketUrl = absoluteUrl(linkedUrl ?? theater.website, hints);
+  const venue = venueFor(unescapeIcs(props.get('LOCATION')?.value ?? ''), hints);
+  const summary = clean(description.replace(/(?:\b(?:Tickets|More info):\s*)?https?:\/\/\S+/gi, '')).slice(0, 300);
+
+  return {
+    id: showtimeId(theater.id, {
+      film,
+      date: start.date,
+      time: start.time,
+      timesTba: start.timesTba,
+      sourceId: sourceIdOf(ticketUrl, hints) ?? props.get('UID')?.value,
+    }),
+    film,
+    theater: theater.name,
+    date: start.date,
+    time: start.time,
+    ...(start.timesTba ? { timesTba: true } : {}),
+    ticketUrl,
+    ...(summary ? { description: summary } : {}),
+    ...(venue ? { venue } : {}),
+  };
+}
+
+/**
+ * "20260219T003000Z" (converted), "20260218T193000" with or without a TZID
+ * (New York wall clock), VALUE=DATE "20260218" (times TBA).
+ */
+function parseIcsStart(property: IcsProperty | undefined): StructuredStart | null {
+  const match = property?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, utc] = match;
+  const date = isoDate(parseInt(y, 10), parseInt(mo, 10), parseInt(d, 10));
+  if (h === undefined) return { date, time: 'Times TBA', timesTba: true };
+  if (utc) {
+    const instant = new Date(`${date}T${h}:${mi}:00Z`);
+    return { date: localDate(instant), time: localTime(instant) };
+  }
+  return { date, time: clockTime(parseInt(h, 10), parseInt(mi, 10)) };
+}
+
+function unescapeIcs(text: string): string {
+  return text.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+// ---------------------------------------------------------------------------
+// Shared
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function typesOf(node: JsonLdNode): string[] {
+  return asArray(node['@type']).filter((type): type is string => typeof type === 'string');
+}
+
+/** A string, a number, or a node's name / @value / @id. */
+function textOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return textOf(value[0]);
+  if (isNode(value)) return textOf(value.name) ?? textOf(value['@value']) ?? textOf(value['@id']);
+  return undefined;
+}
+
+/** Person nodes, or a string credit list. */
+function namesOf(value: unknown): string[] | undefined {
+  const names = asArray(value).flatMap(item =>
+    typeof item === 'string' ? splitNames(item) : (textOf(item) ? [textOf(item)!] : [])
+  );
+  return names.length > 0 ? names : undefined;
+}
+
+/** A URL string, ImageObject, or a list of either. */
+function imageOf(value: unknown): string | undefined {
+  const first = asArray(value)[0];
+  if (typeof first === 'string') return first;
+  if (isNode(first)) return textOf(first.url) ?? textOf(first.contentUrl);
+  return undefined;
+}
+
+function venueFor(location: string | undefined, hints: StructuredHints): string | undefined {
+  if (!location || !hints.venues) return undefined;
+  const lower = location.toLowerCase();
+  return Object.entries(hints.venues).find(([fragment]) => lower.includes(fragment.toLowerCase()))?.[1];
+}
+
+function sourceIdOf(ticketUrl: string, hints: StructuredHints): string | undefined {
+  return hints.sourceIdPattern ? ticketUrl.match(hints.sourceIdPattern)?.[1] : undefined;
+}
+
+function cleanTitle(title: string, hints: StructuredHints): string {
+  return clean(hints.stripFromTitle ? title.replace(hints.stripFromTitle, '') : title);
+}
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function absoluteUrl(href: string, hints: StructuredHints): string {
+  if (href.startsWith('http') || !hints.baseUrl) return href;
+  return `${hints.baseUrl.replace(/\/$/, '')}${href.startsWith('/') ? '' : '/'}${href}`;
+}
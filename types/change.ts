@@ -0,0 +1,26 @@
+/**
+ * What changed at a theater between two scrapes (see lib/changes).
+ *
+ * - new_film: a film the theater wasn't listing before
+ * - new_screening: another screening of a film it was already listing
+ * - time_changed: a screening moved to another start time (or day)
+ * - removed: an upcoming screening the theater no longer lists
+ * - run_extended: a film's last listed date moved later
+ */
+export type ShowtimeChangeType = 'new_film' | 'new_screening' | 'time_changed' | 'removed' | 'run_extended';
+
+export interface ShowtimeChange {
+  id: string;
+  type: ShowtimeChangeType;
+  theater: string;             // theater name, matches Showtime.theater
+  filmKey: string;
+  filmTitle: string;
+  showtimeId?: string;         // the screening as it is now; unset for removed and run_extended
+  previousShowtimeId?: string; // the screening as it was; set for time_changed and removed
+  date?: string;               // the screening's date, or the run's new last date (YYYY-MM-DD)
+  time?: string;
+  previousDate?: string;       // before the change: the old date, or the run's old last date
+  previousTime?: string;
+  ticketUrl?: string;
+  detectedAt: string;          // ISO timestamp of the scrape that noticed it
+}
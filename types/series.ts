@@ -0,0 +1,15 @@
+/**
+ * A series or retrospective one theater is running, e.g. Film Forum's
+ * "Italian Neorealism". Built from the series its showtimes are part of
+ * (see lib/series).
+ */
+export interface Series {
+  id: string;            // theater id + key of the name, e.g. "filmforum-italian-neorealism"
+  name: string;
+  theater: string;       // theater name, matches Showtime.theater
+  url?: string;          // the theater's series page
+  description?: string;
+  startDate: string;     // first screening seen (YYYY-MM-DD)
+  endDate: string;       // last screening listed (YYYY-MM-DD)
+  showtimeCount: number; // upcoming screenings in the stored snapshot
+}
@@ -1,18 +1,61 @@
+/** Ticket availability as the theater reports it. */
+export type Availability = 'available' | 'limited' | 'sold_out';
+
+/**
+ * Special-event cues read from a screening's listing (lib/tags): a Q&A or
+ * introduction, a film print, a premiere, a members-only or open-captioned
+ * screening.
+ */
+export type ShowtimeTag = 'qa' | 'intro' | '35mm' | '70mm' | 'premiere' | 'members-only' | 'open-captions';
+
+/** One film screened as part of a multi-film program, e.g. a shorts program. */
+export interface ProgramFilm {
+  title: string;
+  directors?: string[];
+  year?: number;
+  runtimeMinutes?: number;
+  format?: string;
+}
+
+/** The series or retrospective a screening is part of, as the theater lists it. */
+export interface ShowtimeSeries {
+  name: string;         // e.g. "Italian Neorealism"
+  url?: string;         // the theater's series page
+  description?: string; // blurb from the series page, where scraped
+}
+
 export interface Showtime {
   id: string;
-  film: string;
+  film: string;        // title as the theater lists it
+  filmKey?: string;    // canonical film identity shared across theaters (lib/filmIdentity)
+  filmTitle?: string;  // clean display title for that film
   theater: string;
-  date: string;        // ISO date string (YYYY-MM-DD)
-  time: string;        // e.g., "7:30 PM"
+  venue?: string;      // which of the theater's venues, for theaters with several
+  date: string;        // ISO date string (YYYY-MM-DD), in New York
+  time: string;        // e.g., "7:30 PM" New York time, or "Times TBA" when timesTba is set
+  startsAt?: string;   // start instant as an ISO timestamp (lib/datetime); unset when TBA
+  timesTba?: boolean;  // theater hasn't published times for this date yet
+  timeGuessed?: boolean; // AM/PM was inferred, not read from the theater
   ticketUrl: string;   // direct link to buy tickets for this showing
   imageUrl?: string;   // film poster/image if available
   description?: string; // brief synopsis if available
-  popularity?: number; // 0-100 score derived from ticket sales / availability
+  directors?: string[];
+  cast?: string[];
+  year?: number;           // release year
+  runtimeMinutes?: number;
+  country?: string;        // country of production, as the theater lists it
+  language?: string;       // spoken language, e.g. "Italian"
+  format?: string;         // projection format, e.g. "35mm", "DCP"
+  event?: string;          // festival the screening is part of, e.g. "New York Film Festival"
+  series?: ShowtimeSeries; // series or retrospective it's part of (lib/series)
+  program?: ProgramFilm[]; // films in a multi-film program; `film` is then the program's title
+  tags?: ShowtimeTag[];    // special-event cues, e.g. ["qa", "35mm"] (lib/tags)
+  availability?: Availability;
+  popularity?: number; // 0-100 score derived from ticket sales / availability (lib/availability)
   ticketsAvailable?: number; // remaining tickets if known
   totalCapacity?: number;    // total seats if known
   allTimes?: string[]; // all showtimes for this film on this date at this theater
+  soldOutTimes?: string[]; // which of allTimes are sold out
+  guessedTimes?: string[]; // which of allTimes have an inferred AM/PM
 }
 
-export type TheaterName = 'Metrograph' | 'BAM Rose Cinemas' | 'Low Cinema' | 'IFC Center' | 'Film Forum';
-
-export const THEATERS: TheaterName[] = ['Metrograph', 'BAM Rose Cinemas', 'Low Cinema', 'IFC Center', 'Film Forum'];
@@ -0,0 +1,50 @@
+import { Showtime } from './showtime';
+
+/** Brand color key — maps to a Tailwind palette in the UI. */
+export type TheaterColor = 'red' | 'blue' | 'violet' | 'emerald' | 'amber' | 'sky' | 'rose' | 'orange' | 'teal';
+
+export type Borough = 'Manhattan' | 'Brooklyn' | 'Queens' | 'The Bronx' | 'Staten Island';
+
+/**
+ * A place a theater screens: one of its branches or buildings, or the only
+ * location of a theater worth giving an address for.
+ */
+export interface VenueInfo {
+  id: string;         // stable slug within the theater, e.g. "walter-reade"
+  name: string;       // display name, also used as Showtime.venue
+  address?: string;   // street address, e.g. "136 Metropolitan Ave"
+  borough?: Borough;
+}
+
+/** Display metadata for a theater. Safe to send to the client. */
+export interface TheaterInfo {
+  id: string;           // stable slug, e.g. "filmforum"
+  name: string;         // display name, also used as Showtime.theater
+  neighborhood: string; // e.g. "West Houston St, Manhattan"
+  website: string;      // public schedule page
+  color: TheaterColor;
+  venues?: VenueInfo[]; // branches or buildings; see lib/venues
+}
+
+/**
+ * Everything a scraper needs from the outside world. Injected so scrapers
+ * can run offline against saved fixtures with a frozen clock.
+ */
+export interface ScrapeContext {
+  fetch: typeof fetch;
+  now: Date; // "today" for date windows and year inference
+}
+
+/**
+ * A registered theater: its metadata plus the scraper that produces its
+ * showtimes. Each module in `scrapers/` exports exactly one of these.
+ */
+export interface TheaterDescriptor extends TheaterInfo {
+  scrape: (ctx?: ScrapeContext) => Promise<Showtime[]>;
+  /**
+   * CSS selectors the scraper depends on, by label. The scraper CLI counts
+   * their hits on every page fetched, so a run that comes back empty shows
+   * which one stopped matching.
+   */
+  probes?: Record<string, string>;
+}